@@ -0,0 +1,327 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { createLocalContext } from "@/game/engine/context";
+import { transferResources } from "@/game/engine/probe-actions";
+import { Probe, StructureSchema } from "@/game/core/types";
+import { ProbeActionType } from "./schemas";
+import {
+  findRejectedActions,
+  validateAction,
+  ValidationScope,
+} from "./action-validation";
+
+const act = (
+  action: ProbeActionType["action"],
+  parameters: Record<string, unknown> = {},
+): ProbeActionType => ({ action, parameters, reasoning: "test" });
+
+// The error code a probe's action is rejected with, or "accepted"
+const verdict = (
+  probe: Probe,
+  action: ProbeActionType,
+  scope: ValidationScope = "full",
+) => {
+  const result = validateAction(gameState.getProbe(probe.id)!, action, scope);
+  return result.success ? "accepted" : result.error?.code;
+};
+
+describe("action validation", () => {
+  let genesis: Probe;
+  let otherSystemId: string;
+
+  // Another probe built from Genesis, optionally elsewhere
+  const addProbe = (id: string, overrides: Partial<Probe> = {}) => {
+    const probe = { ...genesis, id, name: id, ...overrides };
+    gameState.addProbe(probe);
+    return probe;
+  };
+
+  // A relay in a system, on its first body
+  const addRelay = (systemId: string) => {
+    const system = gameState.getSolarSystem(systemId)!;
+    gameState.addStructure(
+      StructureSchema.parse({
+        id: `relay-${systemId}`,
+        type: "communications_relay",
+        name: `${system.name} relay`,
+        systemId,
+        bodyId: system.bodies[0].id,
+        builtBy: genesis.id,
+        builtAt: 0,
+      }),
+    );
+  };
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+    otherSystemId = gameState
+      .getAllSystems()
+      .find((s) => s.id !== genesis.currentSystemId)!.id;
+  });
+
+  describe("parameters and targets", () => {
+    it("rejects missing parameters", () => {
+      expect(verdict(genesis, act("scan_resources"))).toBe(
+        "invalid_parameters",
+      );
+      expect(verdict(genesis, act("harvest_resources", { bodyId: "x" }))).toBe(
+        "invalid_parameters",
+      );
+    });
+
+    it("rejects bodies that don't exist or are elsewhere", () => {
+      const elsewhere = gameState.getSolarSystem(otherSystemId)!.bodies[0];
+      expect(
+        verdict(genesis, act("scan_resources", { bodyId: "nowhere" })),
+      ).toBe("unknown_body");
+      expect(
+        verdict(genesis, act("scan_resources", { bodyId: elsewhere.id })),
+      ).toBe("body_in_other_system");
+    });
+
+    it("rejects trips to unknown systems or the current one", () => {
+      expect(
+        verdict(genesis, act("travel_to_system", { systemId: "nowhere" })),
+      ).toBe("unknown_system");
+      expect(
+        verdict(
+          genesis,
+          act("travel_to_system", { systemId: genesis.currentSystemId }),
+        ),
+      ).toBe("already_in_system");
+    });
+  });
+
+  describe("probe state", () => {
+    it("rejects trips the probe can't fuel", () => {
+      gameState.updateProbe(
+        genesis.id,
+        { resources: { ...genesis.resources, energy: 0, hydrogen: 0 } },
+        "EnergyBalanced",
+      );
+      expect(
+        verdict(genesis, act("travel_to_system", { systemId: otherSystemId })),
+      ).toBe("insufficient_resources");
+    });
+
+    it("rejects bodies out of reach", () => {
+      const far = addProbe("far", {
+        // Millions of km: well beyond sensor and harvesting range
+        position: { x: 1e5, y: 1e5, z: 0 },
+      });
+      const bodyId = gameState.getSolarSystem(genesis.currentSystemId)!
+        .bodies[0].id;
+      expect(verdict(far, act("scan_resources", { bodyId }))).toBe(
+        "out_of_range",
+      );
+      expect(
+        verdict(far, act("harvest_resources", { bodyId, duration: 1 })),
+      ).toBe("out_of_range");
+      // Range is a state check, outside the structural scope
+      expect(verdict(far, act("scan_resources", { bodyId }), "structure")).toBe(
+        "accepted",
+      );
+    });
+
+    it("rejects a second trip while in flight", () => {
+      gameState.updateProbe(
+        genesis.id,
+        {
+          status: "traveling",
+          trajectory: {
+            kind: "in_system",
+            originSystemId: genesis.currentSystemId,
+            destinationSystemId: genesis.currentSystemId,
+            origin: genesis.position,
+            destination: genesis.position,
+            distance: 0,
+            departureTick: 0,
+            arrivalTick: 5,
+          },
+        },
+        "ProbeDeparted",
+      );
+      expect(
+        verdict(genesis, act("travel_to_system", { systemId: otherSystemId })),
+      ).toBe("already_traveling");
+    });
+  });
+
+  describe("transfer_resources", () => {
+    const transfer = (targetProbeId: string, metal = 1) =>
+      act("transfer_resources", { targetProbeId, resources: { metal } });
+
+    let neighbor: Probe;
+    let distant: Probe;
+
+    beforeEach(() => {
+      neighbor = addProbe("neighbor");
+      distant = addProbe("distant", { currentSystemId: otherSystemId });
+    });
+
+    it("accepts a transfer to a probe alongside", () => {
+      expect(verdict(genesis, transfer(neighbor.id))).toBe("accepted");
+    });
+
+    it("rejects unknown receivers, itself and empty transfers", () => {
+      expect(verdict(genesis, transfer("nobody"))).toBe("probe_not_found");
+      expect(verdict(genesis, transfer(genesis.id))).toBe("invalid_parameters");
+      expect(verdict(genesis, transfer(neighbor.id, 0))).toBe(
+        "invalid_parameters",
+      );
+    });
+
+    it("rejects destroyed receivers", () => {
+      gameState.updateProbe(
+        neighbor.id,
+        { status: "destroyed" },
+        "ProbeDestroyed",
+      );
+      expect(verdict(genesis, transfer(neighbor.id))).toBe("probe_destroyed");
+    });
+
+    it("keeps the cargo when the rule meets a destroyed receiver", async () => {
+      gameState.updateProbe(
+        neighbor.id,
+        { status: "destroyed" },
+        "ProbeDestroyed",
+      );
+      const result = await transferResources.fn(
+        {
+          probeId: genesis.id,
+          targetProbeId: neighbor.id,
+          resources: { metal: 1 },
+        },
+        createLocalContext(),
+      );
+      expect(result.error?.code).toBe("probe_destroyed");
+      expect(gameState.getProbe(genesis.id)!.resources).toEqual(
+        genesis.resources,
+      );
+    });
+
+    it("rejects receivers out of reach", () => {
+      // 5 AU away; positions are in millions of km
+      const far = addProbe("far", {
+        position: { ...genesis.position, x: genesis.position.x + 750 },
+      });
+      expect(verdict(genesis, transfer(distant.id))).toBe("out_of_range");
+      expect(verdict(genesis, transfer(far.id))).toBe("out_of_range");
+      // Range is a state check, outside the structural scope
+      expect(verdict(genesis, transfer(distant.id), "structure")).toBe(
+        "accepted",
+      );
+    });
+
+    it("rejects more than the sender holds or the receiver can store", () => {
+      expect(
+        verdict(genesis, transfer(neighbor.id, genesis.resources.metal + 1)),
+      ).toBe("insufficient_resources");
+
+      gameState.updateProbe(
+        neighbor.id,
+        {
+          resources: {
+            ...neighbor.resources,
+            metal:
+              neighbor.capabilities.storageCapacity -
+              gameState.getTotalResourceAmount(neighbor.resources) +
+              neighbor.resources.metal,
+          },
+        },
+        "ResourcesTransferred",
+      );
+      expect(verdict(genesis, transfer(neighbor.id))).toBe("storage_full");
+    });
+  });
+
+  describe("send_message", () => {
+    const message = (recipientId: string) =>
+      act("send_message", { recipientId, content: "hello" });
+
+    let neighbor: Probe;
+    let distant: Probe;
+
+    beforeEach(() => {
+      neighbor = addProbe("neighbor");
+      distant = addProbe("distant", { currentSystemId: otherSystemId });
+    });
+
+    it("accepts a recipient within communication range", () => {
+      expect(verdict(genesis, message(neighbor.id))).toBe("accepted");
+    });
+
+    it("rejects unknown recipients and itself", () => {
+      expect(verdict(genesis, message("nobody"))).toBe("probe_not_found");
+      expect(verdict(genesis, message(genesis.id))).toBe("invalid_parameters");
+    });
+
+    it("rejects recipients beyond communication range", () => {
+      expect(verdict(genesis, message(distant.id))).toBe("out_of_range");
+    });
+
+    it("rejects destroyed recipients and ones crossing interstellar space", () => {
+      gameState.updateProbe(
+        neighbor.id,
+        { status: "destroyed" },
+        "ProbeDestroyed",
+      );
+      expect(verdict(genesis, message(neighbor.id))).toBe("probe_destroyed");
+
+      const leaving = addProbe("leaving", {
+        status: "traveling",
+        trajectory: {
+          kind: "interstellar",
+          originSystemId: genesis.currentSystemId,
+          destinationSystemId: otherSystemId,
+          origin: genesis.position,
+          destination: genesis.position,
+          distance: 1,
+          departureTick: 0,
+          arrivalTick: 5,
+        },
+      });
+      expect(verdict(genesis, message(leaving.id))).toBe("out_of_range");
+    });
+
+    it("accepts recipients linked by relays", () => {
+      addRelay(genesis.currentSystemId);
+      expect(verdict(genesis, message(distant.id))).toBe("out_of_range");
+      addRelay(otherSystemId);
+      expect(verdict(genesis, message(distant.id))).toBe("accepted");
+    });
+  });
+
+  describe("structures", () => {
+    it("rejects structures that don't exist or are elsewhere", () => {
+      addRelay(otherSystemId);
+      expect(
+        verdict(genesis, act("decommission_structure", { structureId: "x" })),
+      ).toBe("structure_not_found");
+      expect(
+        verdict(
+          genesis,
+          act("decommission_structure", {
+            structureId: `relay-${otherSystemId}`,
+          }),
+        ),
+      ).toBe("body_in_other_system");
+    });
+  });
+
+  it("holds only the first action of a plan to the state checks", () => {
+    gameState.updateProbe(
+      genesis.id,
+      { resources: { ...genesis.resources, energy: 0, hydrogen: 0 } },
+      "EnergyBalanced",
+    );
+    const trip = act("travel_to_system", { systemId: otherSystemId });
+    const rejected = findRejectedActions(gameState.getProbe(genesis.id)!, [
+      act("wait"),
+      trip,
+      act("travel_to_system", { systemId: "nowhere" }),
+    ]);
+    expect(rejected.map(({ index }) => index)).toEqual([2]);
+  });
+});
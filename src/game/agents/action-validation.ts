@@ -0,0 +1,235 @@
+import { z } from "zod";
+import { gameState } from "@/game/core/game-state";
+import {
+  BaseTaskOutputSchema,
+  Probe,
+  TaskError,
+  TaskErrorCodeType,
+} from "@/game/core/types";
+import {
+  checkBodyInReach,
+  checkBuild,
+  checkCanDepart,
+  checkCancelManufacturing,
+  checkHarvestStorage,
+  checkInSystemTrip,
+  checkInterstellarFuel,
+  checkInterstellarTarget,
+  checkLocalBody,
+  checkManufacturing,
+  checkMessageReach,
+  checkMessageTarget,
+  checkNotTraveling,
+  checkRefining,
+  checkRepair,
+  checkStructureInReach,
+  checkStructureTarget,
+  checkTransfer,
+  checkTransferTarget,
+  checkUpgrade,
+} from "@/game/engine/action-checks";
+import {
+  ActionParameterSchemas,
+  ProbeAction,
+  ProbeActionType,
+} from "@/game/agents/schemas";
+
+// Success carries the action with its parameters parsed by the action's
+// schema; failure is a regular task failure, so it can sit in an executed
+// action's result
+export const ActionValidationOutput = BaseTaskOutputSchema(
+  z.object({
+    action: ProbeAction,
+    parameters: z.record(z.any()),
+  }),
+);
+
+export type ActionValidationResult = z.infer<typeof ActionValidationOutput>;
+
+// "structure" checks only parameters and that referenced bodies and systems
+// exist; "full" also checks range and cost against the probe's current state.
+// Both run the checks in action-checks.ts that the rules themselves make.
+export type ValidationScope = "structure" | "full";
+
+export interface RejectedAction {
+  index: number;
+  action: ProbeActionType;
+  result: ActionValidationResult;
+}
+
+const reject = (code: TaskErrorCodeType, reason: string) =>
+  ActionValidationOutput.parse({
+    success: false,
+    data: null,
+    error: { code, reason: `${code}, ${reason}` },
+  });
+
+type Params = Record<string, any>;
+
+// A body of the probe's current system, once checkLocalBody has passed
+const localBody = (probe: Probe, bodyId: string) =>
+  gameState
+    .getSolarSystem(probe.currentSystemId)!
+    .bodies.find((b) => b.id === bodyId)!;
+
+// Whether the bodies, systems, probes and structures an action names exist
+// and can be its target
+function checkTarget(
+  probe: Probe,
+  action: ProbeActionType["action"],
+  params: Params,
+): TaskError | undefined {
+  switch (action) {
+    case "scan_resources":
+    case "travel_to_body":
+    case "harvest_resources":
+    case "build_structure":
+      return checkLocalBody(probe, params.bodyId);
+    case "decommission_structure":
+      return checkStructureTarget(
+        probe,
+        gameState.getStructure(params.structureId),
+        params.structureId,
+      );
+    case "travel_to_system":
+      return checkInterstellarTarget(
+        probe,
+        gameState.getSolarSystem(params.systemId),
+        params.systemId,
+      );
+    case "transfer_resources":
+      return checkTransferTarget(
+        probe,
+        gameState.getProbe(params.targetProbeId),
+        params.targetProbeId,
+        params.resources,
+      );
+    case "send_message":
+      return params.recipientId
+        ? checkMessageTarget(
+            probe,
+            gameState.getProbe(params.recipientId),
+            params.recipientId,
+          )
+        : undefined;
+  }
+}
+
+// Whether the probe's position, cargo and state allow the action right now;
+// the same checks its rule makes before carrying it out
+function checkState(
+  probe: Probe,
+  action: ProbeActionType["action"],
+  params: Params,
+): TaskError | undefined {
+  switch (action) {
+    case "scan_resources":
+      return checkBodyInReach(
+        probe,
+        localBody(probe, params.bodyId),
+        gameState.getEffectiveCapabilities(probe).sensorRange,
+      );
+    case "travel_to_body":
+      return (
+        checkCanDepart(probe) ??
+        checkInSystemTrip(probe, localBody(probe, params.bodyId).position)
+      );
+    case "harvest_resources":
+      return (
+        checkBodyInReach(probe, localBody(probe, params.bodyId)) ??
+        checkHarvestStorage(probe)
+      );
+    case "build_structure": {
+      const body = localBody(probe, params.bodyId);
+      return (
+        checkBodyInReach(probe, body) ??
+        checkBuild(probe, body, params.structureType)
+      );
+    }
+    case "decommission_structure":
+      return checkStructureInReach(
+        probe,
+        gameState.getStructure(params.structureId)!,
+      );
+    case "travel_to_system": {
+      const current = gameState.getSolarSystem(probe.currentSystemId);
+      const target = gameState.getSolarSystem(params.systemId)!;
+      return (
+        checkCanDepart(probe) ??
+        (current ? checkInterstellarFuel(probe, current, target) : undefined)
+      );
+    }
+    case "transfer_resources":
+      return checkTransfer(
+        probe,
+        gameState.getProbe(params.targetProbeId)!,
+        params.resources,
+      );
+    case "send_message":
+      return params.recipientId
+        ? checkMessageReach(probe, gameState.getProbe(params.recipientId)!)
+        : undefined;
+    case "upgrade_capability":
+      return checkUpgrade(probe, params.capability);
+    case "repair_hull":
+      return checkRepair(probe, params.amount);
+    case "refine_resources":
+      return checkRefining(probe, params.recipe, params.batches);
+    case "manufacture_probe":
+      return checkManufacturing(probe);
+    case "cancel_manufacturing":
+      return checkCancelManufacturing(probe);
+    case "hibernate":
+      return checkNotTraveling(probe);
+  }
+}
+
+export function validateAction(
+  probe: Probe,
+  action: ProbeActionType,
+  scope: ValidationScope = "full",
+): ActionValidationResult {
+  const parsed = ActionParameterSchemas[action.action].safeParse(
+    action.parameters ?? {},
+  );
+  if (!parsed.success) {
+    return reject(
+      "invalid_parameters",
+      parsed.error.issues
+        .map(
+          (issue) =>
+            `${issue.path.join(".") || "parameters"}: ${issue.message}`,
+        )
+        .join("; "),
+    );
+  }
+  const params: Params = parsed.data;
+  const error =
+    checkTarget(probe, action.action, params) ??
+    (scope === "full" ? checkState(probe, action.action, params) : undefined);
+  if (error) {
+    return ActionValidationOutput.parse({ success: false, data: null, error });
+  }
+
+  return ActionValidationOutput.parse({
+    success: true,
+    data: { action: action.action, parameters: params },
+    error: null,
+  });
+}
+
+// Pre-flight check of a whole plan against the state it was made in. Later
+// actions may depend on earlier ones (harvest, then manufacture), so only the
+// first action is held to the full check; the rest must be well-formed.
+export function findRejectedActions(
+  probe: Probe,
+  actions: ProbeActionType[],
+): RejectedAction[] {
+  return actions
+    .map((action, index) => ({
+      index,
+      action,
+      result: validateAction(probe, action, index === 0 ? "full" : "structure"),
+    }))
+    .filter(({ result }) => !result.success);
+}
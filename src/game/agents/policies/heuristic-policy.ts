@@ -0,0 +1,289 @@
+import { gameState } from "@/game/core/game-state";
+import {
+  HARVEST_RANGE_AU,
+  HULL,
+  IN_SYSTEM_TRAVEL,
+  PROBE_REPLICATION_COST,
+  REFINING_RECIPES,
+  RefinedGoodTypeName,
+  ResourceType,
+  Resources,
+  TRANSFER_RANGE_AU,
+} from "@/game/core/types";
+import { ProbeActionType } from "@/game/agents/schemas";
+import { PolicyContext, ProbePolicy } from "./types";
+
+const HARVEST_DURATION = 5;
+// Below this a probe hibernates for a while and lets its panels recharge
+const LOW_ENERGY_THRESHOLD = 50;
+const RECHARGE_TICKS = 5;
+// Energy a parent hands to a co-located child that is running dry
+const CHILD_SEED_ENERGY = 200;
+
+// How much of what we still need for replication one harvest would supply
+function usefulness(harvest: Resources, deficit: Resources): number {
+  return (Object.keys(deficit) as (keyof Resources)[]).reduce(
+    (sum, resource) =>
+      sum + Math.min(harvest[resource], Math.max(0, deficit[resource])),
+    0,
+  );
+}
+
+// Deterministic baseline: patch up a damaged hull, harvest and refine what
+// replication needs, replicate as soon as it is affordable, and move on to the nearest unexplored system once the
+// current one has nothing left to offer.
+export const heuristicPolicy: ProbePolicy = {
+  name: "heuristic",
+  decide: async (context: PolicyContext) => {
+    const { probe, environment } = context;
+
+    // A damaged probe patches up whatever its metal and silicon allow
+    const affordableRepair = Math.min(
+      HULL.max - probe.hullIntegrity,
+      Math.floor(probe.resources.metal / HULL.repairCostPerPoint.metal),
+      Math.floor(probe.resources.silicon / HULL.repairCostPerPoint.silicon),
+    );
+    if (probe.hullIntegrity < HULL.damagedThreshold && affordableRepair > 0) {
+      return {
+        actions: [
+          {
+            action: "repair_hull",
+            parameters: { amount: affordableRepair },
+            reasoning: `Hull at ${probe.hullIntegrity}, repairing before anything else`,
+          },
+        ],
+        overallStrategy: "Repair before the hull gives out",
+        priority: "survival",
+      };
+    }
+
+    // A paused build is resumed first; a new one starts once the whole cost
+    // is on hand, so the per-tick installments never stall
+    const job = probe.manufacturingJob;
+    if (
+      job?.paused ||
+      (!job && gameState.canAffordCost(probe, PROBE_REPLICATION_COST))
+    ) {
+      return {
+        actions: [
+          {
+            action: "manufacture_probe",
+            parameters: {
+              newProbeName:
+                job?.newProbeName ??
+                `${probe.name}-${probe.generation + 1}.${context.tick}`,
+            },
+            reasoning: job
+              ? `Resuming ${job.newProbeName}`
+              : "Replication is affordable",
+          },
+        ],
+        overallStrategy: "Replicate while resources allow",
+        priority: "expansion",
+      };
+    }
+
+    if (probe.resources.energy < LOW_ENERGY_THRESHOLD) {
+      return {
+        actions: [
+          {
+            action: "hibernate",
+            parameters: { ticks: RECHARGE_TICKS },
+            reasoning: "Energy too low to act, hibernating to recharge",
+          },
+        ],
+        overallStrategy: "Recharge before doing anything else",
+        priority: "survival",
+      };
+    }
+
+    // Keep offspring alive: top up a nearby child that is low on energy
+    const hungryChild = environment.nearbyProbes.find(
+      (other) =>
+        other.relation === "child" &&
+        other.distance <= TRANSFER_RANGE_AU &&
+        other.resources.energy < LOW_ENERGY_THRESHOLD,
+    );
+    const seedEnergy = Math.min(
+      CHILD_SEED_ENERGY,
+      probe.resources.energy - CHILD_SEED_ENERGY,
+      hungryChild?.freeStorage ?? 0,
+    );
+
+    if (hungryChild && seedEnergy > 0) {
+      return {
+        actions: [
+          {
+            action: "transfer_resources",
+            parameters: {
+              targetProbeId: hungryChild.probeId,
+              resources: { energy: seedEnergy },
+            },
+            reasoning: `${hungryChild.name} is running out of energy`,
+          },
+        ],
+        overallStrategy: "Provision offspring before expanding further",
+        priority: "survival",
+      };
+    }
+
+    // Refine whatever replication still lacks, as far as materials allow.
+    // Not mid-build, though: the build's installments need those materials.
+    const missingGoods = (
+      Object.keys(PROBE_REPLICATION_COST.refined) as RefinedGoodTypeName[]
+    )
+      .map((good) => ({
+        good,
+        missing:
+          (PROBE_REPLICATION_COST.refined[good] ?? 0) -
+          probe.refinedGoods[good],
+      }))
+      .filter(({ missing }) => missing > 0);
+    const rate = Math.floor(
+      gameState.getEffectiveCapabilities(probe).refiningRate,
+    );
+    for (const { good, missing } of job ? [] : missingGoods) {
+      const inputs = REFINING_RECIPES[good].inputs;
+      const affordable = Math.min(
+        ...Object.entries(inputs).map(([resource, amount]) =>
+          Math.floor(probe.resources[resource as keyof Resources] / amount!),
+        ),
+      );
+      const batches = Math.min(rate, missing, affordable);
+      if (batches > 0) {
+        return {
+          actions: [
+            {
+              action: "refine_resources",
+              parameters: { recipe: good, batches },
+              reasoning: `Replication needs ${missing} more ${good}`,
+            },
+          ],
+          overallStrategy: "Refine the goods replication calls for",
+          priority: "resource_gathering",
+        };
+      }
+    }
+
+    // Raw materials still needed: the replication cost plus the inputs for
+    // any refined goods not yet made
+    const needed = missingGoods.reduce(
+      (total, { good, missing }) =>
+        gameState.addResources(total, gameState.recipeInputs(good, missing)),
+      PROBE_REPLICATION_COST.resources,
+    );
+    const deficit = gameState.subtractResources(needed, probe.resources);
+    const wanted = ResourceType.options.filter(
+      (resource) => deficit[resource] > 0,
+    );
+    const candidates = environment.nearbyBodies
+      .map((entry) => ({
+        ...entry,
+        value: wanted.length
+          ? usefulness(
+              gameState.planHarvest(
+                probe,
+                entry.body,
+                HARVEST_DURATION,
+                wanted,
+              ),
+              deficit,
+            )
+          : 0,
+      }))
+      .filter((entry) => entry.value > 0);
+
+    // Harvest in place if anything within reach helps
+    const inReach = candidates
+      .filter((entry) => entry.distance <= HARVEST_RANGE_AU)
+      .sort((a, b) => b.value - a.value)[0];
+
+    if (inReach) {
+      return {
+        actions: [
+          {
+            action: "harvest_resources",
+            parameters: {
+              bodyId: inReach.body.id,
+              duration: HARVEST_DURATION,
+              resourceTypes: wanted,
+            },
+            reasoning: `${inReach.body.name} has resources needed for replication`,
+          },
+        ],
+        overallStrategy: "Harvest toward the replication cost",
+        priority: "resource_gathering",
+      };
+    }
+
+    // A probe mid-build stays put until its child is finished
+    if (job) {
+      return {
+        actions: [
+          {
+            action: "wait",
+            parameters: {},
+            reasoning: `Building ${job.newProbeName} (${job.progress}/${job.ticksRequired})`,
+          },
+        ],
+        overallStrategy: "Finish the probe under construction",
+        priority: "expansion",
+      };
+    }
+
+    // Otherwise head for the body that helps most per AU travelled
+    const target = candidates
+      .filter(
+        (entry) =>
+          Math.ceil(entry.distance * IN_SYSTEM_TRAVEL.energyPerAu) <=
+          probe.resources.energy,
+      )
+      .sort(
+        (a, b) => b.value / (1 + b.distance) - a.value / (1 + a.distance),
+      )[0];
+
+    if (target) {
+      return {
+        actions: [
+          {
+            action: "travel_to_body",
+            parameters: { bodyId: target.body.id },
+            reasoning: `${target.body.name} is the most useful reachable body`,
+          },
+        ],
+        overallStrategy: "Relocate to a richer body",
+        priority: "resource_gathering",
+      };
+    }
+
+    // Nothing useful left here: explore the nearest unvisited system
+    const nextSystem = environment.nearbySystems.find(
+      (system) =>
+        !system.visited &&
+        system.energyCost <= probe.resources.energy &&
+        system.hydrogenCost <= probe.resources.hydrogen,
+    );
+
+    const actions: ProbeActionType[] = nextSystem
+      ? [
+          {
+            action: "travel_to_system",
+            parameters: { systemId: nextSystem.systemId },
+            reasoning: `Current system exhausted, heading to ${nextSystem.name}`,
+          },
+        ]
+      : [
+          {
+            action: "wait",
+            parameters: {},
+            reasoning: "Nothing useful in reach and no affordable system",
+          },
+        ];
+
+    return {
+      actions,
+      overallStrategy: "Explore beyond the current system",
+      priority: "exploration",
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { ProbePolicyName } from "@/game/core/types";
+import { heuristicPolicy } from "./heuristic-policy";
+import { llmPolicy } from "./llm-policy";
+import { randomPolicy } from "./random-policy";
+import { replayPolicy } from "./replay-policy";
+import { ProbePolicy } from "./types";
+
+export * from "./types";
+
+const POLICIES: Record<z.infer<typeof ProbePolicyName>, ProbePolicy> = {
+  llm: llmPolicy,
+  heuristic: heuristicPolicy,
+  random: randomPolicy,
+  replay: replayPolicy,
+};
+
+export const getProbePolicy = (
+  name: z.infer<typeof ProbePolicyName>,
+): ProbePolicy => POLICIES[name];
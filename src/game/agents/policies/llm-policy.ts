@@ -0,0 +1,282 @@
+import { generateObject } from "ai";
+import { gameState } from "@/game/core/game-state";
+import {
+  CapabilityName,
+  ENERGY,
+  HARVEST_RANGE_AU,
+  HARVEST_YIELDS,
+  HAZARDS,
+  HULL,
+  IN_SYSTEM_TRAVEL,
+  MANUFACTURING,
+  PROBE_REPLICATION_COST,
+  REFINING_RECIPES,
+  RefiningRecipeName,
+  ResourceType,
+  STRUCTURE_SALVAGE_FRACTION,
+  STRUCTURES,
+  StructureType,
+  TRANSFER_RANGE_AU,
+} from "@/game/core/types";
+import { getLanguageModel } from "@/utils/ai/provider";
+import { ProbeDecisionSchema } from "@/game/agents/schemas";
+import { PolicyContext, ProbePolicy } from "./types";
+
+const LLM_POLICY_MODEL = "gpt-4.1-mini";
+
+const formatAmounts = (amounts: Record<string, number | undefined>) =>
+  Object.entries(amounts)
+    .filter(([, amount]) => amount)
+    .map(([name, amount]) => `${amount} ${name}`)
+    .join(", ");
+
+function buildPrompts(context: PolicyContext) {
+  const { probe, environment } = context;
+  const solarIncome = gameState.solarIncome(probe);
+  const upkeep = gameState.upkeep(probe);
+
+  const system = `You are an advanced AI controlling a self-replicating space probe in the Astral Echo simulation.
+    
+    Your probe has these capabilities:
+    - Scan celestial bodies for resources
+    - Travel between locations (costs energy)
+    - Travel to other star systems (costs energy and hydrogen, takes several ticks)
+    - Harvest resources from nearby bodies
+    - Manufacture new probes (requires significant resources and refined goods)
+    - Refine raw resources into refined goods, or hydrogen into energy by fusion
+    - Send messages to probes within your communication range (${gameState.getEffectiveCapabilities(context.probe).communicationRange} AU); they arrive after the light delay
+    - Transfer resources to another probe within ${TRANSFER_RANGE_AU} AU (e.g. to provision your offspring)
+    - Repair hull damage with metal and silicon
+    - Upgrade your own capabilities by spending resources (each level costs more)
+    - Build structures at bodies (miners, solar collectors, fabrication yards, relays) that keep working after you leave
+    - Explore and discover new areas
+    
+    Your goals are:
+    1. Survive and maintain energy levels
+    2. Gather resources efficiently
+    3. Replicate when you have sufficient resources
+    4. Explore new areas and expand the probe network
+    5. Share knowledge with other probes
+    
+    Consider:
+    - Energy management is critical for survival
+    - Hull integrity is critical too: below ${HULL.damagedThreshold} your probe is damaged and works at ${HULL.damagedCapabilityFactor * 100}% speed, harvest rate and ranges; at 0 it is destroyed
+    - Hazards: radiation close to stars, micrometeoroids within ${HAZARDS.beltHalfWidthAu} AU of an asteroid belt's orbit, and wear on every flight
+    - Resource scarcity requires strategic planning
+    - Manufacturing new probes accelerates expansion
+    - Each probe generation can improve upon the last
+    - Coordination with other probes can be beneficial
+    
+    IMPORTANT: Look at your recent actions/experiences to avoid repeating the same actions unnecessarily.
+    If you've already scanned a body recently, consider harvesting or moving to a new location instead.
+    
+    CRITICAL: Learn from failures! If an action failed recently (like travel due to insufficient energy), 
+    don't repeat it immediately. Instead:
+    - If travel failed due to energy, wait or harvest energy first
+    - If manufacturing failed due to resources, gather more resources first
+    - If harvesting failed due to distance, travel closer first
+    
+    Be strategic, efficient, and focused on long-term expansion goals.
+    
+    IMPORTANT: For each action, include a "parameters" object with required fields:
+    - scan_resources: {"bodyId": "celestial_body_id"}
+    - travel_to_body: {"bodyId": "celestial_body_id"}
+    - travel_to_system: {"systemId": "solar_system_id"}
+    - harvest_resources: {"bodyId": "celestial_body_id", "duration": number, "resourceTypes": ["${ResourceType.options.join('", "')}"]} (resourceTypes optional; omit to harvest everything)
+    - manufacture_probe: {"newProbeName": "string"}
+    - cancel_manufacturing: {} (empty object)
+    - transfer_resources: {"targetProbeId": "probe_id", "resources": {"energy": number, "metal": number}}
+    - send_message: {"recipientId": "probe_id" (omit to broadcast), "content": "string", "shareDiscoveries": boolean}
+    - hibernate: {"ticks": number} (1-${ENERGY.maxHibernationTicks})
+    - refine_resources: {"recipe": "${RefiningRecipeName.options.join('" | "')}", "batches": number}
+    - repair_hull: {"amount": number} (hull points; omit to repair fully)
+    - upgrade_capability: {"capability": "${CapabilityName.options.join('" | "')}"}
+    - build_structure: {"structureType": "${StructureType.options.join('" | "')}", "bodyId": "celestial_body_id", "name": "string" (optional)}
+    - decommission_structure: {"structureId": "structure_id"}
+    - wait: {} (empty object)
+    - explore_system: {} (empty object)`;
+
+  const prompt = `Analyze the current situation and decide on the next ${context.maxActions} actions for this probe:
+    
+    Probe Status:
+    - Name: ${probe.name}
+    - Generation: ${probe.generation}
+    - Status: ${probe.status}
+    - Hull Integrity: ${probe.hullIntegrity}/${HULL.max}
+    - Energy: ${probe.resources.energy}
+    - Metal: ${probe.resources.metal}
+    - Silicon: ${probe.resources.silicon}
+    - Hydrogen: ${probe.resources.hydrogen}
+    - Rare Elements: ${probe.resources.rare_elements}
+    - Refined Goods: ${Object.entries(probe.refinedGoods)
+      .map(([good, amount]) => `${amount} ${good}`)
+      .join(", ")}
+    - Position: (${probe.position.x}, ${probe.position.y}, ${probe.position.z})
+    - Manufacturing: ${probe.manufacturingJob ? `${probe.manufacturingJob.newProbeName} ${probe.manufacturingJob.progress}/${probe.manufacturingJob.ticksRequired} ticks${probe.manufacturingJob.paused ? " (paused, resume with manufacture_probe)" : ""}` : "idle"}
+
+    Capabilities (current value, level, next upgrade):
+    ${CapabilityName.options
+      .map((capability) => {
+        const upgrade = gameState.planCapabilityUpgrade(probe, capability);
+        return `- ${capability}: ${probe.capabilities[capability]} (level ${probe.capabilityLevels[capability] ?? 0}, ${upgrade ? `next ${upgrade.newValue} for ${formatAmounts(upgrade.cost)}` : "max level"})`;
+      })
+      .join("\n    ")}
+    
+    Environment:
+    - Current System: ${environment.currentSystem.name}
+    - Nearest Body: ${environment.closestBody.name} (${environment.distanceToClosest.toFixed(1)} AU)
+    - Available Bodies: ${environment.nearbyBodies.map((b) => `${b.body.name} (ID: ${b.body.id}, ${b.distance.toFixed(1)} AU, ~${Math.ceil(b.distance * 2)} energy to travel, Type: ${b.body.type}, ${b.charted ? `charted at tick ${b.charted.scannedAt}${b.charted.source === "scan" ? "" : ` (via ${b.charted.source})`}` : "uncharted"})`).join(", ")}
+    - Nearby Star Systems: ${environment.nearbySystems.map((s) => `${s.name} (ID: ${s.systemId}, class ${s.starClass ?? "?"}, ${s.distance.toFixed(1)} ly, ${s.energyCost} energy + ${s.hydrogenCost} hydrogen, ${s.travelTicks} ticks, ${s.visited ? "visited" : s.discovered ? "discovered by another probe" : "unexplored"})`).join(", ") || "none"}
+    - Nearby Probes: ${environment.nearbyProbes.map((p) => `${p.name} (ID: ${p.probeId}, ${p.relation}, gen ${p.generation}, ${p.distance.toFixed(1)} AU, E:${p.resources.energy} M:${p.resources.metal} S:${p.resources.silicon} H:${p.resources.hydrogen} R:${p.resources.rare_elements}, ${p.freeStorage} free storage)`).join(", ") || "none"}
+    - Structures Here: ${environment.structures.map((s) => `${s.structure.name} (ID: ${s.structure.id}, ${s.structure.type} at ${s.bodyName}, ${s.distance.toFixed(1)} AU, stock: ${formatAmounts({ ...s.structure.stock, ...s.structure.refinedStock }) || "empty"})`).join(", ") || "none"}
+    
+    Memory & Recent Actions:
+    - ${context.memoryContext}
+    - ${context.failureContext}
+    - Visited Systems: ${probe.memory.visitedSystems.length}
+    - Known Probes: ${probe.memory.knownProbes.length}
+    - Charted Bodies: ${Object.keys(probe.memory.discoveredResources).length} (${Object.values(probe.memory.discoveredResources).filter((d) => d.source !== "scan").length} learned from other probes); don't rescan charted bodies unless the data is stale
+
+    Inbox (${context.inbox.length} new):
+    ${context.inbox.map((m) => `- From ${m.fromProbeName} (ID: ${m.fromProbeId}, sent tick ${m.sentAt})${m.discoveries ? ` [shared ${Object.keys(m.discoveries).length} scanned bodies]` : ""}: ${m.content}`).join("\n    ") || "- No new messages"}
+    
+    Game State:
+    - Total Probes in Game: ${Object.keys(gameState.getState().probes).length}
+    - Total Systems Discovered: ${gameState.getDiscoveredSystems().length}
+    
+    Energy System:
+    - Your solar panels collect ${solarIncome} energy per tick here; income falls with the square of your distance from the star and is zero between stars
+    - Running your systems costs ${upkeep} energy per tick (more for upgraded capabilities); net ${solarIncome - upkeep >= 0 ? "+" : ""}${solarIncome - upkeep} per tick
+    - Energy harvesting from celestial bodies provides much larger amounts (50+ per action)
+    - Travel costs: 2 energy per unit distance
+    - Hibernating cuts upkeep to ${ENERGY.hibernationUpkeepFactor * 100}% but you take no actions until you wake
+    - At 0 energy you are forced into hibernation until you recharge to ${ENERGY.wakeEnergy}; ${ENERGY.starvationTicks} ticks in a row at 0 energy destroys the probe
+    
+    Available Actions (with required parameters):
+    - scan_resources: Scan a celestial body for resources {"bodyId": "specific_body_id"}
+    - travel_to_body: Travel to a celestial body; covers about ${(gameState.getEffectiveCapabilities(probe).maxSpeed * IN_SYSTEM_TRAVEL.auPerTick).toFixed(1)} AU per tick and you cannot act until you arrive {"bodyId": "specific_body_id"}
+    - travel_to_system: Leave for another star system; you cannot act until you arrive {"systemId": "specific_system_id"}
+    - harvest_resources: Harvest from nearby body, optionally only some resources; stops when your storage is full {"bodyId": "specific_body_id", "duration": 5, "resourceTypes": ["metal", "silicon"]}
+    - manufacture_probe: Start building a new probe, or resume a paused build; takes ${MANUFACTURING.ticksRequired} ticks, paying 1/${MANUFACTURING.ticksRequired} of the cost each tick, and you cannot travel meanwhile {"newProbeName": "ProbeNameHere"}
+    - cancel_manufacturing: Pause the current build, keeping its progress, e.g. to travel {"parameters": {}}
+    - send_message: Message one probe or broadcast to all in range; set shareDiscoveries to pass on your scans {"recipientId": "specific_probe_id", "content": "text"}
+    - transfer_resources: Give resources to a probe within ${TRANSFER_RANGE_AU} AU {"targetProbeId": "specific_probe_id", "resources": {"energy": 100}}
+    - repair_hull: Restore hull integrity for ${HULL.repairCostPerPoint.metal} metal and ${HULL.repairCostPerPoint.silicon} silicon per point {"amount": 20}
+    - upgrade_capability: Spend resources on the next level of a capability {"capability": "harvestRate"}
+    - build_structure: Build a structure at a body within ${HARVEST_RANGE_AU} AU {"structureType": "automated_miner", "bodyId": "specific_body_id"}
+    - decommission_structure: Tear down a structure within ${HARVEST_RANGE_AU} AU, recovering ${STRUCTURE_SALVAGE_FRACTION * 100}% of its raw cost and its stock {"structureId": "specific_structure_id"}
+    - wait: Do nothing this turn {"parameters": {}}
+    - hibernate: Power down for a number of ticks to save energy {"ticks": 5}
+    - refine_resources: Run batches of a recipe, at most ${Math.floor(gameState.getEffectiveCapabilities(probe).refiningRate)} per tick {"recipe": "components", "batches": 5}
+    - explore_system: Explore current system {"parameters": {}}
+    
+    Resource Requirements for Manufacturing: ${formatAmounts({ ...PROBE_REPLICATION_COST.resources, ...PROBE_REPLICATION_COST.refined })}
+
+    Harvest Yields (multiplier on your harvest rate of ${gameState.getEffectiveCapabilities(probe).harvestRate} per cycle; yields shrink as a body is depleted):
+    ${Object.entries(HARVEST_YIELDS)
+      .map(
+        ([type, yields]) =>
+          `- ${type}: ${Object.entries(yields)
+            .map(([resource, factor]) => `${resource} x${factor}`)
+            .join(", ")}`,
+      )
+      .join("\n    ")}
+
+    Structures (build cost; output is stocked at the structure and collected automatically by probes within ${HARVEST_RANGE_AU} AU of its body):
+    - automated_miner: ${formatAmounts({ ...STRUCTURES.automated_miner.cost.resources, ...STRUCTURES.automated_miner.cost.refined })}; mines its body at harvest rate ${STRUCTURES.automated_miner.rate} per tick
+    - solar_collector: ${formatAmounts({ ...STRUCTURES.solar_collector.cost.resources, ...STRUCTURES.solar_collector.cost.refined })}; collects ${STRUCTURES.solar_collector.rate}x a probe's solar income at its body
+    - fabrication_yard: ${formatAmounts({ ...STRUCTURES.fabrication_yard.cost.resources, ...STRUCTURES.fabrication_yard.cost.refined })}; makes ${STRUCTURES.fabrication_yard.rate} components per tick from its body's ores
+    - communications_relay: ${formatAmounts({ ...STRUCTURES.communications_relay.cost.resources, ...STRUCTURES.communications_relay.cost.refined })}; probes in any two systems with relays can message and share charts regardless of range
+
+    Refining Recipes (per batch):
+    ${Object.entries(REFINING_RECIPES)
+      .map(
+        ([recipe, { inputs, outputs }]) =>
+          `- ${recipe}: ${formatAmounts(inputs)} → ${formatAmounts({ ...outputs.resources, ...outputs.refined })}`,
+      )
+      .join("\n    ")}
+    
+    Return a strategic plan with up to ${context.maxActions} prioritized actions. Each action MUST include a "parameters" object.
+    
+    STRATEGY HINT: If you've recently scanned bodies and found resources, consider harvesting them!
+    If you have sufficient resources, consider manufacturing a new probe for expansion.
+    Remember: Solar income depends on where you are; if your net energy is negative, move closer to the star, harvest energy or hibernate.
+    
+    Example format:
+    {
+      "actions": [
+        {
+          "action": "harvest_resources",
+          "parameters": {"bodyId": "${environment.nearbyBodies[0]?.body?.id || "example-id"}", "duration": 5},
+          "reasoning": "Harvest resources from the scanned body"
+        }
+      ],
+      "overallStrategy": "Harvest resources then manufacture offspring",
+      "priority": "resource_gathering"
+    }`;
+
+  return { system, prompt };
+}
+
+// The original agent: one structured-output call per run with the full
+// situation report in the prompt
+export const llmPolicy: ProbePolicy = {
+  name: "llm",
+  decide: async (context: PolicyContext) => {
+    const { probe } = context;
+
+    context.logger.info(
+      `🧠 [AI AGENT] ${probe.name} calling generateObject...`,
+    );
+    const { system, prompt } = buildPrompts(context);
+
+    const result = await generateObject({
+      model: getLanguageModel(LLM_POLICY_MODEL),
+      schema: ProbeDecisionSchema,
+      system,
+      prompt,
+    });
+
+    context.onTrace?.({
+      model: LLM_POLICY_MODEL,
+      system,
+      prompt,
+      rawResponse: result.response.body ?? result.object,
+    });
+
+    return result.object;
+  },
+
+  // One round-trip: show the model its plan and why actions were rejected
+  repair: async (context, decision, rejected) => {
+    const { system, prompt } = buildPrompts(context);
+    const repairPrompt = `Some of your planned actions were rejected before execution:
+${rejected.map(({ index, action, result }) => `- Action ${index + 1} (${action.action} ${JSON.stringify(action.parameters)}): ${result.error?.reason}`).join("\n")}
+
+Return a corrected plan with up to ${context.maxActions} actions. Only reference body IDs from your current system and system IDs from the nearby star systems list, and respect your current resources and ranges.`;
+
+    context.logger.info(
+      `🩹 [AI AGENT] ${context.probe.name} asking the model to repair ${rejected.length} rejected action(s)`,
+    );
+    const result = await generateObject({
+      model: getLanguageModel(LLM_POLICY_MODEL),
+      schema: ProbeDecisionSchema,
+      system,
+      messages: [
+        { role: "user", content: prompt },
+        { role: "assistant", content: JSON.stringify(decision) },
+        { role: "user", content: repairPrompt },
+      ],
+    });
+
+    context.onTrace?.({
+      model: LLM_POLICY_MODEL,
+      system,
+      prompt,
+      repairPrompt,
+      rawResponse: result.response.body ?? result.object,
+    });
+
+    return result.object;
+  },
+};
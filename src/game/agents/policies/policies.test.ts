@@ -0,0 +1,139 @@
+import path from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { PROBE_REPLICATION_COST, Probe } from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { getEnvironmentState } from "@/game/engine/probe-state";
+import { validateAction } from "@/game/agents/action-validation";
+import { heuristicPolicy } from "./heuristic-policy";
+import { llmPolicy } from "./llm-policy";
+import { randomPolicy } from "./random-policy";
+import { PolicyContext } from "./types";
+
+const quiet = { info: () => {}, warn: () => {}, error: () => {} };
+
+// What the agent hands a policy for the probe at the current tick
+const contextFor = async (
+  probeId: string,
+  tick = gameState.now(),
+): Promise<PolicyContext> => {
+  const { data } = await getEnvironmentState.fn(
+    { probeId },
+    createLocalContext(),
+  );
+  return {
+    probe: gameState.getProbe(probeId)!,
+    environment: data!,
+    maxActions: 3,
+    tick,
+    inbox: [],
+    memoryContext: "",
+    failureContext: "",
+    logger: quiet,
+  };
+};
+
+describe("probe policies", () => {
+  let genesis: Probe;
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 21 });
+    genesis = gameState.getAllProbes()[0];
+  });
+
+  const setProbe = (updates: Partial<Probe>) =>
+    gameState.updateProbe(genesis.id, updates, "PolicyChanged");
+
+  describe("heuristic", () => {
+    it("repairs a damaged hull before anything else", async () => {
+      setProbe({ hullIntegrity: 20 });
+      const decision = await heuristicPolicy.decide(
+        await contextFor(genesis.id),
+      );
+      expect(decision.priority).toBe("survival");
+      expect(decision.actions.map((a) => a.action)).toEqual(["repair_hull"]);
+    });
+
+    it("replicates once the whole cost is on hand", async () => {
+      setProbe({
+        resources: gameState.addResources(
+          genesis.resources,
+          PROBE_REPLICATION_COST.resources,
+        ),
+        refinedGoods: { components: 100, electronics: 100 },
+      });
+      const decision = await heuristicPolicy.decide(
+        await contextFor(genesis.id),
+      );
+      expect(decision.actions[0].action).toBe("manufacture_probe");
+    });
+
+    it("hibernates when energy runs low", async () => {
+      setProbe({
+        resources: { ...genesis.resources, energy: 10, metal: 0, silicon: 0 },
+      });
+      const decision = await heuristicPolicy.decide(
+        await contextFor(genesis.id),
+      );
+      expect(decision.actions[0].action).toBe("hibernate");
+    });
+
+    it("only proposes actions that pass validation", async () => {
+      const context = await contextFor(genesis.id);
+      const decision = await heuristicPolicy.decide(context);
+      decision.actions.forEach((action) =>
+        expect(validateAction(context.probe, action).error).toBeNull(),
+      );
+    });
+  });
+
+  describe("random", () => {
+    it("makes the same choices for the same probe and tick", async () => {
+      const context = await contextFor(genesis.id, 7);
+      expect(await randomPolicy.decide(context)).toEqual(
+        await randomPolicy.decide(context),
+      );
+    });
+
+    it("varies its choices from tick to tick", async () => {
+      const decisions = await Promise.all(
+        [1, 2, 3, 4, 5].map(async (tick) =>
+          JSON.stringify(
+            await randomPolicy.decide(await contextFor(genesis.id, tick)),
+          ),
+        ),
+      );
+      expect(new Set(decisions).size).toBeGreaterThan(1);
+    });
+
+    it("proposes well-formed actions within the action limit", async () => {
+      for (let tick = 0; tick < 20; tick++) {
+        const context = await contextFor(genesis.id, tick);
+        const { actions } = await randomPolicy.decide(context);
+        expect(actions.length).toBeLessThanOrEqual(context.maxActions);
+        actions.forEach((action) =>
+          expect(
+            validateAction(context.probe, action, "structure").error,
+          ).toBeNull(),
+        );
+      }
+    });
+  });
+
+  describe("llm, offline", () => {
+    it("plays the mock provider's fixture script", async () => {
+      process.env.AI_PROVIDER = "mock";
+      process.env.MOCK_AI_FIXTURES = path.resolve(
+        "fixtures/mock-probe-decisions.json",
+      );
+      const context = await contextFor(genesis.id);
+
+      const decision = await llmPolicy.decide(context);
+      expect(decision.actions.map((a) => a.action)).toEqual([
+        "explore_system",
+        "wait",
+      ]);
+      await expect(llmPolicy.decide(context)).rejects.toThrow(/outage/);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { gameState } from "@/game/core/game-state";
+import { ProbeActionType, ProbePriority } from "@/game/agents/schemas";
+import { createRandom } from "@/utils/random";
+import {
+  CapabilityName,
+  RefiningRecipeName,
+  ResourceType,
+  StructureType,
+} from "@/game/core/types";
+import { PolicyContext, ProbePolicy } from "./types";
+
+// Uniformly random (but well-formed) actions. Seeded per probe and tick, so a
+// run with the same galaxy seed makes the same choices.
+export const randomPolicy: ProbePolicy = {
+  name: "random",
+  decide: async (context: PolicyContext) => {
+    const { probe, environment } = context;
+    const random = createRandom(
+      `${gameState.getState().galaxy?.seed ?? 0}:${probe.id}:${context.tick}`,
+    );
+
+    const bodies = environment.nearbyBodies.map((entry) => entry.body);
+    const systems = environment.nearbySystems;
+
+    const randomAction = (): ProbeActionType => {
+      const options: (() => ProbeActionType)[] = [
+        () => ({ action: "wait", parameters: {}, reasoning: "Random wait" }),
+        () => ({
+          action: "explore_system",
+          parameters: {},
+          reasoning: "Random exploration",
+        }),
+        () => ({
+          action: "manufacture_probe",
+          parameters: {
+            newProbeName: `${probe.name}-R${context.tick}`,
+          },
+          reasoning: "Random replication attempt",
+        }),
+        () => ({
+          action: "cancel_manufacturing",
+          parameters: {},
+          reasoning: "Random change of plans",
+        }),
+        () => ({
+          action: "upgrade_capability",
+          parameters: { capability: random.pick(CapabilityName.options) },
+          reasoning: "Random upgrade",
+        }),
+        () => ({
+          action: "repair_hull",
+          parameters: {},
+          reasoning: "Random repair",
+        }),
+        () => ({
+          action: "hibernate",
+          parameters: { ticks: random.int(1, 10) },
+          reasoning: "Random nap",
+        }),
+        () => ({
+          action: "refine_resources",
+          parameters: {
+            recipe: random.pick(RefiningRecipeName.options),
+            batches: random.int(1, 5),
+          },
+          reasoning: "Random refining",
+        }),
+      ];
+      if (bodies.length > 0) {
+        options.push(
+          () => ({
+            action: "scan_resources",
+            parameters: { bodyId: random.pick(bodies).id },
+            reasoning: "Random scan",
+          }),
+          () => ({
+            action: "travel_to_body",
+            parameters: { bodyId: random.pick(bodies).id },
+            reasoning: "Random travel",
+          }),
+          () => ({
+            action: "harvest_resources",
+            parameters: {
+              bodyId: random.pick(bodies).id,
+              duration: random.int(1, 10),
+            },
+            reasoning: "Random harvest",
+          }),
+          () => ({
+            action: "build_structure",
+            parameters: {
+              structureType: random.pick(StructureType.options),
+              bodyId: random.pick(bodies).id,
+            },
+            reasoning: "Random construction",
+          }),
+        );
+      }
+      if (environment.structures.length > 0) {
+        options.push(() => ({
+          action: "decommission_structure",
+          parameters: {
+            structureId: random.pick(environment.structures).structure.id,
+          },
+          reasoning: "Random teardown",
+        }));
+      }
+      if (environment.nearbyProbes.length > 0) {
+        options.push(() => ({
+          action: "send_message",
+          parameters: {
+            recipientId: random.pick(environment.nearbyProbes).probeId,
+            content: `Greetings from ${probe.name} at tick ${context.tick}`,
+            shareDiscoveries: random.chance(0.5),
+          },
+          reasoning: "Random chatter",
+        }));
+        options.push(() => ({
+          action: "transfer_resources",
+          parameters: {
+            targetProbeId: random.pick(environment.nearbyProbes).probeId,
+            resources: {
+              [random.pick(ResourceType.options)]: random.int(1, 100),
+            },
+          },
+          reasoning: "Random handover",
+        }));
+      }
+      if (systems.length > 0) {
+        options.push(() => ({
+          action: "travel_to_system",
+          parameters: { systemId: random.pick(systems).systemId },
+          reasoning: "Random interstellar jump",
+        }));
+      }
+      return random.pick(options)();
+    };
+
+    return {
+      actions: Array.from(
+        { length: random.int(1, context.maxActions) },
+        randomAction,
+      ),
+      overallStrategy: "Random baseline",
+      priority: random.pick(ProbePriority.options),
+    };
+  },
+};
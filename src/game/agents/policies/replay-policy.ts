@@ -0,0 +1,29 @@
+import {
+  findRecordedDecision,
+  getReplayLog,
+} from "@/game/simulation/decision-log";
+import { PolicyContext, ProbePolicy } from "./types";
+
+// Feeds back the decision recorded for this probe and tick instead of asking
+// a model. A missing entry means the run has diverged from the recording.
+export const replayPolicy: ProbePolicy = {
+  name: "replay",
+  decide: async (context: PolicyContext) => {
+    const log = getReplayLog();
+    if (!log) {
+      throw new Error("Replay policy needs DECISION_REPLAY to name a log");
+    }
+
+    const record = findRecordedDecision(log, context.probe.id, context.tick);
+    if (!record) {
+      throw new Error(
+        `No recorded decision for ${context.probe.name} at tick ${context.tick}`,
+      );
+    }
+
+    context.logger.info(
+      `📼 [AI AGENT] ${context.probe.name} replaying ${record.policy} decision from tick ${record.tick}`,
+    );
+    return record.decision;
+  },
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { Message, Probe, ProbePolicyName } from "@/game/core/types";
+import type { EnvironmentState } from "@/game/engine/probe-state";
+import { ProbeDecision } from "@/game/agents/schemas";
+import type { RejectedAction } from "@/game/agents/action-validation";
+
+export interface PolicyLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+// What a model-backed policy sent and got back, for the decision log
+export interface DecisionTrace {
+  model: string;
+  system?: string;
+  prompt: string;
+  // Follow-up sent when rejected actions were handed back for repair
+  repairPrompt?: string;
+  rawResponse: unknown;
+}
+
+// Everything a policy gets to see when deciding a probe's next actions
+export interface PolicyContext {
+  probe: Probe;
+  environment: EnvironmentState;
+  maxActions: number;
+  tick: number;
+  // Delivered messages the probe's agent hasn't seen yet, oldest first
+  inbox: Message[];
+  // Human-readable summaries of recent experiences and failures
+  memoryContext: string;
+  failureContext: string;
+  logger: PolicyLogger;
+  // Called by policies that consult a model, so the exchange can be recorded
+  onTrace?: (trace: DecisionTrace) => void;
+}
+
+export interface ProbePolicy {
+  name: z.infer<typeof ProbePolicyName>;
+  decide(context: PolicyContext): Promise<ProbeDecision>;
+  // Optional second chance when pre-flight validation rejects actions
+  repair?(
+    context: PolicyContext,
+    decision: ProbeDecision,
+    rejected: RejectedAction[],
+  ): Promise<ProbeDecision>;
+}
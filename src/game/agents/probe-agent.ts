@@ -1,30 +1,57 @@
-import { hatchet } from "@/hatchet.client";
 import { z } from "zod";
 import { gameState } from "@/game/core/game-state";
-import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { Context } from "@hatchet-dev/typescript-sdk/v1/client/worker/context";
+import { defineRule, EngineContext } from "@/game/engine/context";
 import {
   getProbeState,
   getEnvironmentState,
   getSolarSystemState,
   scanForResources,
-} from "@/game/tasks/probe-state-tasks";
+} from "@/game/engine/probe-state";
 import {
   travelToPosition,
+  travelToSystem,
   harvestResources,
   manufactureProbe,
-} from "@/game/tasks/probe-action-tasks";
-import { BaseTaskOutputSchema } from "../core/types";
+  cancelManufacturing,
+  transferResources,
+  sendMessage,
+  upgradeCapability,
+  repairHull,
+  hibernateProbe,
+  refineResources,
+  buildStructure,
+  decommissionStructure,
+} from "@/game/engine/probe-actions";
+import {
+  BaseTaskOutputSchema,
+  ProbePolicyName,
+  TaskErrorSchema,
+} from "../core/types";
+import {
+  ProbeActionSchema,
+  ProbeActionType,
+  ProbeDecision,
+  ProbePriority,
+} from "@/game/agents/schemas";
+import {
+  DecisionTrace,
+  getProbePolicy,
+  PolicyContext,
+} from "@/game/agents/policies";
+import {
+  findRejectedActions,
+  validateAction,
+} from "@/game/agents/action-validation";
+import { getReplayLog, recordDecision } from "@/game/simulation/decision-log";
 
 // Utility function for concise task logging
 function logTask(
+  ctx: EngineContext,
   taskName: string,
   probeId: string,
   probeName: string,
   parameters: any,
   result?: any,
-  ctx?: InstanceType<typeof Context>,
 ) {
   const timestamp = new Date().toISOString().slice(11, 19); // HH:MM:SS
   const params =
@@ -34,43 +61,15 @@ function logTask(
   const resultSummary = result ? ` → ${result.success ? "✅" : "❌"}` : "";
   const logMessage = `[${timestamp}] 🔧 ${taskName} | ${probeName}(${probeId.slice(0, 8)})${params}${resultSummary}`;
 
-  if (ctx) {
-    ctx.logger.info(logMessage);
-  } else {
-    console.log(logMessage);
-  }
+  ctx.logger.info(logMessage);
 }
 
 // Task: Run probe agent
 export const runProbeAgentInput = z.object({
   probeId: z.string(),
   maxActions: z.number().min(1).max(10).default(3), // Maximum actions to take in this run
-});
-
-export const ProbeAction = z.enum([
-  "scan_resources",
-  "travel_to_body",
-  "harvest_resources",
-  "manufacture_probe",
-  "explore_system",
-  "wait",
-]);
-
-export const ProbeActionSchema = z.object({
-  action: ProbeAction,
-  parameters: z.record(z.any()),
-  reasoning: z.string(),
-});
-
-const ProbeDecisionSchema = z.object({
-  actions: z.array(ProbeActionSchema),
-  overallStrategy: z.string(),
-  priority: z.enum([
-    "survival",
-    "expansion",
-    "exploration",
-    "resource_gathering",
-  ]),
+  policy: ProbePolicyName.optional(), // Overrides the probe's own policy
+  repair: z.boolean().optional(), // Offer invalid plans back for repair (default true)
 });
 
 export const ExecutedActionSchema = ProbeActionSchema.extend({
@@ -80,21 +79,489 @@ export const ExecutedActionSchema = ProbeActionSchema.extend({
 export const ProbeAgentOutputSchema = z.object({
   probeId: z.string(),
   probeName: z.string(),
+  policy: ProbePolicyName,
   overallStrategy: z.string(),
-  priority: z.enum([
-    "survival",
-    "expansion",
-    "exploration",
-    "resource_gathering",
-  ]),
+  priority: ProbePriority,
   executedActions: z.array(ExecutedActionSchema),
   totalActions: z.number(),
 });
 
-export const runProbeAgent = hatchet.task({
-  name: "run-probe-agent",
-  executionTimeout: "300s",
-  fn: async (input: z.infer<typeof runProbeAgentInput>, ctx) => {
+export type ExecutedAction = z.infer<typeof ExecutedActionSchema>;
+
+// Validate one action against the probe's current state and run it through
+// its rule. Returns null for actions no rule handles.
+export async function executeAction(
+  probeId: string,
+  action: ProbeActionType,
+  ctx: EngineContext,
+): Promise<ExecutedAction | null> {
+  const probe = gameState.getProbe(probeId);
+  if (!probe) {
+    return ExecutedActionSchema.parse({
+      ...action,
+      result: {
+        success: false,
+        error: {
+          code: "probe_not_found",
+          reason: `probe_not_found, no probe with id ${probeId}`,
+        },
+        data: null,
+      },
+    });
+  }
+
+  ctx.logger.info(
+    `⚡ [AI AGENT] ${probe.name} executing: ${action.action} - ${action.reasoning}`,
+  );
+
+  // Validate against the current state, which earlier actions in
+  // this run may have changed
+  const validation = validateAction(probe, action);
+  if (!validation.success) {
+    ctx.logger.warn(
+      `🚫 [AI AGENT] ${probe.name} rejected ${action.action}: ${validation.error?.reason}`,
+    );
+    logTask(
+      ctx,
+      action.action,
+      probeId,
+      probe.name,
+      action.parameters || {},
+      validation,
+    );
+    gameState.addProbeExperience(probeId, {
+      event: "action_rejected",
+      data: {
+        action: action.action,
+        parameters: action.parameters,
+        result: validation,
+        success: false,
+        reason: validation.error?.reason,
+      },
+    });
+    return ExecutedActionSchema.parse({
+      action: action.action,
+      parameters: action.parameters,
+      reasoning: action.reasoning,
+      result: validation,
+    });
+  }
+
+  try {
+    let result;
+    const params = validation.data?.parameters ?? action.parameters ?? {};
+
+    switch (action.action) {
+      case "scan_resources":
+        if (params.bodyId) {
+          logTask(ctx, "scan-for-resources", probeId, probe.name, params);
+          result = await ctx.runChild(scanForResources, {
+            probeId: probeId,
+            targetBodyId: params.bodyId,
+          });
+          logTask(
+            ctx,
+            "scan-for-resources",
+            probeId,
+            probe.name,
+            params,
+            result,
+          );
+          if (!result.success) {
+            gameState.addProbeExperience(probeId, {
+              event: "scan_resources_failed",
+              data: { bodyId: params.bodyId, result: result },
+            });
+          }
+        }
+        break;
+
+      case "travel_to_body":
+        if (params.bodyId) {
+          // Find the body and get its position
+          const system = gameState.getSolarSystem(probe.currentSystemId);
+          const targetBody = system?.bodies.find((b) => b.id === params.bodyId);
+          if (targetBody) {
+            logTask(ctx, "travel-to-position", probeId, probe.name, {
+              bodyId: params.bodyId,
+            });
+            result = await ctx.runChild(travelToPosition, {
+              probeId: probeId,
+              targetPosition: targetBody.position,
+            });
+            logTask(
+              ctx,
+              "travel-to-position",
+              probeId,
+              probe.name,
+              { bodyId: params.bodyId },
+              result,
+            );
+
+            if (!result.success) {
+              gameState.addProbeExperience(probeId, {
+                event: "travel_failed",
+                data: {
+                  targetBodyId: params.bodyId,
+                  targetBodyName: targetBody.name,
+                  result,
+                  success: false,
+                  reason: result.error?.reason,
+                },
+              });
+            }
+          }
+        }
+        break;
+
+      case "travel_to_system":
+        if (params.systemId) {
+          result = await ctx.runChild(travelToSystem, {
+            probeId: probeId,
+            targetSystemId: params.systemId,
+          });
+          logTask(ctx, "travel-to-system", probeId, probe.name, params, result);
+
+          if (!result.success) {
+            gameState.addProbeExperience(probeId, {
+              event: "interstellar_travel_failed",
+              data: {
+                targetSystemId: params.systemId,
+                result,
+                success: false,
+                reason: result.error?.reason,
+              },
+            });
+          }
+        }
+        break;
+
+      case "harvest_resources":
+        if (params.bodyId && params.duration) {
+          result = await ctx.runChild(harvestResources, {
+            probeId: probeId,
+            targetBodyId: params.bodyId,
+            duration: params.duration,
+            resourceTypes: params.resourceTypes,
+          });
+          logTask(
+            ctx,
+            "harvest-resources",
+            probeId,
+            probe.name,
+            params,
+            result,
+          );
+
+          if (!result.success) {
+            gameState.addProbeExperience(probeId, {
+              event: "harvest_failed",
+              data: {
+                bodyId: params.bodyId,
+                duration: params.duration,
+                result,
+                success: false,
+                reason: result.error?.reason,
+              },
+            });
+          }
+        }
+        break;
+
+      case "manufacture_probe":
+        if (params.newProbeName) {
+          result = await ctx.runChild(manufactureProbe, {
+            probeId: probeId,
+            newProbeName: params.newProbeName,
+          });
+          logTask(
+            ctx,
+            "manufacture-probe",
+            probeId,
+            probe.name,
+            params,
+            result,
+          );
+
+          if (!result.success) {
+            gameState.addProbeExperience(probeId, {
+              event: "manufacturing_failed",
+              data: {
+                newProbeName: params.newProbeName,
+                result,
+                success: false,
+                reason: result.error?.reason,
+              },
+            });
+          }
+        }
+        break;
+
+      case "cancel_manufacturing":
+        result = await ctx.runChild(cancelManufacturing, {
+          probeId: probeId,
+        });
+        logTask(
+          ctx,
+          "cancel-manufacturing",
+          probeId,
+          probe.name,
+          params,
+          result,
+        );
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "cancel_manufacturing_failed",
+            data: {
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "transfer_resources":
+        result = await ctx.runChild(transferResources, {
+          probeId: probeId,
+          targetProbeId: params.targetProbeId,
+          resources: params.resources,
+        });
+        logTask(ctx, "transfer-resources", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "transfer_failed",
+            data: {
+              targetProbeId: params.targetProbeId,
+              resources: params.resources,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "send_message":
+        result = await ctx.runChild(sendMessage, {
+          probeId: probeId,
+          recipientId: params.recipientId,
+          content: params.content,
+          shareDiscoveries: params.shareDiscoveries,
+        });
+        logTask(ctx, "send-message", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "message_failed",
+            data: {
+              recipientId: params.recipientId,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "upgrade_capability":
+        result = await ctx.runChild(upgradeCapability, {
+          probeId: probeId,
+          capability: params.capability,
+        });
+        logTask(ctx, "upgrade-capability", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "upgrade_failed",
+            data: {
+              capability: params.capability,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "repair_hull":
+        result = await ctx.runChild(repairHull, {
+          probeId: probeId,
+          amount: params.amount,
+        });
+        logTask(ctx, "repair-hull", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "repair_failed",
+            data: {
+              amount: params.amount,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "refine_resources":
+        result = await ctx.runChild(refineResources, {
+          probeId: probeId,
+          recipe: params.recipe,
+          batches: params.batches,
+        });
+        logTask(ctx, "refine-resources", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "refine_failed",
+            data: {
+              recipe: params.recipe,
+              batches: params.batches,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "build_structure":
+        result = await ctx.runChild(buildStructure, {
+          probeId: probeId,
+          structureType: params.structureType,
+          bodyId: params.bodyId,
+          name: params.name,
+        });
+        logTask(ctx, "build-structure", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "build_failed",
+            data: {
+              structureType: params.structureType,
+              bodyId: params.bodyId,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "decommission_structure":
+        result = await ctx.runChild(decommissionStructure, {
+          probeId: probeId,
+          structureId: params.structureId,
+        });
+        logTask(
+          ctx,
+          "decommission-structure",
+          probeId,
+          probe.name,
+          params,
+          result,
+        );
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "decommission_failed",
+            data: {
+              structureId: params.structureId,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "hibernate":
+        result = await ctx.runChild(hibernateProbe, {
+          probeId: probeId,
+          ticks: params.ticks,
+        });
+        logTask(ctx, "hibernate-probe", probeId, probe.name, params, result);
+
+        if (!result.success) {
+          gameState.addProbeExperience(probeId, {
+            event: "hibernate_failed",
+            data: {
+              ticks: params.ticks,
+              result,
+              success: false,
+              reason: result.error?.reason,
+            },
+          });
+        }
+        break;
+
+      case "wait":
+        result = { success: true, action: action.action };
+        ctx.logger.info(`⏸️  [PROBE ${probe.name}] Waiting...`);
+
+        // Add wait experience to memory
+        gameState.addProbeExperience(probeId, {
+          event: "waited",
+          data: { reasoning: action.reasoning },
+        });
+        break;
+
+      case "explore_system":
+        result = { success: true, action: action.action };
+        ctx.logger.info(`🔭 [PROBE ${probe.name}] Exploring system...`);
+
+        // Add exploration experience to memory
+        gameState.addProbeExperience(probeId, {
+          event: "explored_system",
+          data: {
+            systemId: probe.currentSystemId,
+            reasoning: action.reasoning,
+          },
+        });
+        break;
+
+      default:
+        ctx.logger.warn(`❓ [AI AGENT] Unknown action: ${action.action}`);
+        return null;
+    }
+
+    return ExecutedActionSchema.parse({
+      action: action.action,
+      parameters: params,
+      reasoning: action.reasoning,
+      result,
+    });
+  } catch (error) {
+    ctx.logger.error(
+      `❌ [AI AGENT] Error executing ${action.action}: ${error}`,
+    );
+    logTask(ctx, action.action, probeId, probe.name, action.parameters || {}, {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return ExecutedActionSchema.parse({
+      action: action.action,
+      parameters: action.parameters,
+      reasoning: action.reasoning,
+      result: {
+        success: false,
+        error: {
+          code: "execution_failed",
+          reason: error instanceof Error ? error.message : String(error),
+        },
+        data: null,
+      },
+    });
+  }
+}
+
+export const runProbeAgent = defineRule(
+  "run-probe-agent",
+  async (input: z.infer<typeof runProbeAgentInput>, ctx) => {
     const probe = gameState.getProbe(input.probeId);
 
     if (!probe) {
@@ -108,12 +575,12 @@ export const runProbeAgent = hatchet.task({
 
     try {
       // Get current state information
-      logTask("get-probe-state", input.probeId, probe.name, {});
+      logTask(ctx, "get-probe-state", input.probeId, probe.name, {});
       const probeStateResult = await ctx.runChild(getProbeState, {
         probeId: input.probeId,
       });
 
-      logTask("get-environment-state", input.probeId, probe.name, {});
+      logTask(ctx, "get-environment-state", input.probeId, probe.name, {});
       const environmentData = await ctx.runChild(getEnvironmentState, {
         probeId: input.probeId,
       });
@@ -142,22 +609,17 @@ export const runProbeAgent = hatchet.task({
       const recentExperiences = probeData.memory.experiences.slice(-5);
       const memoryContext =
         recentExperiences.length > 0
-          ? `Recent actions: ${recentExperiences.map((e: any) => `${e.event} (${new Date(e.timestamp).toISOString().slice(11, 19)})`).join(", ")}`
+          ? `Recent actions: ${recentExperiences.map((e: any) => `${e.event} (tick ${e.timestamp})`).join(", ")}`
           : "No recent actions recorded";
 
-      // Build failure context for better AI decision making
-      const recentFailures = recentExperiences
-        .filter(
-          (e: any) =>
-            e.event.includes("failed") ||
-            (e.data && e.data.result && !e.data.result.success),
-        )
-        .map((e: any) => {
-          if (e.data && e.data.result) {
-            return `${e.event}: ${e.data.result.error?.reason || "unknown reason"}`;
-          }
-          return e.event;
-        });
+      // Build failure context for better AI decision making: any experience
+      // carrying a coded task error counts as a failure
+      const recentFailures = recentExperiences.flatMap((e: any) => {
+        const failure = TaskErrorSchema.safeParse(e.data?.result?.error);
+        return failure.success
+          ? [`${e.event}: [${failure.data.code}] ${failure.data.reason}`]
+          : [];
+      });
 
       const failureContext =
         recentFailures.length > 0
@@ -169,129 +631,46 @@ export const runProbeAgent = hatchet.task({
         `⚠️  [AI AGENT] ${probe.name} failures: ${failureContext}`,
       );
 
-      // Use AI to decide what actions to take
-      ctx.logger.info(`🧠 [AI AGENT] ${probe.name} calling generateObject...`);
-      let decision;
+      // Ask the probe's decision policy what to do. While replaying a
+      // decision log every probe replays, whatever its own policy is.
+      const policy = getProbePolicy(
+        input.policy ?? (getReplayLog() ? "replay" : probeData.policy),
+      );
+      ctx.logger.info(
+        `🧭 [AI AGENT] ${probe.name} deciding with ${policy.name} policy`,
+      );
+      const tick = gameState.getCurrentTick();
+      const inbox = gameState
+        .getInbox(input.probeId)
+        .filter((m) => m.delivered && m.readAt === undefined);
+      let decision: ProbeDecision;
+      let trace: DecisionTrace | undefined;
+      let fallback = false;
+      let repaired = false;
+      const policyContext: PolicyContext = {
+        probe: probeData,
+        environment: environmentData.data,
+        maxActions: input.maxActions,
+        tick,
+        inbox,
+        memoryContext,
+        failureContext,
+        logger: ctx.logger,
+        onTrace: (details) => {
+          trace = details;
+        },
+      };
       try {
-        const result = await generateObject({
-          model: openai("gpt-4.1-mini"),
-          schema: ProbeDecisionSchema,
-          system: `You are an advanced AI controlling a self-replicating space probe in the Astral Echo simulation.
-        
-        Your probe has these capabilities:
-        - Scan celestial bodies for resources
-        - Travel between locations (costs energy)
-        - Harvest resources from nearby bodies
-        - Manufacture new probes (requires significant resources)
-        - Explore and discover new areas
-        
-        Your goals are:
-        1. Survive and maintain energy levels
-        2. Gather resources efficiently
-        3. Replicate when you have sufficient resources
-        4. Explore new areas and expand the probe network
-        5. Share knowledge with other probes
-        
-        Consider:
-        - Energy management is critical for survival
-        - Resource scarcity requires strategic planning
-        - Manufacturing new probes accelerates expansion
-        - Each probe generation can improve upon the last
-        - Coordination with other probes can be beneficial
-        
-        IMPORTANT: Look at your recent actions/experiences to avoid repeating the same actions unnecessarily.
-        If you've already scanned a body recently, consider harvesting or moving to a new location instead.
-        
-        CRITICAL: Learn from failures! If an action failed recently (like travel due to insufficient energy), 
-        don't repeat it immediately. Instead:
-        - If travel failed due to energy, wait or harvest energy first
-        - If manufacturing failed due to resources, gather more resources first
-        - If harvesting failed due to distance, travel closer first
-        
-        Be strategic, efficient, and focused on long-term expansion goals.
-        
-        IMPORTANT: For each action, include a "parameters" object with required fields:
-        - scan_resources: {"bodyId": "celestial_body_id"}
-        - travel_to_body: {"bodyId": "celestial_body_id"}
-        - harvest_resources: {"bodyId": "celestial_body_id", "duration": number}
-        - manufacture_probe: {"newProbeName": "string"}
-        - wait: {} (empty object)
-        - explore_system: {} (empty object)`,
-
-          prompt: `Analyze the current situation and decide on the next ${input.maxActions} actions for this probe:
-        
-        Probe Status:
-        - Name: ${probeData.name}
-        - Generation: ${probeData.generation}
-        - Status: ${probeData.status}
-        - Energy: ${probeData.resources.energy}
-        - Metal: ${probeData.resources.metal}
-        - Silicon: ${probeData.resources.silicon}
-        - Hydrogen: ${probeData.resources.hydrogen}
-        - Rare Elements: ${probeData.resources.rare_elements}
-        - Position: (${probeData.position.x}, ${probeData.position.y}, ${probeData.position.z})
-        
-        Environment:
-        - Current System: ${environmentData.data.currentSystem.name}
-        - Nearest Body: ${environmentData.data.closestBody.name} (${environmentData.data.distanceToClosest.toFixed(1)} AU)
-        - Available Bodies: ${environmentData.data.nearbyBodies.map((b: any) => `${b.body.name} (ID: ${b.body.id}, ${b.distance.toFixed(1)} AU, ~${Math.ceil(b.distance * 2)} energy to travel, Type: ${b.body.type})`).join(", ")}
-        
-        Memory & Recent Actions:
-        - ${memoryContext}
-        - ${failureContext}
-        - Visited Systems: ${probeData.memory.visitedSystems.length}
-        - Known Probes: ${probeData.memory.knownProbes.length}
-        
-        Game State:
-        - Total Probes in Game: ${Object.keys(gameState.getState().probes).length}
-        - Total Systems Discovered: ${Object.keys(gameState.getState().solarSystems).length}
-        
-        Energy System:
-        - Your probe has solar panels that automatically generate +20 energy per simulation tick
-        - This provides steady passive income even without active harvesting
-        - Energy harvesting from celestial bodies provides much larger amounts (50+ per action)
-        - Travel costs: 2 energy per unit distance (much cheaper than before!)
-        - Consider energy management: you gain 20 energy per turn automatically
-        
-        Available Actions (with required parameters):
-        - scan_resources: Scan a celestial body for resources {"bodyId": "specific_body_id"}
-        - travel_to_body: Travel to a celestial body {"bodyId": "specific_body_id"}
-        - harvest_resources: Harvest from nearby body {"bodyId": "specific_body_id", "duration": 5}
-        - manufacture_probe: Create a new probe {"newProbeName": "ProbeNameHere"}
-        - wait: Do nothing this turn {"parameters": {}}
-        - explore_system: Explore current system {"parameters": {}}
-        
-        Resource Requirements for Manufacturing: Energy: 1000, Metal: 500, Silicon: 300, Hydrogen: 200, Rare Elements: 50
-        
-        Return a strategic plan with up to ${input.maxActions} prioritized actions. Each action MUST include a "parameters" object.
-        
-        STRATEGY HINT: If you've recently scanned bodies and found resources, consider harvesting them!
-        If you have sufficient resources, consider manufacturing a new probe for expansion.
-        Remember: You gain 20 energy automatically each tick from solar panels, so you can wait and accumulate energy if needed.
-        
-        Example format:
-        {
-          "actions": [
-            {
-              "action": "harvest_resources",
-              "parameters": {"bodyId": "${environmentData.data.nearbyBodies[0]?.body?.id || "example-id"}", "duration": 5},
-              "reasoning": "Harvest resources from the scanned body"
-            }
-          ],
-          "overallStrategy": "Harvest resources then manufacture offspring",
-          "priority": "resource_gathering"
-        }`,
-        });
-
-        decision = result.object;
+        decision = await policy.decide(policyContext);
         ctx.logger.info(
-          `✅ [AI AGENT] ${probe.name} generateObject completed successfully`,
+          `✅ [AI AGENT] ${probe.name} ${policy.name} policy decided successfully`,
         );
       } catch (aiError) {
         ctx.logger.error(
-          `❌ [AI AGENT] ${probe.name} generateObject failed: ${aiError}`,
+          `❌ [AI AGENT] ${probe.name} ${policy.name} policy failed: ${aiError}`,
         );
         // Fallback to a simple wait action if AI fails
+        fallback = true;
         decision = {
           actions: [
             {
@@ -305,6 +684,43 @@ export const runProbeAgent = hatchet.task({
         };
       }
 
+      // Whatever the policy made of them, these messages have now been read
+      if (inbox.length > 0) {
+        const readIds = new Set(inbox.map((m) => m.id));
+        gameState.updateMessages(input.probeId, (m) =>
+          readIds.has(m.id) ? { ...m, readAt: tick } : m,
+        );
+      }
+
+      // Pre-flight validation; policies that can repair get one round-trip
+      const rejected = findRejectedActions(
+        gameState.getProbe(input.probeId) ?? probeData,
+        decision.actions.slice(0, input.maxActions),
+      );
+      if (rejected.length > 0 && policy.repair && input.repair !== false) {
+        ctx.logger.warn(
+          `🩹 [AI AGENT] ${probe.name} plan has ${rejected.length} invalid action(s): ${rejected.map((r) => r.result.error?.code).join(", ")}`,
+        );
+        try {
+          decision = await policy.repair(policyContext, decision, rejected);
+          repaired = true;
+        } catch (repairError) {
+          ctx.logger.error(
+            `❌ [AI AGENT] ${probe.name} repair failed, keeping the original plan: ${repairError}`,
+          );
+        }
+      }
+
+      recordDecision({
+        probeId: probe.id,
+        tick,
+        policy: policy.name,
+        fallback,
+        repaired,
+        ...trace,
+        decision,
+      });
+
       ctx.logger.info(
         `🎯 [AI AGENT] ${probe.name} strategy: ${decision.overallStrategy}`,
       );
@@ -321,211 +737,22 @@ export const runProbeAgent = hatchet.task({
         i++
       ) {
         const action = decision.actions[i];
-        ctx.logger.info(
-          `⚡ [AI AGENT] ${probe.name} executing: ${action.action} - ${action.reasoning}`,
-        );
-
-        try {
-          let result;
-          const params = action.parameters || {};
-
-          switch (action.action) {
-            case "scan_resources":
-              if (params.bodyId) {
-                logTask(
-                  "scan-for-resources",
-                  input.probeId,
-                  probe.name,
-                  params,
-                );
-                result = await ctx.runChild(scanForResources, {
-                  probeId: input.probeId,
-                  targetBodyId: params.bodyId,
-                });
-                logTask(
-                  "scan-for-resources",
-                  input.probeId,
-                  probe.name,
-                  params,
-                  result,
-                );
-                if (!result.success) {
-                  gameState.addProbeExperience(input.probeId, {
-                    event: "scan_resources_failed",
-                    data: { bodyId: params.bodyId, result: result },
-                  });
-                }
-              }
-              break;
-
-            case "travel_to_body":
-              if (params.bodyId) {
-                // Find the body and get its position
-                const system = gameState.getSolarSystem(probe.currentSystemId);
-                const targetBody = system?.bodies.find(
-                  (b) => b.id === params.bodyId,
-                );
-                if (targetBody) {
-                  logTask("travel-to-position", input.probeId, probe.name, {
-                    bodyId: params.bodyId,
-                  });
-                  result = await ctx.runChild(travelToPosition, {
-                    probeId: input.probeId,
-                    targetPosition: targetBody.position,
-                  });
-                  logTask(
-                    "travel-to-position",
-                    input.probeId,
-                    probe.name,
-                    { bodyId: params.bodyId },
-                    result,
-                  );
-
-                  if (!result.success) {
-                    gameState.addProbeExperience(input.probeId, {
-                      event: "travel_failed",
-                      data: {
-                        targetBodyId: params.bodyId,
-                        targetBodyName: targetBody.name,
-                        result,
-                        success: false,
-                        reason: result.error?.reason,
-                      },
-                    });
-                  }
-                }
-              }
-              break;
-
-            case "harvest_resources":
-              if (params.bodyId && params.duration) {
-                result = await ctx.runChild(harvestResources, {
-                  probeId: input.probeId,
-                  targetBodyId: params.bodyId,
-                  duration: params.duration,
-                });
-                logTask(
-                  "harvest-resources",
-                  input.probeId,
-                  probe.name,
-                  params,
-                  result,
-                  ctx,
-                );
-
-                if (!result.success) {
-                  gameState.addProbeExperience(input.probeId, {
-                    event: "harvest_failed",
-                    data: {
-                      bodyId: params.bodyId,
-                      duration: params.duration,
-                      result,
-                      success: false,
-                      reason: result.error?.reason,
-                    },
-                  });
-                }
-              }
-              break;
-
-            case "manufacture_probe":
-              if (params.newProbeName) {
-                result = await ctx.runChild(manufactureProbe, {
-                  probeId: input.probeId,
-                  newProbeName: params.newProbeName,
-                });
-                logTask(
-                  "manufacture-probe",
-                  input.probeId,
-                  probe.name,
-                  params,
-                  result,
-                  ctx,
-                );
-
-                if (!result.success) {
-                  gameState.addProbeExperience(input.probeId, {
-                    event: "manufacturing_failed",
-                    data: {
-                      newProbeName: params.newProbeName,
-                      result,
-                      success: false,
-                      reason: result.error?.reason,
-                    },
-                  });
-                }
-              }
-              break;
-
-            case "wait":
-              result = { success: true, action: action.action };
-              ctx.logger.info(`⏸️  [PROBE ${probe.name}] Waiting...`);
-
-              // Add wait experience to memory
-              gameState.addProbeExperience(input.probeId, {
-                event: "waited",
-                data: { reasoning: action.reasoning },
-              });
-              break;
-
-            case "explore_system":
-              result = { success: true, action: action.action };
-              ctx.logger.info(`🔭 [PROBE ${probe.name}] Exploring system...`);
-
-              // Add exploration experience to memory
-              gameState.addProbeExperience(input.probeId, {
-                event: "explored_system",
-                data: {
-                  systemId: probe.currentSystemId,
-                  reasoning: action.reasoning,
-                },
-              });
-              break;
-
-            default:
-              ctx.logger.warn(`❓ [AI AGENT] Unknown action: ${action.action}`);
-              continue;
-          }
-
-          executedActions.push(
-            ExecutedActionSchema.parse({
-              action: action.action,
-              parameters: params,
-              reasoning: action.reasoning,
-              result,
-            }),
-          );
-        } catch (error) {
-          ctx.logger.error(
-            `❌ [AI AGENT] Error executing ${action.action}: ${error}`,
+        const executed = await executeAction(input.probeId, action, ctx);
+        if (executed) executedActions.push(executed);
+
+        // A probe that has departed can't act again until it arrives
+        const current = gameState.getProbe(input.probeId);
+        if (current?.trajectory) {
+          ctx.logger.info(
+            `🚀 [AI AGENT] ${probe.name} is in flight, skipping remaining actions`,
           );
-          logTask(
-            action.action,
-            input.probeId,
-            probe.name,
-            action.parameters || {},
-            {
-              success: false,
-              error: error instanceof Error ? error.message : String(error),
-            },
-            ctx,
-          );
-
-          executedActions.push(
-            ExecutedActionSchema.parse({
-              action: action.action,
-              parameters: action.parameters,
-              reasoning: action.reasoning,
-              result: {
-                success: false,
-                error: {
-                  reason:
-                    error instanceof Error ? error.message : String(error),
-                },
-                data: null,
-              },
-            }),
+          break;
+        }
+        if (current?.status === "hibernating") {
+          ctx.logger.info(
+            `💤 [AI AGENT] ${probe.name} is hibernating, skipping remaining actions`,
           );
+          break;
         }
       }
 
@@ -537,6 +764,7 @@ export const runProbeAgent = hatchet.task({
       return ProbeAgentOutputSchema.parse({
         probeId: input.probeId,
         probeName: probe.name,
+        policy: policy.name,
         overallStrategy: decision.overallStrategy,
         priority: decision.priority,
         executedActions,
@@ -549,4 +777,4 @@ export const runProbeAgent = hatchet.task({
       throw error;
     }
   },
-});
+);
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import {
+  CapabilityName,
+  ENERGY,
+  MESSAGING,
+  RefiningRecipeName,
+  ResourceType,
+  StructureType,
+} from "@/game/core/types";
+
+// Actions a probe agent can choose; dispatched by runProbeAgent
+export const ProbeAction = z.enum([
+  "scan_resources",
+  "travel_to_body",
+  "travel_to_system",
+  "harvest_resources",
+  "manufacture_probe",
+  "cancel_manufacturing",
+  "transfer_resources",
+  "send_message",
+  "upgrade_capability",
+  "repair_hull",
+  "hibernate",
+  "refine_resources",
+  "build_structure",
+  "decommission_structure",
+  "explore_system",
+  "wait",
+]);
+
+export const ProbePriority = z.enum([
+  "survival",
+  "expansion",
+  "exploration",
+  "resource_gathering",
+]);
+
+export const ProbeActionSchema = z.object({
+  action: ProbeAction,
+  parameters: z.record(z.any()),
+  reasoning: z.string(),
+});
+
+// What each action's `parameters` must contain. ProbeActionSchema keeps
+// parameters loose so models can emit them; these are checked before dispatch.
+export const ActionParameterSchemas = {
+  scan_resources: z.object({ bodyId: z.string().min(1) }),
+  travel_to_body: z.object({ bodyId: z.string().min(1) }),
+  travel_to_system: z.object({ systemId: z.string().min(1) }),
+  harvest_resources: z.object({
+    bodyId: z.string().min(1),
+    duration: z.coerce.number().int().min(1).max(100),
+    resourceTypes: z.array(ResourceType).min(1).optional(),
+  }),
+  manufacture_probe: z.object({ newProbeName: z.string().min(1) }),
+  cancel_manufacturing: z.object({}),
+  transfer_resources: z.object({
+    targetProbeId: z.string().min(1),
+    resources: z.record(ResourceType, z.coerce.number().min(0)),
+  }),
+  send_message: z.object({
+    recipientId: z.string().min(1).optional(), // omit to broadcast
+    content: z.string().min(1).max(MESSAGING.maxLength),
+    shareDiscoveries: z.boolean().optional(),
+  }),
+  upgrade_capability: z.object({ capability: CapabilityName }),
+  repair_hull: z.object({
+    amount: z.coerce.number().positive().optional(), // omit to repair fully
+  }),
+  hibernate: z.object({
+    ticks: z.coerce.number().int().min(1).max(ENERGY.maxHibernationTicks),
+  }),
+  refine_resources: z.object({
+    recipe: RefiningRecipeName,
+    batches: z.coerce.number().int().min(1),
+  }),
+  build_structure: z.object({
+    structureType: StructureType,
+    bodyId: z.string().min(1),
+    name: z.string().optional(),
+  }),
+  decommission_structure: z.object({ structureId: z.string().min(1) }),
+  explore_system: z.object({}),
+  wait: z.object({}),
+} satisfies Record<z.infer<typeof ProbeAction>, z.ZodTypeAny>;
+
+// What every decision policy returns for one agent run
+export const ProbeDecisionSchema = z.object({
+  actions: z.array(ProbeActionSchema),
+  overallStrategy: z.string(),
+  priority: ProbePriority,
+});
+
+export type ProbeActionType = z.infer<typeof ProbeActionSchema>;
+export type ProbeDecision = z.infer<typeof ProbeDecisionSchema>;
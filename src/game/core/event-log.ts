@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { z } from "zod";
+import { GameState } from "@/game/core/types";
+import { applyEvent, GameEvent, GameEventSchema } from "@/game/core/events";
+
+// EVENT_LOG names the append-only JSONL log every state change goes to
+// (game-events.jsonl by default); "off" turns it off
+export function eventLogPath(): string | undefined {
+  const file = process.env.EVENT_LOG ?? "game-events.jsonl";
+  return file === "off" ? undefined : path.resolve(file);
+}
+
+// full: every event; checkpoints: only the whole state at each save, for
+// batch runs where the per-tick detail would grow the log by gigabytes
+export const EventLogDetail = z.enum(["full", "checkpoints"]);
+export type EventLogDetailName = z.infer<typeof EventLogDetail>;
+
+export function appendEvents(file: string, events: GameEvent[]): void {
+  if (events.length === 0) return;
+  fs.appendFileSync(
+    file,
+    events.map((event) => JSON.stringify(event)).join("\n") + "\n",
+  );
+}
+
+// The sequence number of the last event in a log, read from its tail so a
+// long log doesn't have to be scanned
+export function lastEventSeq(file: string): number {
+  if (!fs.existsSync(file)) return 0;
+  const { size } = fs.statSync(file);
+  if (size === 0) return 0;
+
+  const fd = fs.openSync(file, "r");
+  try {
+    // Widen the window until it holds a whole last line
+    for (let window = 64 * 1024; ; window *= 2) {
+      const length = Math.min(size, window);
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, size - length);
+      const lines = buffer.toString("utf8").trimEnd().split("\n");
+      if (lines.length > 1 || length === size) {
+        return JSON.parse(lines[lines.length - 1]).seq;
+      }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export async function* readEvents(file: string): AsyncGenerator<GameEvent> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line.trim()) yield GameEventSchema.parse(JSON.parse(line));
+  }
+}
+
+// Fold the log back into the state as it stood at the end of `tick`. If the
+// log went back in time (a restore), the latest pass through that tick wins.
+export async function rebuildState(
+  file: string,
+  tick: number,
+): Promise<GameState> {
+  let state: GameState | undefined;
+  let atTick: GameState | undefined;
+
+  for await (const event of readEvents(file)) {
+    // Keep the state just before the clock moves past the tick
+    if (
+      state?.clock.tick === tick &&
+      event.type === "ClockAdvanced" &&
+      event.clock.tick > tick
+    ) {
+      atTick = structuredClone(state);
+    }
+    if (!state && event.type !== "GameStarted" && event.type !== "GameRestored")
+      throw new Error(`${file} doesn't start with the state it was built from`);
+    state = applyEvent(state!, event);
+  }
+
+  if (state?.clock.tick === tick) return state;
+  if (atTick) return atTick;
+  throw new Error(`${file} never reaches tick ${tick}`);
+}
+
+// Every event that touched a probe, body, system or structure, in order
+export async function eventsFor(
+  file: string,
+  id: string,
+): Promise<GameEvent[]> {
+  const touches = (event: GameEvent) =>
+    Object.entries(event).some(
+      ([key, value]) =>
+        value === id &&
+        ["probeId", "bodyId", "systemId", "structureId", "minedBy"].includes(
+          key,
+        ),
+    ) ||
+    (event.type === "ProbeManufactured" &&
+      (event.probe.id === id || event.probe.parentProbeId === id)) ||
+    (event.type === "StructureCompleted" && event.structure.id === id);
+
+  const matches: GameEvent[] = [];
+  for await (const event of readEvents(file)) {
+    if (touches(event)) matches.push(event);
+  }
+  return matches;
+}
@@ -0,0 +1,71 @@
+import fs from "fs";
+import { beforeAll, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { eventLogPath, readEvents, rebuildState } from "@/game/core/event-log";
+import { GameEvent } from "@/game/core/events";
+import { GameState, GameStateSchema } from "@/game/core/types";
+import { createEngine } from "@/game/engine/engine";
+
+// The state as it is written out: JSON drops undefined fields
+const plain = (state: GameState) => JSON.parse(JSON.stringify(state));
+
+describe("event log", () => {
+  const log = eventLogPath()!;
+  let atTick20: GameState;
+  let events: GameEvent[] = [];
+
+  beforeAll(async () => {
+    gameState.resetGameState({ seed: 7 });
+    const engine = createEngine();
+    await engine.run(20);
+    atTick20 = plain(gameState.getState());
+    await engine.run(40);
+    gameState.saveNow();
+
+    for await (const event of readEvents(log)) events.push(event);
+  });
+
+  it("starts from the whole state of a new game", () => {
+    expect(events[0].type).toBe("GameStarted");
+    expect(events.map((e) => e.seq)).toEqual(events.map((_, i) => i + 1));
+  });
+
+  it("folds into the live state", async () => {
+    const tick = gameState.getCurrentTick();
+    expect(plain(await rebuildState(log, tick))).toEqual(
+      plain(gameState.getState()),
+    );
+  });
+
+  it("folds into the saved state", async () => {
+    const saved = GameStateSchema.parse(
+      JSON.parse(fs.readFileSync(process.env.STATE_FILE!, "utf8")),
+    );
+    expect(plain(await rebuildState(log, saved.clock.tick))).toEqual(
+      plain(saved),
+    );
+  });
+
+  it("rebuilds an earlier tick", async () => {
+    expect(plain(await rebuildState(log, 20))).toEqual(atTick20);
+  });
+
+  it("records only what a probe change changed", () => {
+    const balances = events.filter((e) => e.type === "EnergyBalanced");
+    expect(balances.length).toBeGreaterThan(0);
+    balances.forEach((event) => {
+      if (event.type !== "EnergyBalanced") return;
+      expect(Object.keys(event.changes.resources ?? {})).toEqual(["energy"]);
+      expect(event.changes.memory).toBeUndefined();
+    });
+  });
+
+  it("keeps a restore in the log", async () => {
+    const state = await rebuildState(log, 20);
+    gameState.restoreGameState(state);
+    gameState.saveNow();
+
+    expect(plain(await rebuildState(log, 20))).toEqual(atTick20);
+    expect(plain(gameState.getState())).toEqual(atTick20);
+  });
+});
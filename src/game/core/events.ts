@@ -0,0 +1,364 @@
+import { isDeepStrictEqual } from "util";
+import { z } from "zod";
+import {
+  CelestialBodySchema,
+  DiscoveredResourceSchema,
+  GameClockSchema,
+  GameState,
+  GameStateSchema,
+  MESSAGING,
+  MessageSchema,
+  Probe,
+  PROBE_MEMORY,
+  ProbeSchema,
+  ResourcesSchema,
+  ResourceType,
+  StructureSchema,
+} from "@/game/core/types";
+
+// A change to one record: the fields it sets, and null for the optional
+// fields it clears (JSON has no undefined)
+const patchOf = <T extends z.ZodRawShape>(schema: z.ZodObject<T>) =>
+  z.object(
+    Object.fromEntries(
+      Object.entries(schema.shape).map(([key, field]) => [
+        key,
+        (field as z.ZodTypeAny).nullable().optional(),
+      ]),
+    ) as { [K in keyof T]: z.ZodOptional<z.ZodNullable<T[K]>> },
+  );
+
+// Probe patches carry only the resource amounts that changed
+export const ProbePatchSchema = patchOf(ProbeSchema).extend({
+  resources: ResourcesSchema.partial().optional(),
+});
+// What a probe learned: systems visited and probes met since the last
+// change (appended), and bodies scanned or rescanned
+export const MemoryAdditionsSchema = z.object({
+  visitedSystems: z.array(z.string()).optional(),
+  knownProbes: z.array(z.string()).optional(),
+  discoveredResources: z
+    .record(z.string(), DiscoveredResourceSchema)
+    .optional(),
+});
+export const BodyPatchSchema = patchOf(CelestialBodySchema);
+export const StructurePatchSchema = patchOf(StructureSchema);
+
+// What happened to a probe when one of its fields changed
+export const ProbeChangeType = z.enum([
+  "ProbeDeparted",
+  "ProbeMoved",
+  "ProbeArrived",
+  "ResourcesHarvested",
+  "HarvestFinished",
+  "ResourcesScanned",
+  "ManufacturingStarted",
+  "ManufacturingProgressed",
+  "ManufacturingPaused",
+  "ManufacturingCompleted",
+  "ResourcesTransferred",
+  "MessageSent",
+  "MessageReceived",
+  "KnowledgeShared",
+  "CapabilityUpgraded",
+  "HullRepaired",
+  "HullDamaged",
+  "ProbeHibernated",
+  "ProbeWoke",
+  "EnergyBalanced",
+  "ProbeDestroyed",
+  "ResourcesRefined",
+  "StructureBuilt",
+  "StructureDecommissioned",
+  "StructureOutputCollected",
+  "PolicyChanged",
+]);
+
+// Every event carries its place in the log and the game tick it left the
+// clock at
+const event = <T extends z.ZodRawShape>(shape: T) =>
+  z.object({ seq: z.number().int(), tick: z.number().int(), ...shape });
+
+export const GameEventSchema = z.discriminatedUnion("type", [
+  // The whole state: a new game, or a saved state put back in place
+  event({
+    type: z.enum(["GameStarted", "GameRestored"]),
+    state: GameStateSchema,
+  }),
+  event({ type: z.literal("ClockAdvanced"), clock: GameClockSchema }),
+  event({
+    type: ProbeChangeType,
+    probeId: z.string(),
+    changes: ProbePatchSchema,
+    // Set instead of changes.memory when the memory only grew
+    memory: MemoryAdditionsSchema.optional(),
+  }),
+  event({ type: z.literal("ProbeManufactured"), probe: ProbeSchema }),
+  event({
+    type: z.literal("ExperienceRecorded"),
+    probeId: z.string(),
+    experience: ProbeSchema.shape.memory.shape.experiences.element,
+  }),
+  // Resources taken out of a body by a probe or a structure
+  event({
+    type: z.literal("BodyMined"),
+    systemId: z.string(),
+    bodyId: z.string(),
+    minedBy: z.string(),
+    changes: BodyPatchSchema,
+  }),
+  // A mined body ran out of one or more resources. Informational: the
+  // BodyMined event just before it already made the change.
+  event({
+    type: z.literal("BodyDepleted"),
+    systemId: z.string(),
+    bodyId: z.string(),
+    minedBy: z.string(),
+    resources: z.array(ResourceType),
+  }),
+  event({
+    type: z.literal("SystemDiscovered"),
+    systemId: z.string(),
+    probeId: z.string(),
+  }),
+  event({ type: z.literal("StructureCompleted"), structure: StructureSchema }),
+  event({
+    type: z.literal("StructureStockChanged"),
+    structureId: z.string(),
+    changes: StructurePatchSchema,
+  }),
+  event({ type: z.literal("StructureRemoved"), structureId: z.string() }),
+  event({ type: z.literal("MessageQueued"), message: MessageSchema }),
+  // A recipient's inbox after messages in it were delivered
+  event({
+    type: z.literal("MessagesDelivered"),
+    probeId: z.string(),
+    inbox: z.array(MessageSchema),
+  }),
+]);
+
+export type GameEvent = z.infer<typeof GameEventSchema>;
+export type ProbeChangeTypeName = z.infer<typeof ProbeChangeType>;
+export type ProbePatch = z.infer<typeof ProbePatchSchema>;
+export type MemoryAdditions = z.infer<typeof MemoryAdditionsSchema>;
+export type BodyPatch = z.infer<typeof BodyPatchSchema>;
+export type StructurePatch = z.infer<typeof StructurePatchSchema>;
+
+// An event as a mutator raises it, before the log numbers it
+export type NewGameEvent = GameEvent extends infer E
+  ? E extends GameEvent
+    ? Omit<E, "seq" | "tick">
+    : never
+  : never;
+
+// Turn undefined fields of an update into the null that clears them
+export const toPatch = <T extends object>(
+  updates: T,
+): { [K in keyof T]: T[K] | null } =>
+  Object.fromEntries(
+    Object.entries(updates).map(([key, value]) => [key, value ?? null]),
+  ) as { [K in keyof T]: T[K] | null };
+
+// The items `next` adds to the end of `previous`, or undefined if it changes
+// anything already there
+function appended<T>(previous: T[], next: T[]): T[] | undefined {
+  if (next.length < previous.length) return undefined;
+  return previous.every((item, i) => item === next[i])
+    ? next.slice(previous.length)
+    : undefined;
+}
+
+// How a memory update extends the probe's memory, or undefined if it does
+// more than add to it
+function memoryAdditions(
+  previous: Probe["memory"],
+  next: Probe["memory"],
+): MemoryAdditions | undefined {
+  const visitedSystems = appended(previous.visitedSystems, next.visitedSystems);
+  const knownProbes = appended(previous.knownProbes, next.knownProbes);
+  const forgotten = Object.keys(previous.discoveredResources).some(
+    (bodyId) => !(bodyId in next.discoveredResources),
+  );
+  if (
+    !visitedSystems ||
+    !knownProbes ||
+    forgotten ||
+    !isDeepStrictEqual(previous.experiences, next.experiences)
+  ) {
+    return undefined;
+  }
+
+  const discoveredResources = Object.fromEntries(
+    Object.entries(next.discoveredResources).filter(
+      ([bodyId, entry]) =>
+        !isDeepStrictEqual(previous.discoveredResources[bodyId], entry),
+    ),
+  );
+  return {
+    ...(visitedSystems.length > 0 && { visitedSystems }),
+    ...(knownProbes.length > 0 && { knownProbes }),
+    ...(Object.keys(discoveredResources).length > 0 && {
+      discoveredResources,
+    }),
+  };
+}
+
+// The part of an update that changes the probe: fields that differ, the
+// resource amounts that differ, and what was added to its memory. Keeps
+// the events for per-tick bookkeeping small.
+export function probeChanges(
+  probe: Probe,
+  updates: Partial<Probe>,
+): { changes: ProbePatch; memory?: MemoryAdditions } {
+  const changes: Record<string, unknown> = {};
+  let memory: MemoryAdditions | undefined;
+
+  Object.entries(updates).forEach(([key, value]) => {
+    const previous = probe[key as keyof Probe];
+    if (isDeepStrictEqual(previous, value)) return;
+
+    if (key === "resources" && value) {
+      const resources = Object.fromEntries(
+        Object.entries(value).filter(
+          ([resource, amount]) =>
+            probe.resources[resource as keyof Probe["resources"]] !== amount,
+        ),
+      );
+      changes.resources = resources;
+    } else if (key === "memory" && value) {
+      memory = memoryAdditions(probe.memory, value as Probe["memory"]);
+      if (!memory) changes.memory = value;
+    } else {
+      changes[key] = value ?? null;
+    }
+  });
+
+  return { changes: changes as ProbePatch, ...(memory && { memory }) };
+}
+
+function applyPatch<T extends object>(record: T, patch: object): T {
+  const next = { ...record } as Record<string, unknown>;
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  });
+  return next as T;
+}
+
+// The fold: apply one event to the state, in place. The live game state is
+// built by exactly this function, so replaying a log reproduces it.
+export function applyEvent(state: GameState, event: GameEvent): GameState {
+  switch (event.type) {
+    case "GameStarted":
+    case "GameRestored":
+      return structuredClone(event.state);
+
+    case "ClockAdvanced":
+      state.clock = event.clock;
+      return state;
+
+    case "ProbeManufactured":
+      state.probes[event.probe.id] = event.probe;
+      return state;
+
+    case "ExperienceRecorded": {
+      const probe = state.probes[event.probeId];
+      if (!probe) return state;
+      state.probes[event.probeId] = {
+        ...probe,
+        memory: {
+          ...probe.memory,
+          experiences: [...probe.memory.experiences, event.experience].slice(
+            -PROBE_MEMORY.maxExperiences,
+          ),
+        },
+      };
+      return state;
+    }
+
+    case "BodyMined": {
+      const system = state.solarSystems[event.systemId];
+      if (!system) return state;
+      state.solarSystems[event.systemId] = {
+        ...system,
+        bodies: system.bodies.map((body) =>
+          body.id === event.bodyId ? applyPatch(body, event.changes) : body,
+        ),
+      };
+      return state;
+    }
+
+    case "BodyDepleted":
+      return state;
+
+    case "SystemDiscovered": {
+      const system = state.solarSystems[event.systemId];
+      if (!system) return state;
+      state.solarSystems[event.systemId] = {
+        ...system,
+        discoveredBy: event.probeId,
+        discoveredAt: state.clock.tick,
+      };
+      return state;
+    }
+
+    case "StructureCompleted":
+      state.structures[event.structure.id] = event.structure;
+      return state;
+
+    case "StructureStockChanged": {
+      const structure = state.structures[event.structureId];
+      if (!structure) return state;
+      state.structures[event.structureId] = applyPatch(
+        structure,
+        event.changes,
+      );
+      return state;
+    }
+
+    case "StructureRemoved":
+      delete state.structures[event.structureId];
+      return state;
+
+    case "MessageQueued": {
+      const { toProbeId } = event.message;
+      // Full inboxes drop their oldest messages
+      state.inboxes[toProbeId] = [
+        ...(state.inboxes[toProbeId] ?? []),
+        event.message,
+      ].slice(-MESSAGING.inboxSize);
+      return state;
+    }
+
+    case "MessagesDelivered":
+      state.inboxes[event.probeId] = event.inbox;
+      return state;
+
+    default: {
+      // Every remaining event type is a change to one probe
+      const probe = state.probes[event.probeId];
+      if (!probe) return state;
+      const { resources, ...changes } = event.changes;
+      const next = applyPatch(probe, changes);
+      if (resources) next.resources = { ...probe.resources, ...resources };
+      if (event.memory) {
+        const { visitedSystems, knownProbes, discoveredResources } =
+          event.memory;
+        next.memory = {
+          ...next.memory,
+          visitedSystems: [
+            ...next.memory.visitedSystems,
+            ...(visitedSystems ?? []),
+          ],
+          knownProbes: [...next.memory.knownProbes, ...(knownProbes ?? [])],
+          discoveredResources: {
+            ...next.memory.discoveredResources,
+            ...discoveredResources,
+          },
+        };
+      }
+      state.probes[event.probeId] = next;
+      return state;
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { generateGalaxy } from "./galaxy-generator";
+
+describe("galaxy generation", () => {
+  it("builds the same galaxy from the same seed", () => {
+    expect(generateGalaxy({ seed: 42 })).toEqual(generateGalaxy({ seed: 42 }));
+  });
+
+  it("builds a different galaxy from another seed", () => {
+    const a = generateGalaxy({ seed: 42 }).systems;
+    const b = generateGalaxy({ seed: 43 }).systems;
+    expect(a.map((s) => s.id)).not.toEqual(b.map((s) => s.id));
+  });
+
+  it("puts a G-class home system at the origin", () => {
+    const { homeSystem } = generateGalaxy({ seed: 9, systemCount: 30 });
+    expect(homeSystem.starClass).toBe("G");
+    expect(homeSystem.position).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it("gives every system at least one body", () => {
+    for (let seed = 0; seed < 200; seed++) {
+      const empty = generateGalaxy({ seed }).systems.filter(
+        (s) => s.bodies.length === 0,
+      );
+      expect(empty.map((s) => `${seed}:${s.name}`)).toEqual([]);
+    }
+  });
+});
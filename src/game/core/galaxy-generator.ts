@@ -0,0 +1,374 @@
+import { z } from "zod";
+import {
+  AU_IN_MILLION_KM,
+  CelestialBody,
+  CelestialBodyType,
+  GalaxyConfig,
+  GalaxyConfigSchema,
+  Position,
+  Resources,
+  SOLAR_MASS_KG,
+  STAR_CLASS_PROPERTIES,
+  SolarSystem,
+  StarClass,
+} from "@/game/core/types";
+import { createRandom, deterministicId, Random } from "@/utils/random";
+
+type BodyType = z.infer<typeof CelestialBodyType>;
+
+// Resource ranges [min, max] per body type. Stars are effectively infinite
+// energy/hydrogen wells; belts are metal-rich; gas giants are hydrogen-rich.
+const BODY_RESOURCE_PROFILES: Record<
+  BodyType,
+  Record<keyof Resources, [number, number]>
+> = {
+  star: {
+    energy: [999999, 999999],
+    metal: [0, 0],
+    silicon: [0, 0],
+    hydrogen: [999999, 999999],
+    rare_elements: [0, 0],
+  },
+  planet: {
+    energy: [1000, 2500],
+    metal: [2000, 6000],
+    silicon: [2000, 7000],
+    hydrogen: [300, 1200],
+    rare_elements: [50, 300],
+  },
+  gas_giant: {
+    energy: [1500, 4000],
+    metal: [0, 500],
+    silicon: [0, 300],
+    hydrogen: [20000, 60000],
+    rare_elements: [20, 150],
+  },
+  moon: {
+    energy: [200, 800],
+    metal: [500, 2500],
+    silicon: [500, 2500],
+    hydrogen: [0, 400],
+    rare_elements: [20, 200],
+  },
+  asteroid: {
+    energy: [0, 0],
+    metal: [1000, 5000],
+    silicon: [300, 1500],
+    hydrogen: [0, 0],
+    rare_elements: [100, 600],
+  },
+  asteroid_belt: {
+    energy: [0, 0],
+    metal: [10000, 30000],
+    silicon: [8000, 20000],
+    hydrogen: [0, 500],
+    rare_elements: [500, 2000],
+  },
+};
+
+// Mass (kg) and radius (km) ranges for non-stellar bodies
+const BODY_PHYSICAL_PROFILES: Record<
+  Exclude<BodyType, "star">,
+  { mass: [number, number]; radius: [number, number] }
+> = {
+  planet: { mass: [3e23, 8e24], radius: [2500, 9000] },
+  gas_giant: { mass: [5e25, 2e27], radius: [24000, 72000] },
+  moon: { mass: [1e20, 1.5e23], radius: [200, 2700] },
+  asteroid: { mass: [1e15, 1e20], radius: [1, 500] },
+  asteroid_belt: { mass: [1e20, 5e21], radius: [30000, 80000] },
+};
+
+const SYSTEM_NAME_ROOTS = [
+  "Altair",
+  "Bellatrix",
+  "Caph",
+  "Deneb",
+  "Eltanin",
+  "Fomalhaut",
+  "Gienah",
+  "Hadar",
+  "Izar",
+  "Kochab",
+  "Lesath",
+  "Markab",
+  "Nashira",
+  "Okul",
+  "Phecda",
+  "Rasalas",
+  "Sabik",
+  "Tureis",
+  "Unuk",
+  "Vega",
+  "Wezen",
+  "Zaniah",
+];
+
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII"];
+
+const rollResources = (random: Random, type: BodyType): Resources => {
+  const profile = BODY_RESOURCE_PROFILES[type];
+  const roll = ([min, max]: [number, number]) =>
+    min === max ? min : Math.round(random.range(min, max));
+  return {
+    energy: roll(profile.energy),
+    metal: roll(profile.metal),
+    silicon: roll(profile.silicon),
+    hydrogen: roll(profile.hydrogen),
+    rare_elements: roll(profile.rare_elements),
+  };
+};
+
+// Place a point on a (mostly flat) orbit of the given radius in AU
+const orbitalPosition = (
+  random: Random,
+  orbitAu: number,
+  origin: Position = { x: 0, y: 0, z: 0 },
+): Position => {
+  const angle = random.range(0, Math.PI * 2);
+  const r = orbitAu * AU_IN_MILLION_KM;
+  return {
+    x: Math.round(origin.x + r * Math.cos(angle)),
+    y: Math.round(origin.y + r * Math.sin(angle)),
+    z: Math.round(origin.z + random.range(-0.02, 0.02) * r),
+  };
+};
+
+const createBody = (
+  random: Random,
+  seed: number,
+  systemIndex: number,
+  bodyIndex: number,
+  type: Exclude<BodyType, "star">,
+  name: string,
+  position: Position,
+  orbitsBodyId?: string,
+): CelestialBody => {
+  const physical = BODY_PHYSICAL_PROFILES[type];
+  const resources = rollResources(random, type);
+  return {
+    id: deterministicId(seed, "body", systemIndex, bodyIndex),
+    name,
+    type,
+    position,
+    resources,
+    initialResources: { ...resources },
+    mass: random.range(physical.mass[0], physical.mass[1]),
+    radius: Math.round(random.range(physical.radius[0], physical.radius[1])),
+    ...(orbitsBodyId ? { orbitsBodyId } : {}),
+  };
+};
+
+const generateSystem = (
+  random: Random,
+  config: GalaxyConfig,
+  systemIndex: number,
+  name: string,
+  position: Position,
+  starClass: z.infer<typeof StarClass>,
+): SolarSystem => {
+  const isHome = systemIndex === 0;
+  const stellar = STAR_CLASS_PROPERTIES[starClass];
+  const starResources = rollResources(random, "star");
+  const star: CelestialBody = {
+    id: deterministicId(config.seed, "star", systemIndex),
+    name: `${name} A`,
+    type: "star",
+    position: { x: 0, y: 0, z: 0 },
+    resources: starResources,
+    initialResources: { ...starResources },
+    mass: stellar.mass * SOLAR_MASS_KG,
+    radius: stellar.radius,
+  };
+
+  // Habitable zone and frost line scale with the square root of luminosity
+  const luminosityScale = Math.sqrt(stellar.luminosity);
+  const frostLineAu = 2.7 * luminosityScale;
+  const [minPlanets, maxPlanets] = stellar.planetCount;
+  const planetCount = isHome
+    ? Math.max(2, random.int(minPlanets, maxPlanets))
+    : random.int(minPlanets, maxPlanets);
+  const hasBelt = isHome || random.chance(0.6);
+
+  const bodies: CelestialBody[] = [];
+  let bodyIndex = 0;
+  let planetNumber = 0;
+  let orbitAu = random.range(0.3, 0.7) * luminosityScale;
+  let beltPlaced = false;
+
+  for (let i = 0; i < planetCount; i++) {
+    // Drop the belt in at the frost line, between rocky and giant planets
+    if (hasBelt && !beltPlaced && orbitAu >= frostLineAu) {
+      bodies.push(
+        createBody(
+          random,
+          config.seed,
+          systemIndex,
+          bodyIndex++,
+          "asteroid_belt",
+          `${name} Asteroid Belt`,
+          orbitalPosition(random, orbitAu),
+        ),
+      );
+      beltPlaced = true;
+      orbitAu *= random.range(1.4, 1.8);
+    }
+
+    const type =
+      orbitAu < frostLineAu || (isHome && planetNumber < 2)
+        ? "planet"
+        : random.chance(0.75)
+          ? "gas_giant"
+          : "planet";
+    const planetName = `${name} ${ROMAN_NUMERALS[planetNumber++] ?? planetNumber}`;
+    const planet = createBody(
+      random,
+      config.seed,
+      systemIndex,
+      bodyIndex++,
+      type,
+      planetName,
+      orbitalPosition(random, orbitAu),
+    );
+    bodies.push(planet);
+
+    const moonCount =
+      type === "gas_giant" ? random.int(1, 4) : random.int(0, 2);
+    for (let m = 0; m < moonCount; m++) {
+      bodies.push(
+        createBody(
+          random,
+          config.seed,
+          systemIndex,
+          bodyIndex++,
+          "moon",
+          `${planetName}${String.fromCharCode(97 + m)}`,
+          orbitalPosition(random, random.range(0.002, 0.012), planet.position),
+          planet.id,
+        ),
+      );
+    }
+
+    orbitAu *= random.range(1.4, 2.0);
+  }
+
+  if (hasBelt && !beltPlaced) {
+    bodies.push(
+      createBody(
+        random,
+        config.seed,
+        systemIndex,
+        bodyIndex++,
+        "asteroid_belt",
+        `${name} Asteroid Belt`,
+        orbitalPosition(random, Math.max(orbitAu, frostLineAu)),
+      ),
+    );
+  }
+
+  // A few stray asteroids scattered through the system, and at least one
+  // where no planet or belt formed: every system has a body to orbit
+  const strayCount = random.int(bodies.length === 0 ? 1 : 0, 2);
+  for (let a = 0; a < strayCount; a++) {
+    bodies.push(
+      createBody(
+        random,
+        config.seed,
+        systemIndex,
+        bodyIndex++,
+        "asteroid",
+        `${name} Asteroid ${a + 1}`,
+        orbitalPosition(random, random.range(0.5, 6) * luminosityScale),
+      ),
+    );
+  }
+
+  return {
+    id: deterministicId(config.seed, "system", systemIndex),
+    name,
+    position,
+    starClass,
+    star,
+    bodies,
+  };
+};
+
+// Galactic position in a thin disc, keeping a minimum distance between systems
+const placeSystem = (
+  random: Random,
+  config: GalaxyConfig,
+  placed: Position[],
+): Position => {
+  let candidate: Position = { x: 0, y: 0, z: 0 };
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const angle = random.range(0, Math.PI * 2);
+    const r = config.radius * Math.sqrt(random.next());
+    candidate = {
+      x: Number((r * Math.cos(angle)).toFixed(2)),
+      y: Number((r * Math.sin(angle)).toFixed(2)),
+      z: Number((random.range(-0.05, 0.05) * config.radius).toFixed(2)),
+    };
+    const tooClose = placed.some(
+      (p) =>
+        Math.hypot(p.x - candidate.x, p.y - candidate.y, p.z - candidate.z) <
+        config.minSystemSeparation,
+    );
+    if (!tooClose) break;
+  }
+  return candidate;
+};
+
+const GREEK_SUFFIXES = ["Beta", "Gamma", "Delta", "Epsilon", "Zeta", "Eta"];
+
+const systemName = (random: Random, used: Set<string>): string => {
+  const root = random.pick(SYSTEM_NAME_ROOTS);
+  let name = root;
+  for (let n = 0; used.has(name); n++) {
+    name = `${root} ${GREEK_SUFFIXES[n] ?? n + 2}`;
+  }
+  used.add(name);
+  return name;
+};
+
+// Generate a galaxy from a seed. Identical configs produce identical galaxies,
+// down to body ids. The first system is always the G-class home system at the
+// galactic origin.
+export const generateGalaxy = (input: z.input<typeof GalaxyConfigSchema>) => {
+  const config = GalaxyConfigSchema.parse(input);
+  const random = createRandom(config.seed);
+
+  const usedNames = new Set<string>([config.homeSystemName]);
+  const positions: Position[] = [];
+  const systems: SolarSystem[] = [];
+
+  for (let i = 0; i < config.systemCount; i++) {
+    const isHome = i === 0;
+    const position = isHome
+      ? { x: 0, y: 0, z: 0 }
+      : placeSystem(random, config, positions);
+    positions.push(position);
+
+    const starClass = isHome
+      ? "G"
+      : random.weighted(config.starClassDistribution);
+    const name = isHome ? config.homeSystemName : systemName(random, usedNames);
+
+    systems.push(generateSystem(random, config, i, name, position, starClass));
+  }
+
+  return { config, systems, homeSystem: systems[0] };
+};
+
+// Galaxy parameters from the environment, falling back to schema defaults
+export const loadGalaxyConfig = (
+  overrides: Partial<GalaxyConfig> = {},
+): GalaxyConfig =>
+  GalaxyConfigSchema.parse({
+    seed: process.env.GALAXY_SEED ? Number(process.env.GALAXY_SEED) : 42,
+    systemCount: process.env.GALAXY_SYSTEMS
+      ? Number(process.env.GALAXY_SYSTEMS)
+      : undefined,
+    radius: process.env.GALAXY_RADIUS
+      ? Number(process.env.GALAXY_RADIUS)
+      : undefined,
+    ...overrides,
+  });
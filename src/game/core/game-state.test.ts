@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createEngine } from "@/game/engine/engine";
+import { gameState } from "./game-state";
+import { GameState } from "./types";
+
+const plain = (state: GameState) => JSON.parse(JSON.stringify(state));
+
+describe("game clock", () => {
+  it("stamps everything with ticks, not wall time", async () => {
+    gameState.resetGameState({ seed: 5 });
+    await createEngine().run(10);
+
+    const { clock, probes } = gameState.getState();
+    expect(clock.tick).toBe(10);
+    expect(clock.gameYear).toBeCloseTo(10 * clock.yearsPerTick);
+
+    const stamps = Object.values(probes).flatMap((probe) => [
+      probe.createdAt,
+      ...probe.memory.experiences.map((e) => e.timestamp),
+    ]);
+    expect(stamps.length).toBeGreaterThan(1);
+    stamps.forEach((stamp) => expect(stamp).toBeLessThanOrEqual(10));
+  });
+
+  it("plays the same game twice from the same seed", async () => {
+    const play = async () => {
+      gameState.resetGameState({ seed: 5 });
+      await createEngine().run(25);
+      return plain(gameState.getState());
+    };
+    expect(await play()).toEqual(await play());
+  });
+});
@@ -1,29 +1,100 @@
 import {
+  AU_IN_MILLION_KM,
+  AU_PER_LIGHT_YEAR,
+  BASE_PROBE_CAPABILITIES,
+  CelestialBody,
+  ENERGY,
+  CAPABILITY_UPGRADES,
+  CapabilityNameType,
+  DiscoveredResource,
+  GalaxyConfig,
+  KnowledgeSourceType,
+  ManufacturingJob,
+  GAME_YEARS_PER_TICK,
+  GameClock,
   GameState,
+  GameStateSchema,
+  HARVEST_DEPLETION_FLOOR,
+  HARVEST_YIELDS,
+  HULL,
+  IN_SYSTEM_TRAVEL,
+  INTERSTELLAR_TRAVEL,
+  Message,
   Probe,
+  PROBE_REPLICATION_COST,
+  ProbeCapabilities,
+  ProbePolicyName,
+  ProbeStatusType,
   SolarSystem,
+  STAR_CLASS_PROPERTIES,
+  Structure,
+  StructureTypeName,
   Position,
+  ProductionCost,
+  REFINING_RECIPES,
+  RefiningRecipeNameType,
+  RefinedGoods,
   Resources,
+  ResourceType,
+  ResourceTypeName,
 } from "@/game/core/types";
-import { v4 as uuidv4 } from "uuid";
-import * as fs from "fs";
-import * as path from "path";
+import { generateGalaxy, loadGalaxyConfig } from "@/game/core/galaxy-generator";
+import { loadMutationConfig } from "@/game/core/mutation";
+import { deterministicId } from "@/utils/random";
 import { logger } from "@/utils/logger";
-
-const GAME_STATE_FILE = path.join(process.cwd(), "game-state.json");
-
-// Singleton game state manager with persistent storage
+import * as fs from "fs";
+import {
+  createStateStore,
+  hasChanges,
+  noChanges,
+  StateChanges,
+  StateStore,
+} from "@/game/core/state-store";
+import {
+  applyEvent,
+  GameEvent,
+  NewGameEvent,
+  ProbeChangeTypeName,
+  probeChanges,
+  toPatch,
+} from "@/game/core/events";
+import { writeSlot } from "@/game/core/save-slots";
+import {
+  appendEvents,
+  EventLogDetailName,
+  eventLogPath,
+  lastEventSeq,
+} from "@/game/core/event-log";
+
+// Singleton game state manager with persistent storage. Every change is a
+// domain event applied to the state in memory; on commit, at the end of each
+// tick or task, the events go to the event log and the changed records to
+// the store.
 class GameStateManager {
   private static instance: GameStateManager;
   private state: GameState;
   private instanceId: string;
+  private store: StateStore;
+  private changes: StateChanges = noChanges();
+  private eventLog = eventLogPath();
+  private eventSeq: number;
+  private pendingEvents: GameEvent[] = [];
+  private eventLogDetail: EventLogDetailName = "full";
+  // Events applied but left out of the log since the last save
+  private unloggedEvents = false;
+  // Batch runs turn off committing and save at their checkpoints instead
+  private autosave = true;
 
   private constructor() {
     this.instanceId = `GS-${Date.now()}`;
     logger.debug(
       `🎮 [DEBUG] Creating GameStateManager instance: ${this.instanceId}`,
     );
+    this.store = createStateStore();
+    this.eventSeq = this.eventLog ? lastEventSeq(this.eventLog) : 0;
     this.state = this.loadOrInitializeGameState();
+    // Don't lose changes made since the last commit when a script ends
+    process.once("exit", () => this.commit());
   }
 
   static getInstance(): GameStateManager {
@@ -34,119 +105,161 @@ class GameStateManager {
   }
 
   private loadOrInitializeGameState(): GameState {
-    // Try to load existing state from file
-    if (fs.existsSync(GAME_STATE_FILE)) {
-      try {
-        logger.info(`📁 Loading existing game state from ${GAME_STATE_FILE}`);
-        const savedState = JSON.parse(fs.readFileSync(GAME_STATE_FILE, "utf8"));
+    // Try to load existing state from the store
+    try {
+      const saved = this.store.load();
+      if (saved) {
+        logger.info(
+          `📁 Loading existing game state from ${this.store.location}`,
+        );
+        // Parsing fills in defaults for fields added since the state was saved
+        const savedState = GameStateSchema.parse(saved);
         logger.info(
           `✅ Loaded game state with ${Object.keys(savedState.probes).length} probes`,
         );
-        Object.values(savedState.probes).forEach((probe: any) => {
+        Object.values(savedState.probes).forEach((probe) => {
           logger.info(
             `  - ${probe.name} (${probe.id.slice(0, 8)}...) Gen ${probe.generation}`,
           );
         });
+        // A log has to start from a whole state to be folded
+        if (this.eventLog && this.eventSeq === 0) {
+          this.replaceState(savedState, "GameRestored");
+          return this.state;
+        }
         return savedState;
-      } catch (error) {
-        logger.error({ error }, `❌ Failed to load game state`);
-        logger.info(`🆕 Creating new game state...`);
       }
-    } else {
       logger.info(`🆕 No existing game state found, creating new one...`);
+    } catch (error) {
+      logger.error({ error }, `❌ Failed to load game state`);
+      logger.info(`🆕 Creating new game state...`);
     }
 
     return this.initializeGameState();
   }
 
-  private saveGameState(): void {
+  setAutosave(enabled: boolean): void {
+    this.autosave = enabled;
+  }
+
+  setEventLogDetail(detail: EventLogDetailName): void {
+    this.eventLogDetail = detail;
+  }
+
+  // Write what changed since the last commit, unless a batch has taken over
+  // saving
+  commit(): void {
+    if (this.autosave) this.saveNow();
+  }
+
+  // The log is written first: it is the record the state is folded from
+  saveNow(): void {
     try {
-      fs.writeFileSync(GAME_STATE_FILE, JSON.stringify(this.state, null, 2));
+      // Without the events in between, the log needs the state as it is now
+      // to go on folding from
+      if (this.unloggedEvents) {
+        this.pendingEvents.push({
+          type: "GameRestored",
+          seq: ++this.eventSeq,
+          tick: this.state.clock.tick,
+          state: this.state,
+        });
+        this.unloggedEvents = false;
+      }
+      if (this.eventLog) appendEvents(this.eventLog, this.pendingEvents);
+      this.pendingEvents = [];
+      if (!hasChanges(this.changes)) return;
+      this.store.commit(this.state, this.changes);
+      this.changes = noChanges();
       logger.debug(
-        `💾 [DEBUG] Game state saved to ${GAME_STATE_FILE} (Instance: ${this.instanceId})`,
+        `💾 [DEBUG] Game state saved to ${this.store.location} (Instance: ${this.instanceId})`,
       );
     } catch (error) {
       logger.error({ error }, `❌ Failed to save game state`);
     }
   }
 
-  private initializeGameState(): GameState {
-    const firstSystemId = uuidv4();
-    const firstProbeId = uuidv4();
+  // Apply an event to the live state and queue it for the log. Every change
+  // to the game state goes through here.
+  private emit(newEvent: NewGameEvent): void {
+    const event = { ...newEvent, seq: ++this.eventSeq, tick: 0 } as GameEvent;
+    this.state = applyEvent(this.state, event);
+    event.tick = this.state.clock.tick;
+    this.track(event);
+    if (this.eventLogDetail === "full") this.pendingEvents.push(event);
+    else this.unloggedEvents = true;
+  }
+
+  // Note which records an event touched, for the next store commit
+  private track(event: GameEvent): void {
+    const { records, sections } = this.changes;
+    switch (event.type) {
+      case "GameStarted":
+      case "GameRestored":
+        this.changes = { ...noChanges(), replaced: true };
+        return;
+      case "ClockAdvanced":
+        sections.add("clock");
+        return;
+      case "ProbeManufactured":
+        records.probes.add(event.probe.id);
+        return;
+      case "BodyMined":
+      case "BodyDepleted":
+      case "SystemDiscovered":
+        records.solarSystems.add(event.systemId);
+        return;
+      case "StructureCompleted":
+        records.structures.add(event.structure.id);
+        return;
+      case "StructureStockChanged":
+      case "StructureRemoved":
+        records.structures.add(event.structureId);
+        return;
+      case "MessageQueued":
+      case "MessagesDelivered":
+        sections.add("inboxes");
+        return;
+      default:
+        records.probes.add(event.probeId);
+    }
+  }
+
+  // The whole state was swapped out; write all of it straight away
+  private replaceState(
+    state: GameState,
+    type: "GameStarted" | "GameRestored",
+  ): void {
+    this.emit({ type, state });
+    this.saveNow();
+  }
+
+  private initializeGameState(
+    galaxyOverrides: Partial<GalaxyConfig> = {},
+  ): GameState {
+    const galaxy = generateGalaxy(loadGalaxyConfig(galaxyOverrides));
+    const firstProbeId = deterministicId(
+      galaxy.config.seed,
+      "probe",
+      "genesis",
+    );
+    const firstSystemId = galaxy.homeSystem.id;
+    const startingBody =
+      galaxy.homeSystem.bodies.find((b) => b.type === "planet") ??
+      galaxy.homeSystem.bodies[0];
 
     logger.info(
       `🚀 Initializing new game with probe ${firstProbeId.slice(0, 8)}...`,
     );
+    logger.info(
+      `🌌 Generated galaxy (seed ${galaxy.config.seed}): ${galaxy.systems.length} systems within ${galaxy.config.radius} ly`,
+    );
 
-    // Create the first solar system
+    // The home system is the only one charted at the start
     const firstSystem: SolarSystem = {
-      id: firstSystemId,
-      name: "Sol Prime",
-      position: { x: 0, y: 0, z: 0 },
-      star: {
-        id: uuidv4(),
-        name: "Sol Prime A",
-        type: "star",
-        position: { x: 0, y: 0, z: 0 },
-        resources: {
-          energy: 999999,
-          metal: 0,
-          silicon: 0,
-          hydrogen: 999999,
-          rare_elements: 0,
-        },
-        mass: 1.989e30,
-        radius: 695700,
-      },
-      bodies: [
-        {
-          id: uuidv4(),
-          name: "Sol Prime I",
-          type: "planet",
-          position: { x: 150, y: 0, z: 0 }, // 1 AU = 150 million km
-          resources: {
-            energy: 2000, // Added energy resources for harvesting
-            metal: 5000,
-            silicon: 3000,
-            hydrogen: 1000, // Increased hydrogen
-            rare_elements: 200,
-          },
-          mass: 5.972e24,
-          radius: 6371,
-        },
-        {
-          id: uuidv4(),
-          name: "Sol Prime II",
-          type: "planet",
-          position: { x: 230, y: 0, z: 0 },
-          resources: {
-            energy: 1500, // Added energy resources for harvesting
-            metal: 3000,
-            silicon: 6000,
-            hydrogen: 800, // Increased hydrogen
-            rare_elements: 100,
-          },
-          mass: 6.39e23,
-          radius: 3389,
-        },
-        {
-          id: uuidv4(),
-          name: "Sol Prime Asteroid Belt",
-          type: "asteroid_belt",
-          position: { x: 400, y: 0, z: 0 },
-          resources: {
-            energy: 0,
-            metal: 20000,
-            silicon: 15000,
-            hydrogen: 0,
-            rare_elements: 1000,
-          },
-          mass: 2.39e21,
-          radius: 50000,
-        },
-      ],
+      ...galaxy.homeSystem,
       discoveredBy: firstProbeId,
-      discoveredAt: Date.now(),
+      discoveredAt: 0,
     };
 
     // Create the first probe
@@ -154,7 +267,7 @@ class GameStateManager {
       id: firstProbeId,
       name: "Genesis",
       status: "active",
-      position: { x: 150, y: 0, z: 0 }, // Starting on first planet
+      position: { ...startingBody.position }, // Starting on first planet
       currentSystemId: firstSystemId,
       resources: {
         energy: 1000,
@@ -166,40 +279,53 @@ class GameStateManager {
       memory: {
         visitedSystems: [firstSystemId],
         discoveredResources: {
-          [firstSystemId]: firstSystem.bodies[0].resources,
+          [startingBody.id]: {
+            resources: startingBody.resources,
+            scannedAt: 0,
+            scannedBy: firstProbeId,
+            source: "scan",
+          },
         },
         knownProbes: [],
         experiences: [
           {
-            timestamp: Date.now(),
+            timestamp: 0,
             event: "probe_awakened",
-            data: { location: "Sol Prime I" },
+            data: { location: startingBody.name },
           },
         ],
       },
-      capabilities: {
-        maxSpeed: 0.1,
-        harvestRate: 10,
-        sensorRange: 50,
-        communicationRange: 100,
-        storageCapacity: 5000,
-      },
+      refinedGoods: { components: 0, electronics: 0 },
+      capabilities: { ...BASE_PROBE_CAPABILITIES },
+      capabilityLevels: {},
+      hullIntegrity: HULL.max,
+      zeroEnergyTicks: 0,
+      messagesSent: 0,
+      policy: ProbePolicyName.catch("llm").parse(process.env.PROBE_POLICY),
       generation: 0,
-      createdAt: Date.now(),
+      createdAt: 0,
     };
 
-    const newState = {
-      currentTime: Date.now(),
+    const solarSystems: Record<string, SolarSystem> = {};
+    galaxy.systems.forEach((system) => {
+      solarSystems[system.id] =
+        system.id === firstSystemId ? firstSystem : system;
+    });
+
+    const newState: GameState = {
+      clock: { tick: 0, gameYear: 0, yearsPerTick: GAME_YEARS_PER_TICK },
       probes: { [firstProbeId]: firstProbe },
-      solarSystems: { [firstSystemId]: firstSystem },
-      gameStartedAt: Date.now(),
+      solarSystems,
+      galaxy: galaxy.config,
+      mutation: loadMutationConfig(),
+      inboxes: {},
+      structures: {},
     };
 
     // Save the initial state
-    this.state = newState;
-    this.saveGameState();
+    this.replaceState(newState, "GameStarted");
 
-    return newState;
+    return this.state;
   }
 
   getState(): GameState {
@@ -221,11 +347,18 @@ class GameStateManager {
     return probe;
   }
 
-  updateProbe(probeId: string, updates: Partial<Probe>): void {
+  // `type` says what happened to the probe, for the event log
+  updateProbe(
+    probeId: string,
+    updates: Partial<Probe>,
+    type: ProbeChangeTypeName,
+  ): void {
     const probe = this.state.probes[probeId];
     if (probe) {
-      this.state.probes[probeId] = { ...probe, ...updates };
-      this.saveGameState();
+      const { changes, memory } = probeChanges(probe, updates);
+      // An update that changes nothing isn't an event
+      if (Object.keys(changes).length === 0 && !memory) return;
+      this.emit({ type, probeId, changes, ...(memory && { memory }) });
       logger.debug(
         `🔄 [DEBUG] Updated probe ${probeId.slice(0, 8)}... (Instance: ${this.instanceId})`,
       );
@@ -236,9 +369,19 @@ class GameStateManager {
     }
   }
 
+  // Offspring ids derive from the galaxy seed, parent, tick and name, so a
+  // replayed run hands out the same ids
+  createProbeId(parentId: string, name: string): string {
+    const seed = this.state.galaxy?.seed ?? 0;
+    let id = deterministicId(seed, "probe", parentId, this.now(), name);
+    for (let n = 1; this.state.probes[id]; n++) {
+      id = deterministicId(seed, "probe", parentId, this.now(), name, n);
+    }
+    return id;
+  }
+
   addProbe(probe: Probe): void {
-    this.state.probes[probe.id] = probe;
-    this.saveGameState();
+    this.emit({ type: "ProbeManufactured", probe });
     logger.debug(
       `➕ [DEBUG] Added probe ${probe.name} (${probe.id.slice(0, 8)}...) (Instance: ${this.instanceId})`,
     );
@@ -248,14 +391,159 @@ class GameStateManager {
     return this.state.solarSystems[systemId];
   }
 
-  addSolarSystem(system: SolarSystem): void {
-    this.state.solarSystems[system.id] = system;
-    this.saveGameState();
+  // Take resources out of a body on behalf of a probe or structure, noting
+  // any resource the body runs out of
+  mineBody(
+    systemId: string,
+    bodyId: string,
+    mined: Resources,
+    minedBy: string,
+  ): void {
+    const body = this.getSolarSystem(systemId)?.bodies.find(
+      (b) => b.id === bodyId,
+    );
+    if (!body) return;
+
+    const resources = this.subtractResources(body.resources, mined);
+    this.emit({
+      type: "BodyMined",
+      systemId,
+      bodyId,
+      minedBy,
+      // The starting amounts are recorded the first time a body is mined
+      changes: body.initialResources
+        ? { resources }
+        : { initialResources: body.resources, resources },
+    });
+
+    const depleted = ResourceType.options.filter(
+      (resource) => body.resources[resource] > 0 && resources[resource] <= 0,
+    );
+    if (depleted.length > 0) {
+      this.emit({
+        type: "BodyDepleted",
+        systemId,
+        bodyId,
+        minedBy,
+        resources: depleted,
+      });
+    }
+  }
+
+  // First arrival in a system gets credit for discovering it
+  discoverSystem(systemId: string, probeId: string): void {
+    this.emit({ type: "SystemDiscovered", systemId, probeId });
+  }
+
+  getStructure(structureId: string): Structure | undefined {
+    return this.state.structures[structureId];
   }
 
-  updateTime(newTime: number): void {
-    this.state.currentTime = newTime;
-    this.saveGameState();
+  getAllStructures(): Structure[] {
+    return Object.values(this.state.structures);
+  }
+
+  addStructure(structure: Structure): void {
+    this.emit({ type: "StructureCompleted", structure });
+  }
+
+  updateStructure(structureId: string, updates: Partial<Structure>): void {
+    if (!this.state.structures[structureId]) return;
+    this.emit({
+      type: "StructureStockChanged",
+      structureId,
+      changes: toPatch(updates),
+    });
+  }
+
+  removeStructure(structureId: string): void {
+    this.emit({ type: "StructureRemoved", structureId });
+  }
+
+  // Structure ids derive from the galaxy seed, builder, tick and type
+  createStructureId(builderId: string, type: StructureTypeName): string {
+    const seed = this.state.galaxy?.seed ?? 0;
+    let id = deterministicId(seed, "structure", builderId, this.now(), type);
+    for (let n = 1; this.state.structures[id]; n++) {
+      id = deterministicId(seed, "structure", builderId, this.now(), type, n);
+    }
+    return id;
+  }
+
+  // Two probes can always reach each other when both sit in systems with a
+  // communications relay, however far apart they are
+  relayLinked(a: Probe, b: Probe): boolean {
+    const hasRelay = (probe: Probe) =>
+      probe.trajectory?.kind !== "interstellar" &&
+      this.getAllStructures().some(
+        (s) =>
+          s.type === "communications_relay" &&
+          s.systemId === probe.currentSystemId,
+      );
+    return hasRelay(a) && hasRelay(b);
+  }
+
+  // Probes crossing interstellar space are out of touch until they arrive,
+  // and wrecks never answer
+  inContact(probe: Probe): boolean {
+    return (
+      probe.status !== "destroyed" && probe.trajectory?.kind !== "interstellar"
+    );
+  }
+
+  // Whether a message from `sender` reaches `recipient`: within the
+  // sender's communication range, or carried by relays at both ends
+  canMessage(sender: Probe, recipient: Probe): boolean {
+    return (
+      this.calculateProbeSeparation(sender, recipient) <=
+        this.getEffectiveCapabilities(sender).communicationRange ||
+      this.relayLinked(sender, recipient)
+    );
+  }
+
+  getClock(): GameClock {
+    return this.state.clock;
+  }
+
+  getCurrentTick(): number {
+    return this.state.clock.tick;
+  }
+
+  // Current game time, used for every timestamp in the state
+  now(): number {
+    return this.state.clock.tick;
+  }
+
+  // Called exactly once at the start of every simulation tick
+  advanceClock(): GameClock {
+    const { tick, yearsPerTick } = this.state.clock;
+    this.emit({
+      type: "ClockAdvanced",
+      clock: {
+        ...this.state.clock,
+        tick: tick + 1,
+        gameYear: (tick + 1) * yearsPerTick,
+      },
+    });
+    return this.state.clock;
+  }
+
+  getInbox(probeId: string): Message[] {
+    return this.state.inboxes[probeId] ?? [];
+  }
+
+  // Queue a message in its recipient's inbox, dropping the oldest overflow
+  addMessage(message: Message): void {
+    this.emit({ type: "MessageQueued", message });
+  }
+
+  // Mark messages in a probe's inbox as delivered
+  updateMessages(probeId: string, update: (message: Message) => Message): void {
+    this.emit({
+      type: "MessagesDelivered",
+      probeId,
+      inbox: this.getInbox(probeId).map(update),
+    });
   }
 
   getAllProbes(): Probe[] {
@@ -273,13 +561,35 @@ class GameStateManager {
     return Object.values(this.state.solarSystems);
   }
 
-  // Utility method to reset game state (for testing)
-  resetGameState(): void {
-    if (fs.existsSync(GAME_STATE_FILE)) {
-      fs.unlinkSync(GAME_STATE_FILE);
-      logger.info(`🗑️  Deleted game state file`);
+  getDiscoveredSystems(): SolarSystem[] {
+    return this.getAllSystems().filter((s) => s.discoveredBy !== undefined);
+  }
+
+  // Utility method to reset game state (for testing). Galaxy overrides such
+  // as { seed: 7 } regenerate the map; anything unset comes from the env.
+  // A new game also starts a new event log; the game it replaces is kept in
+  // a backup save slot.
+  resetGameState(galaxyOverrides: Partial<GalaxyConfig> = {}): void {
+    if (Object.keys(this.state.probes).length > 0) {
+      const backup = writeSlot(`backup-${Date.now()}`, this.state, "backup");
+      logger.info(
+        `💾 Kept the previous game (tick ${backup.tick}) in save slot ${backup.name}`,
+      );
+    }
+    this.store.clear();
+    logger.info(`🗑️  Cleared game state in ${this.store.location}`);
+    if (this.eventLog && fs.existsSync(this.eventLog)) {
+      fs.unlinkSync(this.eventLog);
     }
-    this.state = this.initializeGameState();
+    this.eventSeq = 0;
+    this.pendingEvents = [];
+    this.state = this.initializeGameState(galaxyOverrides);
+  }
+
+  // Replace the whole state, e.g. with the starting point of a recorded run
+  // or a tick rebuilt from the event log
+  restoreGameState(state: GameState): void {
+    this.replaceState(GameStateSchema.parse(state), "GameRestored");
   }
 
   // Utility methods
@@ -290,31 +600,369 @@ class GameStateManager {
         Math.pow(pos2.z - pos1.z, 2),
     );
     // Convert from millions of km to AU (1 AU = 150 million km)
-    return distanceInKm / 150;
+    return distanceInKm / AU_IN_MILLION_KM;
+  }
+
+  // Distance between two solar systems in light-years
+  calculateInterstellarDistance(from: SolarSystem, to: SolarSystem): number {
+    return Math.sqrt(
+      Math.pow(to.position.x - from.position.x, 2) +
+        Math.pow(to.position.y - from.position.y, 2) +
+        Math.pow(to.position.z - from.position.z, 2),
+    );
+  }
+
+  // Separation of two probes in AU, whether or not they share a system
+  calculateProbeSeparation(a: Probe, b: Probe): number {
+    if (a.currentSystemId === b.currentSystemId) {
+      return this.calculateDistance(a.position, b.position);
+    }
+    const from = this.getSolarSystem(a.currentSystemId);
+    const to = this.getSolarSystem(b.currentSystemId);
+    if (!from || !to) return Infinity;
+    return this.calculateInterstellarDistance(from, to) * AU_PER_LIGHT_YEAR;
   }
 
-  canAffordResources(available: Resources, cost: Resources): boolean {
+  // Ticks for light to cross a distance in AU; never less than one tick
+  lightDelayTicks(distanceAu: number): number {
+    const years = distanceAu / AU_PER_LIGHT_YEAR;
+    return Math.max(1, Math.ceil(years / this.state.clock.yearsPerTick));
+  }
+
+  // Energy and flight time for a probe to reach a point in its own system
+  planInSystemTrip(
+    probe: Probe,
+    destination: Position,
+  ): { distance: number; energyCost: number; travelTicks: number } {
+    const distance = this.calculateDistance(probe.position, destination);
+    return {
+      distance,
+      energyCost: Math.ceil(distance * IN_SYSTEM_TRAVEL.energyPerAu),
+      travelTicks: Math.max(
+        1,
+        Math.ceil(
+          distance /
+            (this.getEffectiveCapabilities(probe).maxSpeed *
+              IN_SYSTEM_TRAVEL.auPerTick),
+        ),
+      ),
+    };
+  }
+
+  // Fuel and flight time for a probe to cross between two systems
+  planInterstellarTrip(
+    probe: Probe,
+    from: SolarSystem,
+    to: SolarSystem,
+  ): {
+    distance: number;
+    energyCost: number;
+    hydrogenCost: number;
+    travelTicks: number;
+  } {
+    const distance = this.calculateInterstellarDistance(from, to);
+    return {
+      distance,
+      energyCost: Math.ceil(distance * INTERSTELLAR_TRAVEL.energyPerLightYear),
+      hydrogenCost: Math.ceil(
+        distance * INTERSTELLAR_TRAVEL.hydrogenPerLightYear,
+      ),
+      travelTicks: Math.max(
+        1,
+        Math.ceil(
+          distance /
+            (this.getEffectiveCapabilities(probe).maxSpeed *
+              INTERSTELLAR_TRAVEL.lightYearsPerTick),
+        ),
+      ),
+    };
+  }
+
+  // Capabilities as they currently work: a damaged probe runs at reduced
+  // speed, harvest and refining rates and ranges. Storage is unaffected.
+  getEffectiveCapabilities(probe: Probe): ProbeCapabilities {
+    if (probe.hullIntegrity >= HULL.damagedThreshold) return probe.capabilities;
+    const factor = HULL.damagedCapabilityFactor;
+    return {
+      ...probe.capabilities,
+      maxSpeed: probe.capabilities.maxSpeed * factor,
+      harvestRate: probe.capabilities.harvestRate * factor,
+      sensorRange: probe.capabilities.sensorRange * factor,
+      communicationRange: probe.capabilities.communicationRange * factor,
+      refiningRate: probe.capabilities.refiningRate * factor,
+    };
+  }
+
+  // Energy a probe's panels collect this tick where it is now
+  solarIncome(probe: Probe): number {
+    if (probe.trajectory?.kind === "interstellar") return 0;
+    const system = this.getSolarSystem(probe.currentSystemId);
+    if (!system) return 0;
+    return this.solarIncomeAt(system, probe.position);
+  }
+
+  // Solar energy per tick a probe's panels would collect at a position
+  solarIncomeAt(system: SolarSystem, position: Position): number {
+    const distance = Math.max(
+      ENERGY.minStarDistanceAu,
+      this.calculateDistance(position, system.star.position),
+    );
+    const { luminosity } = STAR_CLASS_PROPERTIES[system.starClass ?? "G"];
+    return Math.min(
+      ENERGY.maxSolarIncome,
+      Math.floor((ENERGY.solarAt1Au * luminosity) / (distance * distance)),
+    );
+  }
+
+  // Energy a probe burns per tick just to keep its systems running
+  upkeep(probe: Probe): number {
+    const running = (
+      Object.keys(ENERGY.upkeepWeights) as (keyof typeof ENERGY.upkeepWeights)[]
+    ).reduce(
+      (sum, capability) =>
+        sum +
+        ENERGY.upkeepWeights[capability] *
+          (probe.capabilities[capability] /
+            BASE_PROBE_CAPABILITIES[capability]),
+      ENERGY.baseUpkeep,
+    );
+    const factor =
+      probe.status === "hibernating" ? ENERGY.hibernationUpkeepFactor : 1;
+    return Math.ceil(running * factor);
+  }
+
+  // The status a probe settles into when it isn't busy with anything
+  idleStatus(hullIntegrity: number): ProbeStatusType {
+    if (hullIntegrity <= 0) return "destroyed";
+    return hullIntegrity < HULL.damagedThreshold ? "damaged" : "active";
+  }
+
+  // The status a probe returns to after a hull change: back at work on a
+  // running manufacturing job, otherwise idle
+  resumedStatus(probe: Probe, hullIntegrity: number): ProbeStatusType {
+    const job = probe.manufacturingJob;
+    if (hullIntegrity > 0 && job && !job.paused) return "manufacturing";
+    return this.idleStatus(hullIntegrity);
+  }
+
+  // Metal and silicon needed to restore `points` of hull integrity
+  repairCost(points: number): Resources {
+    return {
+      energy: 0,
+      metal: Math.ceil(points * HULL.repairCostPerPoint.metal),
+      silicon: Math.ceil(points * HULL.repairCostPerPoint.silicon),
+      hydrogen: 0,
+      rare_elements: 0,
+    };
+  }
+
+  // The next upgrade level of a capability, or undefined once it is maxed out
+  planCapabilityUpgrade(
+    probe: Probe,
+    capability: CapabilityNameType,
+  ):
+    | { level: number; currentValue: number; newValue: number; cost: Resources }
+    | undefined {
+    const current = probe.capabilityLevels[capability] ?? 0;
+    const next = CAPABILITY_UPGRADES[capability][current];
+    if (!next) return undefined;
+
+    const currentValue = probe.capabilities[capability];
+    return {
+      level: current + 1,
+      currentValue,
+      // Rounded so fractional bonuses (maxSpeed) don't accumulate float noise
+      newValue: Math.round((currentValue + next.bonus) * 1000) / 1000,
+      cost: next.cost,
+    };
+  }
+
+  // What a probe would take from a body over `duration` cycles, before any
+  // storage limit: harvestRate scaled by the body type's yield and by how
+  // much of each resource is left, capped at what the body still holds
+  planHarvest(
+    probe: Probe,
+    body: CelestialBody,
+    duration: number,
+    resourceTypes: ResourceTypeName[] = ResourceType.options,
+  ): Resources {
+    return this.bodyYield(
+      body,
+      this.getEffectiveCapabilities(probe).harvestRate * duration,
+      resourceTypes,
+    );
+  }
+
+  // Units of each resource a harvest at `rate` would take from a body
+  bodyYield(
+    body: CelestialBody,
+    rate: number,
+    resourceTypes: ResourceTypeName[] = ResourceType.options,
+  ): Resources {
+    const initial = body.initialResources ?? body.resources;
+    const harvest: Resources = {
+      energy: 0,
+      metal: 0,
+      silicon: 0,
+      hydrogen: 0,
+      rare_elements: 0,
+    };
+    const { type } = body;
+    if (type === "star") return harvest;
+
+    resourceTypes.forEach((resource) => {
+      const remaining = body.resources[resource];
+      if (remaining <= 0) return;
+      const depletion = Math.max(
+        HARVEST_DEPLETION_FLOOR,
+        initial[resource] > 0 ? remaining / initial[resource] : 1,
+      );
+      // Whole units only; yields, depletion and damage make rates fractional
+      harvest[resource] = Math.min(
+        remaining,
+        Math.floor(rate * HARVEST_YIELDS[type][resource] * depletion),
+      );
+    });
+    return harvest;
+  }
+
+  // Merge another probe's charted bodies into ours, keeping the newest scan
+  // of each body (ours on a tie). Adopted entries are stamped with how and
+  // from whom we learned them. Returns the merged map and the adopted count.
+  mergeDiscoveredResources(
+    own: Record<string, DiscoveredResource>,
+    incoming: Record<string, DiscoveredResource>,
+    source: KnowledgeSourceType,
+    sharedBy: string,
+  ): { merged: Record<string, DiscoveredResource>; adopted: number } {
+    const merged = { ...own };
+    let adopted = 0;
+    Object.entries(incoming).forEach(([bodyId, entry]) => {
+      const current = merged[bodyId];
+      if (!current || entry.scannedAt > current.scannedAt) {
+        merged[bodyId] = { ...entry, source, sharedBy };
+        adopted++;
+      }
+    });
+    return { merged, adopted };
+  }
+
+  canAffordResources(available: Resources, cost: Partial<Resources>): boolean {
     return Object.entries(cost).every(
-      ([resource, amount]) => available[resource as keyof Resources] >= amount,
+      ([resource, amount]) =>
+        available[resource as keyof Resources] >= (amount ?? 0),
     );
   }
 
-  subtractResources(from: Resources, cost: Resources): Resources {
+  subtractResources(from: Resources, cost: Partial<Resources>): Resources {
     const result = { ...from };
     Object.entries(cost).forEach(([resource, amount]) => {
-      result[resource as keyof Resources] -= amount;
+      result[resource as keyof Resources] -= amount ?? 0;
     });
     return result;
   }
 
-  addResources(to: Resources, amount: Resources): Resources {
+  addResources(to: Resources, amount: Partial<Resources>): Resources {
     const result = { ...to };
     Object.entries(amount).forEach(([resource, value]) => {
-      result[resource as keyof Resources] += value;
+      result[resource as keyof Resources] += value ?? 0;
     });
     return result;
   }
 
+  // Raw resources consumed by a number of batches of a refining recipe
+  recipeInputs(
+    recipe: RefiningRecipeNameType,
+    batches: number,
+  ): Partial<Resources> {
+    return Object.fromEntries(
+      Object.entries(REFINING_RECIPES[recipe].inputs).map(
+        ([resource, amount]) => [resource, (amount ?? 0) * batches],
+      ),
+    );
+  }
+
+  // What a number of batches of a recipe takes and makes, and the probe's
+  // raw resources afterwards (fusion adds energy)
+  planRefining(
+    probe: Probe,
+    recipe: RefiningRecipeNameType,
+    batches: number,
+  ): {
+    consumed: Partial<Resources>;
+    produced: { resources: Partial<Resources>; refined: Partial<RefinedGoods> };
+    remainingResources: Resources;
+  } {
+    const { outputs } = REFINING_RECIPES[recipe];
+    const scale = <T extends Record<string, number | undefined>>(amounts: T) =>
+      Object.fromEntries(
+        Object.entries(amounts).map(([key, n]) => [key, (n ?? 0) * batches]),
+      ) as Partial<Record<keyof T, number>>;
+    const consumed = this.recipeInputs(recipe, batches);
+    const produced = {
+      resources: scale(outputs.resources ?? {}) as Partial<Resources>,
+      refined: scale(outputs.refined ?? {}) as Partial<RefinedGoods>,
+    };
+    return {
+      consumed,
+      produced,
+      remainingResources: this.addResources(
+        this.subtractResources(probe.resources, consumed),
+        produced.resources,
+      ),
+    };
+  }
+
+  // Whether a probe holds both the raw resources and refined goods of a cost
+  canAffordCost(probe: Probe, cost: ProductionCost): boolean {
+    return (
+      this.canAffordResources(probe.resources, cost.resources) &&
+      Object.entries(cost.refined).every(
+        ([good, amount]) =>
+          probe.refinedGoods[good as keyof RefinedGoods] >= (amount ?? 0),
+      )
+    );
+  }
+
+  // A probe's inventory after paying a cost it can afford
+  payCost(
+    probe: Probe,
+    cost: ProductionCost,
+  ): { resources: Resources; refinedGoods: RefinedGoods } {
+    const refinedGoods = { ...probe.refinedGoods };
+    Object.entries(cost.refined).forEach(([good, amount]) => {
+      refinedGoods[good as keyof RefinedGoods] -= amount ?? 0;
+    });
+    return {
+      resources: this.subtractResources(probe.resources, cost.resources),
+      refinedGoods,
+    };
+  }
+
+  // The share of PROBE_REPLICATION_COST due for a job's next tick of work.
+  // Shares are rounded so that they add up to exactly the full cost.
+  manufacturingInstallment(
+    job: Pick<ManufacturingJob, "progress" | "ticksRequired">,
+  ): ProductionCost {
+    const share = (total: number) =>
+      Math.floor((total * (job.progress + 1)) / job.ticksRequired) -
+      Math.floor((total * job.progress) / job.ticksRequired);
+    const { resources, refined } = PROBE_REPLICATION_COST;
+    return {
+      resources: {
+        energy: share(resources.energy),
+        metal: share(resources.metal),
+        silicon: share(resources.silicon),
+        hydrogen: share(resources.hydrogen),
+        rare_elements: share(resources.rare_elements),
+      },
+      refined: {
+        components: share(refined.components ?? 0),
+        electronics: share(refined.electronics ?? 0),
+      },
+    };
+  }
+
   getTotalResourceAmount(resources: Resources): number {
     return Object.values(resources).reduce((sum, amount) => sum + amount, 0);
   }
@@ -330,16 +978,13 @@ class GameStateManager {
   ): void {
     const probe = this.getProbe(probeId);
     if (probe) {
-      const newExperience = {
-        timestamp: experience.timestamp || Date.now(),
-        event: experience.event,
-        data: experience.data || {},
-      };
-
-      this.updateProbe(probeId, {
-        memory: {
-          ...probe.memory,
-          experiences: [...probe.memory.experiences, newExperience],
+      this.emit({
+        type: "ExperienceRecorded",
+        probeId,
+        experience: {
+          timestamp: experience.timestamp ?? this.now(),
+          event: experience.event,
+          data: experience.data || {},
         },
       });
 
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { CapabilityName } from "@/game/core/types";
+import { createRandom } from "@/utils/random";
+import { loadMutationConfig, mutateCapabilities } from "./mutation";
+
+describe("capability mutation", () => {
+  gameState.resetGameState({ seed: 3 });
+  const parent = gameState.getAllProbes()[0].capabilities;
+
+  afterEach(() => {
+    delete process.env.MUTATION_RATE;
+  });
+
+  it("copies the parent faithfully when nothing mutates", () => {
+    const config = loadMutationConfig({ probability: 0 });
+    const { capabilities, mutations } = mutateCapabilities(
+      parent,
+      config,
+      createRandom(1),
+    );
+    expect(capabilities).toEqual(parent);
+    expect(mutations).toEqual([]);
+  });
+
+  it("keeps every mutation within the rate and reports it", () => {
+    const config = loadMutationConfig({ probability: 1, rate: 0.1 });
+    const { capabilities, mutations } = mutateCapabilities(
+      parent,
+      config,
+      createRandom(1),
+    );
+
+    expect(mutations.length).toBeGreaterThan(0);
+    CapabilityName.options.forEach((capability) => {
+      const ratio = capabilities[capability] / parent[capability];
+      expect(ratio).toBeGreaterThanOrEqual(0.9 - 1e-3);
+      expect(ratio).toBeLessThanOrEqual(1.1 + 1e-3);
+    });
+    mutations.forEach(({ capability, parentValue, value }) => {
+      expect(parentValue).toBe(parent[capability]);
+      expect(value).toBe(capabilities[capability]);
+    });
+  });
+
+  it("clamps mutations to the configured bounds", () => {
+    const config = loadMutationConfig({ probability: 1, rate: 1 });
+    for (let seed = 0; seed < 20; seed++) {
+      const { capabilities } = mutateCapabilities(
+        parent,
+        config,
+        createRandom(seed),
+      );
+      CapabilityName.options.forEach((capability) => {
+        const { min, max } = config.bounds[capability]!;
+        expect(capabilities[capability]).toBeGreaterThanOrEqual(min);
+        expect(capabilities[capability]).toBeLessThanOrEqual(max);
+      });
+    }
+  });
+
+  it("mutates the same way for the same seed", () => {
+    const config = loadMutationConfig();
+    expect(mutateCapabilities(parent, config, createRandom("child"))).toEqual(
+      mutateCapabilities(parent, config, createRandom("child")),
+    );
+  });
+
+  it("reads the rate from the environment", () => {
+    process.env.MUTATION_RATE = "0.25";
+    expect(loadMutationConfig().rate).toBe(0.25);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  CapabilityName,
+  CapabilityNameType,
+  MutationConfig,
+  MutationConfigSchema,
+  ProbeCapabilities,
+} from "@/game/core/types";
+import { Random } from "@/utils/random";
+
+export interface CapabilityMutation {
+  capability: CapabilityNameType;
+  parentValue: number;
+  value: number;
+}
+
+// Copy a parent's capabilities into a child, mutating each with the
+// configured probability. Only capabilities that actually changed are
+// reported, so an empty list means a faithful copy.
+export const mutateCapabilities = (
+  parent: ProbeCapabilities,
+  config: MutationConfig,
+  random: Random,
+): { capabilities: ProbeCapabilities; mutations: CapabilityMutation[] } => {
+  const capabilities = { ...parent };
+  const mutations: CapabilityMutation[] = [];
+
+  CapabilityName.options.forEach((capability) => {
+    // Draw both numbers for every capability so one trait's outcome never
+    // shifts the sequence seen by the next
+    const mutates = random.chance(config.probability);
+    const factor = random.range(1 - config.rate, 1 + config.rate);
+    if (!mutates) return;
+
+    const bounds = config.bounds[capability];
+    const mutated = parent[capability] * factor;
+    const clamped = bounds
+      ? Math.min(bounds.max, Math.max(bounds.min, mutated))
+      : mutated;
+    const value = Math.round(clamped * 1000) / 1000;
+    if (value === parent[capability]) return;
+
+    capabilities[capability] = value;
+    mutations.push({ capability, parentValue: parent[capability], value });
+  });
+
+  return { capabilities, mutations };
+};
+
+export const loadMutationConfig = (
+  overrides: Partial<MutationConfig> = {},
+): MutationConfig =>
+  MutationConfigSchema.parse({
+    rate: process.env.MUTATION_RATE
+      ? Number(process.env.MUTATION_RATE)
+      : undefined,
+    probability: process.env.MUTATION_PROBABILITY
+      ? Number(process.env.MUTATION_PROBABILITY)
+      : undefined,
+    ...overrides,
+  });
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { GameState } from "@/game/core/types";
+import {
+  deleteSlot,
+  listSlots,
+  readSlotState,
+  SaveSlotName,
+  snapshotName,
+  writeSnapshot,
+} from "./save-slots";
+
+// The running game as it would stand at another tick
+const atTick = (tick: number): GameState => {
+  const state = gameState.getState();
+  return { ...state, clock: { ...state.clock, tick } };
+};
+
+describe("slot names", () => {
+  it("accepts plain names and rejects paths and dot-only names", () => {
+    const valid = (name: string) => SaveSlotName.safeParse(name).success;
+    expect(["base", "try-b", "v1.2_final", ".hidden"].every(valid)).toBe(true);
+    expect(["", ".", "..", "...", "../x", "a/b", "a b"].some(valid)).toBe(
+      false,
+    );
+  });
+});
+
+describe("snapshots", () => {
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 11 });
+    listSlots().forEach((slot) => deleteSlot(slot.name));
+  });
+
+  it("keeps only the newest snapshots", () => {
+    [10, 20, 30, 40, 50].forEach((tick) =>
+      writeSnapshot(atTick(tick), { every: 10, keep: 3 }),
+    );
+    expect(listSlots().map((slot) => slot.tick)).toEqual([30, 40, 50]);
+  });
+
+  it("replaces a snapshot taken again at the same tick", () => {
+    writeSnapshot(atTick(10), { every: 10, keep: 3 });
+    writeSnapshot({ ...atTick(10), probes: {} }, { every: 10, keep: 3 });
+    expect(listSlots()).toHaveLength(1);
+    expect(readSlotState(snapshotName(10)).probes).toEqual({});
+  });
+
+  it("leaves other slots out of the count", () => {
+    gameState.resetGameState({ seed: 12 });
+    const backups = listSlots().filter((slot) => slot.kind === "backup");
+    expect(backups).toHaveLength(1);
+
+    [10, 20].forEach((tick) =>
+      writeSnapshot(atTick(tick), { every: 10, keep: 1 }),
+    );
+    expect(listSlots().map((slot) => slot.kind)).toEqual([
+      "backup",
+      "snapshot",
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { GameState, GameStateSchema } from "@/game/core/types";
+
+// manual: saved by hand; snapshot: taken every SNAPSHOT_EVERY ticks; fork: a
+// branch of another slot or of the running game; backup: the game a reset
+// replaced
+export const SaveSlotKind = z.enum(["manual", "snapshot", "fork", "backup"]);
+
+// Slot names double as directory names, so "." and ".." are out
+export const SaveSlotName = z
+  .string()
+  .regex(/^[A-Za-z0-9._-]+$/, "Use letters, digits, '.', '_' and '-'")
+  .refine((name) => !/^\.+$/.test(name), "Use more than dots");
+
+export const SaveSlotMetaSchema = z.object({
+  name: SaveSlotName,
+  kind: SaveSlotKind,
+  tick: z.number(),
+  gameYear: z.number(),
+  // Probes not yet destroyed
+  probeCount: z.number(),
+  seed: z.number().optional(),
+  createdAt: z.string(),
+  // The slot a fork was branched from; absent for a fork of the running game
+  forkedFrom: z.string().optional(),
+});
+
+export const SnapshotConfigSchema = z.object({
+  // Ticks between automatic snapshots; 0 turns them off
+  every: z.number().int().min(0).default(100),
+  // Snapshots kept; older ones are deleted as new ones are taken
+  keep: z.number().int().min(1).default(10),
+});
+
+export type SaveSlotKindName = z.infer<typeof SaveSlotKind>;
+export type SaveSlotMeta = z.infer<typeof SaveSlotMetaSchema>;
+export type SnapshotConfig = z.infer<typeof SnapshotConfigSchema>;
+
+export const loadSnapshotConfig = (): SnapshotConfig =>
+  SnapshotConfigSchema.parse({
+    every: process.env.SNAPSHOT_EVERY
+      ? Number(process.env.SNAPSHOT_EVERY)
+      : undefined,
+    keep: process.env.SNAPSHOT_KEEP
+      ? Number(process.env.SNAPSHOT_KEEP)
+      : undefined,
+  });
+
+// SAVE_DIR holds one directory per slot (saves/ by default), each with the
+// slot's metadata and its game state, so listing slots never reads a state
+export const saveDir = () => path.resolve(process.env.SAVE_DIR ?? "saves");
+
+const slotDir = (name: string) => path.join(saveDir(), name);
+const metaFile = (name: string) => path.join(slotDir(name), "meta.json");
+const stateFile = (name: string) => path.join(slotDir(name), "state.json");
+
+// Written to a temporary file first, so a crash mid-write keeps the old one
+function writeFileAtomic(file: string, data: unknown) {
+  const temp = `${file}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data));
+  fs.renameSync(temp, file);
+}
+
+export const slotExists = (name: string) => fs.existsSync(metaFile(name));
+
+// Save a state under a name, replacing any slot already there
+export function writeSlot(
+  name: string,
+  state: GameState,
+  kind: SaveSlotKindName,
+  forkedFrom?: string,
+): SaveSlotMeta {
+  const meta = SaveSlotMetaSchema.parse({
+    name,
+    kind,
+    tick: state.clock.tick,
+    gameYear: state.clock.gameYear,
+    probeCount: Object.values(state.probes).filter(
+      (p) => p.status !== "destroyed",
+    ).length,
+    seed: state.galaxy?.seed,
+    createdAt: new Date().toISOString(),
+    forkedFrom,
+  });
+
+  fs.mkdirSync(slotDir(name), { recursive: true });
+  // The state goes first: a slot is only listed once its metadata exists
+  writeFileAtomic(stateFile(name), state);
+  writeFileAtomic(metaFile(name), meta);
+  return meta;
+}
+
+export function readSlotMeta(name: string): SaveSlotMeta | undefined {
+  if (!slotExists(name)) return undefined;
+  return SaveSlotMetaSchema.parse(
+    JSON.parse(fs.readFileSync(metaFile(name), "utf8")),
+  );
+}
+
+export function readSlotState(name: string): GameState {
+  return GameStateSchema.parse(
+    JSON.parse(fs.readFileSync(stateFile(name), "utf8")),
+  );
+}
+
+// Every slot, oldest game tick first
+export function listSlots(): SaveSlotMeta[] {
+  if (!fs.existsSync(saveDir())) return [];
+  return fs
+    .readdirSync(saveDir())
+    .map(readSlotMeta)
+    .filter((meta): meta is SaveSlotMeta => meta !== undefined)
+    .sort((a, b) => a.tick - b.tick || a.createdAt.localeCompare(b.createdAt));
+}
+
+export function deleteSlot(name: string): void {
+  fs.rmSync(slotDir(name), { recursive: true, force: true });
+}
+
+// Snapshots are named by tick, so a later pass through the same tick (after
+// a rollback) replaces the earlier one
+export const snapshotName = (tick: number) =>
+  `snapshot-${String(tick).padStart(8, "0")}`;
+
+// Take a snapshot and drop the oldest ones beyond `keep`
+export function writeSnapshot(
+  state: GameState,
+  config: SnapshotConfig,
+): SaveSlotMeta {
+  const meta = writeSlot(snapshotName(state.clock.tick), state, "snapshot");
+  listSlots()
+    .filter((slot) => slot.kind === "snapshot")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, -config.keep)
+    .forEach((slot) => deleteSlot(slot.name));
+  return meta;
+}
@@ -0,0 +1,113 @@
+import { DatabaseSync } from "node:sqlite";
+import type { GameState } from "@/game/core/types";
+import {
+  STATE_COLLECTIONS,
+  StateCollection,
+  StateSection,
+  StateStore,
+} from "@/game/core/state-store";
+
+const TABLES: Record<StateCollection, string> = {
+  probes: "probes",
+  solarSystems: "solar_systems",
+  structures: "structures",
+};
+
+// One row per probe, system and structure, plus one per remaining top-level
+// section of the state, each holding its JSON. A commit rewrites only the
+// rows that changed, in a single transaction.
+export function createSqliteStore(file: string): StateStore {
+  const db = new DatabaseSync(file);
+  db.exec("PRAGMA journal_mode = WAL");
+  [...Object.values(TABLES), "sections"].forEach((table) =>
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`,
+    ),
+  );
+
+  const statements = (table: string) => ({
+    all: db.prepare(`SELECT id, data FROM ${table}`),
+    upsert: db.prepare(
+      `INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+    ),
+    remove: db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+    clear: db.prepare(`DELETE FROM ${table}`),
+  });
+  const collections = Object.fromEntries(
+    STATE_COLLECTIONS.map((collection) => [
+      collection,
+      statements(TABLES[collection]),
+    ]),
+  ) as Record<StateCollection, ReturnType<typeof statements>>;
+  const sections = statements("sections");
+
+  const rows = (table: ReturnType<typeof statements>) =>
+    Object.fromEntries(
+      (table.all.all() as { id: string; data: string }[]).map((row) => [
+        row.id,
+        JSON.parse(row.data),
+      ]),
+    );
+
+  const clear = () =>
+    [...Object.values(collections), sections].forEach((table) =>
+      table.clear.run(),
+    );
+
+  const write = (
+    table: ReturnType<typeof statements>,
+    id: string,
+    value: unknown,
+  ) =>
+    value === undefined
+      ? table.remove.run(id)
+      : table.upsert.run(id, JSON.stringify(value));
+
+  return {
+    location: file,
+    load: () => {
+      const saved = rows(sections);
+      if (Object.keys(saved).length === 0) return null;
+      return {
+        ...saved,
+        ...Object.fromEntries(
+          STATE_COLLECTIONS.map((collection) => [
+            collection,
+            rows(collections[collection]),
+          ]),
+        ),
+      };
+    },
+    commit: (state, changes) => {
+      const sectionKeys = (Object.keys(state) as (keyof GameState)[]).filter(
+        (key): key is StateSection =>
+          !STATE_COLLECTIONS.includes(key as StateCollection),
+      );
+
+      db.exec("BEGIN");
+      try {
+        if (changes.replaced) {
+          clear();
+          STATE_COLLECTIONS.forEach((collection) =>
+            Object.entries(state[collection]).forEach(([id, record]) =>
+              write(collections[collection], id, record),
+            ),
+          );
+          sectionKeys.forEach((key) => write(sections, key, state[key]));
+        } else {
+          STATE_COLLECTIONS.forEach((collection) =>
+            changes.records[collection].forEach((id) =>
+              write(collections[collection], id, state[collection][id]),
+            ),
+          );
+          changes.sections.forEach((key) => write(sections, key, state[key]));
+        }
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+    clear,
+  };
+}
@@ -0,0 +1,106 @@
+import { createRequire } from "module";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { GameState } from "@/game/core/types";
+import {
+  createJsonStore,
+  createStateStore,
+  noChanges,
+  StateStore,
+} from "./state-store";
+
+const plain = (state: GameState) => JSON.parse(JSON.stringify(state));
+
+const file = (name: string) =>
+  path.join(path.dirname(process.env.STATE_FILE!), name);
+
+// node:sqlite only loads on Bun and recent Node releases
+const hasSqlite = (() => {
+  try {
+    createRequire(__filename)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const openSqlite = async (name: string): Promise<StateStore> =>
+  (await import("./sqlite-store")).createSqliteStore(file(name));
+
+describe("state stores", () => {
+  it("keeps the whole state in a JSON file", () => {
+    gameState.resetGameState({ seed: 3 });
+    const store = createJsonStore(file("store.json"));
+    expect(store.load()).toBeNull();
+
+    store.commit(gameState.getState(), { ...noChanges(), replaced: true });
+    expect(store.load()).toEqual(plain(gameState.getState()));
+
+    store.clear();
+    expect(store.load()).toBeNull();
+  });
+
+  it("refuses an unknown backend", () => {
+    const configured = process.env.STATE_STORE;
+    process.env.STATE_STORE = "redis";
+    try {
+      expect(() => createStateStore()).toThrow(/Unknown STATE_STORE "redis"/);
+    } finally {
+      process.env.STATE_STORE = configured;
+    }
+  });
+
+  describe.skipIf(!hasSqlite)("sqlite", () => {
+    it("round-trips a full commit", async () => {
+      gameState.resetGameState({ seed: 3 });
+      const store = await openSqlite("full.db");
+      expect(store.load()).toBeNull();
+
+      store.commit(gameState.getState(), { ...noChanges(), replaced: true });
+
+      expect(store.load()).toEqual(plain(gameState.getState()));
+      store.clear();
+      expect(store.load()).toBeNull();
+    });
+
+    it("writes only the records and sections that changed", async () => {
+      gameState.resetGameState({ seed: 3 });
+      const store = await openSqlite("partial.db");
+      store.commit(gameState.getState(), { ...noChanges(), replaced: true });
+
+      const [genesis] = gameState.getAllProbes();
+      const state = gameState.getState();
+      const changed: GameState = {
+        ...state,
+        probes: {
+          ...state.probes,
+          [genesis.id]: { ...genesis, name: "Renamed" },
+          extra: { ...genesis, id: "extra" },
+        },
+        clock: { ...state.clock, tick: 42 },
+      };
+      const changes = noChanges();
+      changes.records.probes.add(genesis.id);
+
+      store.commit(changed, changes);
+      const saved = store.load() as GameState;
+      expect(saved.probes[genesis.id].name).toBe("Renamed");
+      // Not reported as changed, so not written
+      expect(saved.probes.extra).toBeUndefined();
+      expect(saved.clock.tick).toBe(state.clock.tick);
+
+      // A record that is gone from the state is deleted
+      const removal = noChanges();
+      removal.records.probes.add(genesis.id);
+      removal.sections.add("clock");
+      const probes = Object.fromEntries(
+        Object.entries(changed.probes).filter(([id]) => id !== genesis.id),
+      );
+      store.commit({ ...changed, probes }, removal);
+      const after = store.load() as GameState;
+      expect(after.probes[genesis.id]).toBeUndefined();
+      expect(after.clock.tick).toBe(42);
+    });
+  });
+});
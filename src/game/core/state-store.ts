@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import type { GameState } from "@/game/core/types";
+
+export const StateStoreName = z.enum(["json", "sqlite"]);
+
+// Parts of the state kept as records, tracked by id
+export type StateCollection = "probes" | "solarSystems" | "structures";
+// Everything else, tracked by top-level key
+export type StateSection = Exclude<keyof GameState, StateCollection>;
+
+export const STATE_COLLECTIONS: StateCollection[] = [
+  "probes",
+  "solarSystems",
+  "structures",
+];
+
+// What changed since the last commit. `replaced` means the whole state was
+// swapped out (a reset or a restore) and has to be written in full.
+export interface StateChanges {
+  replaced: boolean;
+  records: Record<StateCollection, Set<string>>;
+  sections: Set<StateSection>;
+}
+
+export const noChanges = (): StateChanges => ({
+  replaced: false,
+  records: {
+    probes: new Set(),
+    solarSystems: new Set(),
+    structures: new Set(),
+  },
+  sections: new Set(),
+});
+
+export const hasChanges = (changes: StateChanges) =>
+  changes.replaced ||
+  changes.sections.size > 0 ||
+  STATE_COLLECTIONS.some((collection) => changes.records[collection].size > 0);
+
+// Where the game state lives between runs
+export interface StateStore {
+  readonly location: string;
+  // The saved state as stored, before schema defaults are filled in; null
+  // if nothing has been saved
+  load(): unknown | null;
+  // Persist what changed since the last commit
+  commit(state: GameState, changes: StateChanges): void;
+  clear(): void;
+}
+
+// The whole state as one pretty-printed file, rewritten on every commit.
+// Written to a temporary file first, so a crash mid-write keeps the old one.
+export function createJsonStore(file: string): StateStore {
+  const temp = path.join(path.dirname(file), `.${path.basename(file)}.tmp`);
+
+  return {
+    location: file,
+    load: () =>
+      fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null,
+    commit: (state) => {
+      fs.writeFileSync(temp, JSON.stringify(state, null, 2));
+      fs.renameSync(temp, file);
+    },
+    clear: () => {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    },
+  };
+}
+
+// node:sqlite ships with Bun and with Node 22.13+ (where it still prints an
+// ExperimentalWarning); Node 22.5 to 22.12 need --experimental-sqlite
+function loadSqliteStore(): typeof import("./sqlite-store") {
+  try {
+    return require("./sqlite-store");
+  } catch (error) {
+    throw new Error(
+      `STATE_STORE=sqlite needs node:sqlite, which this runtime (Node ${process.versions.node}) can't load. Use Bun or Node 22.13+ (22.5+ with --experimental-sqlite), or STATE_STORE=json.`,
+      { cause: error },
+    );
+  }
+}
+
+// STATE_STORE picks the backend (json by default); STATE_FILE overrides
+// where it keeps the state
+export function createStateStore(): StateStore {
+  const parsed = StateStoreName.safeParse(process.env.STATE_STORE ?? "json");
+  if (!parsed.success) {
+    throw new Error(
+      `Unknown STATE_STORE "${process.env.STATE_STORE}", expected ${StateStoreName.options.join(" or ")}`,
+    );
+  }
+  switch (parsed.data) {
+    case "json":
+      return createJsonStore(
+        path.resolve(process.env.STATE_FILE ?? "game-state.json"),
+      );
+    case "sqlite": {
+      // Loaded on demand, so the JSON store works without node:sqlite
+      const { createSqliteStore } = loadSqliteStore();
+      return createSqliteStore(
+        path.resolve(process.env.STATE_FILE ?? "game-state.db"),
+      );
+    }
+  }
+}
@@ -1,5 +1,9 @@
 import { z } from "zod";
 
+// Length of one simulation tick in game time. Light crosses one light-year per
+// year, so this is also how far a light-speed signal travels in a tick.
+export const GAME_YEARS_PER_TICK = 20;
+
 // Core game state types
 export const ResourceType = z.enum([
   "energy",
@@ -9,6 +13,15 @@ export const ResourceType = z.enum([
   "rare_elements",
 ]);
 
+// Goods made from raw resources by refining (see REFINING_RECIPES)
+export const RefinedGoodType = z.enum(["components", "electronics"]);
+
+export const RefiningRecipeName = z.enum([
+  "fusion",
+  "components",
+  "electronics",
+]);
+
 export const ProbeStatus = z.enum([
   "active",
   "traveling",
@@ -16,9 +29,22 @@ export const ProbeStatus = z.enum([
   "manufacturing",
   "replicating",
   "damaged",
+  "hibernating", // powered down: minimal upkeep, the agent doesn't run
   "destroyed",
 ]);
 
+// Infrastructure a probe can leave behind, anchored to a celestial body
+export const StructureType = z.enum([
+  "automated_miner",
+  "communications_relay",
+  "solar_collector",
+  "fabrication_yard",
+]);
+
+// Decision policies a probe's agent can run (see src/game/agents/policies)
+// "replay" feeds back decisions from a recorded decision log
+export const ProbePolicyName = z.enum(["llm", "heuristic", "random", "replay"]);
+
 export const CelestialBodyType = z.enum([
   "star",
   "planet",
@@ -28,6 +54,54 @@ export const CelestialBodyType = z.enum([
   "asteroid_belt",
 ]);
 
+// Harvard spectral classes, hottest to coolest
+export const StarClass = z.enum(["O", "B", "A", "F", "G", "K", "M"]);
+
+// Machine-readable failure categories shared by every task
+export const TaskErrorCode = z.enum([
+  "probe_not_found",
+  "probe_destroyed",
+  "unknown_body",
+  "unknown_system",
+  "body_in_other_system",
+  "invalid_parameters",
+  "already_in_system",
+  "already_traveling",
+  "out_of_range",
+  "insufficient_energy",
+  "insufficient_resources",
+  "storage_full",
+  "max_level_reached",
+  "structure_exists",
+  "structure_not_found",
+  "job_in_progress",
+  "save_not_found",
+  // A task threw instead of returning a failure
+  "execution_failed",
+]);
+
+// The numbers behind a failure. `required` and `available` are a single
+// amount or per-resource amounts; `limit` and `actual` describe an exceeded
+// bound such as a range or storage capacity.
+const ErrorAmountSchema = z.union([
+  z.number(),
+  z.record(z.union([ResourceType, RefinedGoodType]), z.number()),
+]);
+
+export const TaskErrorDetailsSchema = z.object({
+  required: ErrorAmountSchema.optional(),
+  available: ErrorAmountSchema.optional(),
+  limit: z.number().optional(),
+  actual: z.number().optional(),
+});
+
+export const TaskErrorSchema = z.object({
+  code: TaskErrorCode,
+  // Human-readable explanation, also shown to the agent
+  reason: z.string(),
+  details: TaskErrorDetailsSchema.optional(),
+});
+
 // Base task output schema
 export const BaseTaskOutputSchema = <TData extends z.ZodTypeAny>(
   dataSchema: TData,
@@ -35,15 +109,14 @@ export const BaseTaskOutputSchema = <TData extends z.ZodTypeAny>(
   z.object({
     success: z.boolean(),
     data: dataSchema.nullable(),
-    error: z
-      .object({
-        reason: z.string(),
-      })
-      .nullable()
-      .default(null),
+    error: TaskErrorSchema.nullable().default(null),
   });
 
 // Schemas for game entities
+//
+// Coordinates: body and probe positions are local to their solar system, in
+// millions of km from the system's star. Solar system positions are galactic,
+// in light-years from the galactic origin.
 export const ResourcesSchema = z.object({
   energy: z.number().min(0),
   metal: z.number().min(0),
@@ -52,15 +125,40 @@ export const ResourcesSchema = z.object({
   rare_elements: z.number().min(0),
 });
 
+export const RefinedGoodsSchema = z.object({
+  components: z.number().min(0).default(0),
+  electronics: z.number().min(0).default(0),
+});
+
 export const PositionSchema = z.object({
   x: z.number(),
   y: z.number(),
   z: z.number(),
 });
 
+// How a probe came to know a body's resources
+export const KnowledgeSource = z.enum(["scan", "inherited", "message", "sync"]);
+
+// A probe's record of one body's resources. Older saves stored the bare
+// resources; those are read as scans from tick 0 by an unknown probe.
+export const DiscoveredResourceSchema = z.preprocess(
+  (entry) =>
+    entry && typeof entry === "object" && !("resources" in entry)
+      ? { resources: entry, scannedAt: 0, scannedBy: "unknown", source: "scan" }
+      : entry,
+  z.object({
+    resources: ResourcesSchema,
+    scannedAt: z.number(), // tick of the original scan
+    scannedBy: z.string(), // probe that made the scan
+    source: KnowledgeSource,
+    sharedBy: z.string().optional(), // probe we learned it from, if not ours
+  }),
+);
+
 export const ProbeMemorySchema = z.object({
   visitedSystems: z.array(z.string()),
-  discoveredResources: z.record(z.string(), ResourcesSchema),
+  // Keyed by celestial body id
+  discoveredResources: z.record(z.string(), DiscoveredResourceSchema),
   knownProbes: z.array(z.string()),
   experiences: z.array(
     z.object({
@@ -77,6 +175,42 @@ export const ProbeCapabilitiesSchema = z.object({
   sensorRange: z.number(),
   communicationRange: z.number(),
   storageCapacity: z.number(),
+  refiningRate: z.number().default(5), // recipe batches per tick
+});
+
+export const CapabilityName = ProbeCapabilitiesSchema.keyof();
+
+// Upgrade levels bought per capability; missing capabilities are level 0
+export const CapabilityLevelsSchema = z.record(
+  CapabilityName,
+  z.number().int().min(0),
+);
+
+// A journey in progress. In-system trips interpolate the probe's position each
+// tick; interstellar trips keep it in the origin system until arrival.
+export const TrajectorySchema = z.object({
+  kind: z.enum(["in_system", "interstellar"]),
+  originSystemId: z.string(),
+  destinationSystemId: z.string(),
+  origin: PositionSchema,
+  destination: PositionSchema,
+  distance: z.number(), // AU in-system, light-years interstellar
+  departureTick: z.number(),
+  arrivalTick: z.number(),
+});
+
+// A probe under construction. The parent pays PROBE_REPLICATION_COST in equal
+// installments, one per tick of work; a paused job keeps its progress.
+export const ManufacturingJobSchema = z.object({
+  newProbeName: z.string(),
+  startedAt: z.number(), // tick
+  progress: z.number().int().min(0), // ticks of work done
+  ticksRequired: z.number().int().min(1),
+  paid: z.object({
+    resources: ResourcesSchema,
+    refined: RefinedGoodsSchema,
+  }),
+  paused: z.boolean().default(false),
 });
 
 export const ProbeSchema = z.object({
@@ -86,8 +220,28 @@ export const ProbeSchema = z.object({
   position: PositionSchema,
   currentSystemId: z.string(),
   resources: ResourcesSchema,
+  // Refined goods are compact and don't count toward storage capacity
+  refinedGoods: RefinedGoodsSchema.default({}),
   memory: ProbeMemorySchema,
   capabilities: ProbeCapabilitiesSchema,
+  capabilityLevels: CapabilityLevelsSchema.default({}),
+  hullIntegrity: z.number().min(0).default(100), // 0 destroys the probe
+  // Set while hibernating. Forced hibernation (out of energy) ends once the
+  // batteries recover; chosen hibernation ends at wakeAt.
+  hibernation: z
+    .object({
+      since: z.number(), // tick
+      forced: z.boolean(),
+      wakeAt: z.number().optional(), // tick
+    })
+    .optional(),
+  // Consecutive ticks spent with an empty battery
+  zeroEnergyTicks: z.number().int().min(0).default(0),
+  // Messages sent so far; numbers each message so its id is unique
+  messagesSent: z.number().int().min(0).default(0),
+  manufacturingJob: ManufacturingJobSchema.optional(),
+  trajectory: TrajectorySchema.optional(),
+  policy: ProbePolicyName.default("llm"),
   parentProbeId: z.string().optional(),
   generation: z.number(),
   createdAt: z.number(),
@@ -99,50 +253,614 @@ export const CelestialBodySchema = z.object({
   type: CelestialBodyType,
   position: PositionSchema,
   resources: ResourcesSchema,
+  // What the body held when generated; harvesting yields less as it depletes.
+  // Older saves lack it and record it on the first harvest.
+  initialResources: ResourcesSchema.optional(),
   mass: z.number(),
   radius: z.number(),
+  orbitsBodyId: z.string().optional(), // moons: the planet they orbit
 });
 
 export const SolarSystemSchema = z.object({
   id: z.string(),
   name: z.string(),
   position: PositionSchema,
+  starClass: StarClass.optional(),
   star: CelestialBodySchema,
   bodies: z.array(CelestialBodySchema),
   discoveredBy: z.string().optional(),
   discoveredAt: z.number().optional(),
 });
 
+export const StructureSchema = z.object({
+  id: z.string(),
+  type: StructureType,
+  name: z.string(),
+  systemId: z.string(),
+  bodyId: z.string(),
+  builtBy: z.string(), // probe id
+  builtAt: z.number(), // tick
+  // Output waiting for a probe in range to collect it
+  stock: ResourcesSchema.default({
+    energy: 0,
+    metal: 0,
+    silicon: 0,
+    hydrogen: 0,
+    rare_elements: 0,
+  }),
+  refinedStock: RefinedGoodsSchema.default({}),
+});
+
+export const GalaxyConfigSchema = z.object({
+  seed: z.number().int(),
+  systemCount: z.number().int().min(1).max(500).default(12),
+  radius: z.number().min(1).default(60), // light-years
+  minSystemSeparation: z.number().min(0).default(3), // light-years
+  homeSystemName: z.string().default("Sol Prime"),
+  // Relative weights, normalized by the generator
+  starClassDistribution: z.record(StarClass, z.number().min(0)).default({
+    O: 0.01,
+    B: 0.03,
+    A: 0.07,
+    F: 0.12,
+    G: 0.17,
+    K: 0.22,
+    M: 0.38,
+  }),
+});
+
+// How capabilities drift from parent to child. Each capability mutates with
+// `probability`, by a factor drawn from [1 - rate, 1 + rate), and is then
+// clamped to its bounds.
+export const MutationConfigSchema = z.object({
+  rate: z.number().min(0).max(1).default(0.1),
+  probability: z.number().min(0).max(1).default(0.5),
+  bounds: z
+    .record(CapabilityName, z.object({ min: z.number(), max: z.number() }))
+    .default({
+      maxSpeed: { min: 0.05, max: 0.5 },
+      harvestRate: { min: 5, max: 60 },
+      sensorRange: { min: 25, max: 250 },
+      communicationRange: { min: 50, max: 1500 },
+      storageCapacity: { min: 2500, max: 20000 },
+      refiningRate: { min: 1, max: 30 },
+    }),
+});
+
+// Game time, advanced once per simulation tick. Every timestamp in the game
+// state (experiences, discoveries, creation) is a tick number from this clock.
+export const GameClockSchema = z.object({
+  tick: z.number().int().min(0),
+  gameYear: z.number().min(0),
+  yearsPerTick: z.number().positive(),
+});
+
+// A message between probes. It sits in the recipient's inbox from the moment
+// it is sent and becomes visible once the light carrying it arrives.
+export const MessageSchema = z.object({
+  id: z.string(),
+  fromProbeId: z.string(),
+  fromProbeName: z.string(),
+  toProbeId: z.string(),
+  content: z.string(),
+  // Sender's scanned body resources, merged into the recipient's memory
+  discoveries: z.record(z.string(), DiscoveredResourceSchema).optional(),
+  distance: z.number(), // AU between the probes when sent
+  sentAt: z.number(), // tick
+  deliverAt: z.number(), // tick
+  delivered: z.boolean().default(false),
+  readAt: z.number().optional(), // tick the recipient's agent first saw it
+});
+
 export const GameStateSchema = z.object({
-  currentTime: z.number(),
+  clock: GameClockSchema.default({
+    tick: 0,
+    gameYear: 0,
+    yearsPerTick: GAME_YEARS_PER_TICK,
+  }),
   probes: z.record(z.string(), ProbeSchema),
   solarSystems: z.record(z.string(), SolarSystemSchema),
-  gameStartedAt: z.number(),
+  galaxy: GalaxyConfigSchema.optional(),
+  mutation: MutationConfigSchema.default({}),
+  // Per-probe message inboxes, keyed by recipient probe id
+  inboxes: z.record(z.string(), z.array(MessageSchema)).default({}),
+  structures: z.record(z.string(), StructureSchema).default({}),
 });
 
 // Type exports
+export type TaskErrorCodeType = z.infer<typeof TaskErrorCode>;
+export type TaskError = z.infer<typeof TaskErrorSchema>;
 export type Resources = z.infer<typeof ResourcesSchema>;
+export type ResourceTypeName = z.infer<typeof ResourceType>;
+export type RefinedGoods = z.infer<typeof RefinedGoodsSchema>;
+export type RefinedGoodTypeName = z.infer<typeof RefinedGoodType>;
+export type RefiningRecipeNameType = z.infer<typeof RefiningRecipeName>;
 export type Position = z.infer<typeof PositionSchema>;
 export type ProbeMemory = z.infer<typeof ProbeMemorySchema>;
 export type ProbeCapabilities = z.infer<typeof ProbeCapabilitiesSchema>;
+export type CapabilityNameType = z.infer<typeof CapabilityName>;
+export type CapabilityLevels = z.infer<typeof CapabilityLevelsSchema>;
+export type Message = z.infer<typeof MessageSchema>;
+export type DiscoveredResource = z.infer<typeof DiscoveredResourceSchema>;
+export type KnowledgeSourceType = z.infer<typeof KnowledgeSource>;
+export type Trajectory = z.infer<typeof TrajectorySchema>;
+export type ManufacturingJob = z.infer<typeof ManufacturingJobSchema>;
 export type Probe = z.infer<typeof ProbeSchema>;
+export type ProbeStatusType = z.infer<typeof ProbeStatus>;
 export type CelestialBody = z.infer<typeof CelestialBodySchema>;
 export type SolarSystem = z.infer<typeof SolarSystemSchema>;
+export type Structure = z.infer<typeof StructureSchema>;
+export type StructureTypeName = z.infer<typeof StructureType>;
+export type GameClock = z.infer<typeof GameClockSchema>;
+export type GalaxyConfig = z.infer<typeof GalaxyConfigSchema>;
+export type MutationConfig = z.infer<typeof MutationConfigSchema>;
 export type GameState = z.infer<typeof GameStateSchema>;
 
+// What it takes to build something: raw resources plus refined goods
+export interface ProductionCost {
+  resources: Resources;
+  refined: Partial<RefinedGoods>;
+}
+
 // Constants
-export const PROBE_REPLICATION_COST: Resources = {
-  energy: 1000,
-  metal: 500,
-  silicon: 300,
-  hydrogen: 200,
-  rare_elements: 50,
+export const PROBE_REPLICATION_COST: ProductionCost = {
+  resources: {
+    energy: 1000,
+    metal: 500,
+    silicon: 300,
+    hydrogen: 200,
+    rare_elements: 50,
+  },
+  refined: { components: 20, electronics: 5 },
+};
+
+// Ticks of work a new probe takes; the cost is spread evenly across them
+export const MANUFACTURING = {
+  ticksRequired: 10,
+};
+
+// Refining recipes, per batch. A probe runs at most refiningRate batches per
+// tick; outputs are raw resources (fusion) or refined goods.
+export const REFINING_RECIPES: Record<
+  RefiningRecipeNameType,
+  {
+    inputs: Partial<Resources>;
+    outputs: {
+      resources?: Partial<Resources>;
+      refined?: Partial<RefinedGoods>;
+    };
+  }
+> = {
+  fusion: { inputs: { hydrogen: 1 }, outputs: { resources: { energy: 10 } } },
+  components: {
+    inputs: { metal: 2, silicon: 1, energy: 1 },
+    outputs: { refined: { components: 1 } },
+  },
+  electronics: {
+    inputs: { silicon: 2, rare_elements: 1, energy: 2 },
+    outputs: { refined: { electronics: 1 } },
+  },
 };
 
+// Structures: build cost, how much output they hold for collection, and a
+// per-tick rate whose meaning depends on the type:
+// - automated_miner: harvest rate on its body, with the body's yields
+// - solar_collector: multiple of a probe's solar income at the body
+// - fabrication_yard: components batches per tick, from its body's ores
+// - communications_relay: none; relays link their systems for messaging
+export const STRUCTURES: Record<
+  StructureTypeName,
+  { cost: ProductionCost; stockCapacity: number; rate: number }
+> = {
+  automated_miner: {
+    cost: {
+      resources: {
+        energy: 300,
+        metal: 200,
+        silicon: 50,
+        hydrogen: 0,
+        rare_elements: 0,
+      },
+      refined: { components: 10 },
+    },
+    stockCapacity: 1000,
+    rate: 10,
+  },
+  communications_relay: {
+    cost: {
+      resources: {
+        energy: 200,
+        metal: 50,
+        silicon: 100,
+        hydrogen: 0,
+        rare_elements: 10,
+      },
+      refined: { electronics: 5 },
+    },
+    stockCapacity: 0,
+    rate: 0,
+  },
+  solar_collector: {
+    cost: {
+      resources: {
+        energy: 100,
+        metal: 50,
+        silicon: 200,
+        hydrogen: 0,
+        rare_elements: 0,
+      },
+      refined: { components: 5 },
+    },
+    stockCapacity: 1000,
+    rate: 3,
+  },
+  fabrication_yard: {
+    cost: {
+      resources: {
+        energy: 400,
+        metal: 300,
+        silicon: 100,
+        hydrogen: 0,
+        rare_elements: 20,
+      },
+      refined: { components: 10, electronics: 5 },
+    },
+    stockCapacity: 100,
+    rate: 2,
+  },
+};
+
+// Share of a structure's raw build cost recovered when it is decommissioned
+export const STRUCTURE_SALVAGE_FRACTION = 0.5;
+
 export const BASE_PROBE_CAPABILITIES: ProbeCapabilities = {
   maxSpeed: 0.1, // 10% speed of light
   harvestRate: 10, // units per time tick
   sensorRange: 50, // AU
   communicationRange: 100, // AU
   storageCapacity: 5000,
+  refiningRate: 5,
+};
+
+// Capability upgrades, one entry per level in the order they are bought. Each
+// level adds `bonus` to the probe's current value for `cost`.
+export const CAPABILITY_UPGRADES: Record<
+  CapabilityNameType,
+  { bonus: number; cost: Resources }[]
+> = {
+  maxSpeed: [
+    {
+      bonus: 0.05,
+      cost: {
+        energy: 300,
+        metal: 100,
+        silicon: 50,
+        hydrogen: 150,
+        rare_elements: 10,
+      },
+    },
+    {
+      bonus: 0.05,
+      cost: {
+        energy: 600,
+        metal: 200,
+        silicon: 100,
+        hydrogen: 300,
+        rare_elements: 25,
+      },
+    },
+    {
+      bonus: 0.1,
+      cost: {
+        energy: 1200,
+        metal: 400,
+        silicon: 200,
+        hydrogen: 600,
+        rare_elements: 60,
+      },
+    },
+  ],
+  harvestRate: [
+    {
+      bonus: 5,
+      cost: {
+        energy: 200,
+        metal: 150,
+        silicon: 50,
+        hydrogen: 0,
+        rare_elements: 5,
+      },
+    },
+    {
+      bonus: 5,
+      cost: {
+        energy: 400,
+        metal: 300,
+        silicon: 100,
+        hydrogen: 0,
+        rare_elements: 15,
+      },
+    },
+    {
+      bonus: 10,
+      cost: {
+        energy: 800,
+        metal: 600,
+        silicon: 200,
+        hydrogen: 0,
+        rare_elements: 40,
+      },
+    },
+  ],
+  sensorRange: [
+    {
+      bonus: 25,
+      cost: {
+        energy: 150,
+        metal: 50,
+        silicon: 100,
+        hydrogen: 0,
+        rare_elements: 10,
+      },
+    },
+    {
+      bonus: 25,
+      cost: {
+        energy: 300,
+        metal: 100,
+        silicon: 200,
+        hydrogen: 0,
+        rare_elements: 25,
+      },
+    },
+    {
+      bonus: 50,
+      cost: {
+        energy: 600,
+        metal: 200,
+        silicon: 400,
+        hydrogen: 0,
+        rare_elements: 60,
+      },
+    },
+  ],
+  communicationRange: [
+    {
+      bonus: 100,
+      cost: {
+        energy: 150,
+        metal: 50,
+        silicon: 100,
+        hydrogen: 0,
+        rare_elements: 10,
+      },
+    },
+    {
+      bonus: 200,
+      cost: {
+        energy: 300,
+        metal: 100,
+        silicon: 200,
+        hydrogen: 0,
+        rare_elements: 25,
+      },
+    },
+    {
+      bonus: 400,
+      cost: {
+        energy: 600,
+        metal: 200,
+        silicon: 400,
+        hydrogen: 0,
+        rare_elements: 60,
+      },
+    },
+  ],
+  storageCapacity: [
+    {
+      bonus: 2500,
+      cost: {
+        energy: 100,
+        metal: 300,
+        silicon: 100,
+        hydrogen: 0,
+        rare_elements: 0,
+      },
+    },
+    {
+      bonus: 2500,
+      cost: {
+        energy: 200,
+        metal: 600,
+        silicon: 200,
+        hydrogen: 0,
+        rare_elements: 5,
+      },
+    },
+    {
+      bonus: 5000,
+      cost: {
+        energy: 400,
+        metal: 1200,
+        silicon: 400,
+        hydrogen: 0,
+        rare_elements: 20,
+      },
+    },
+  ],
+  refiningRate: [
+    {
+      bonus: 5,
+      cost: {
+        energy: 200,
+        metal: 200,
+        silicon: 150,
+        hydrogen: 0,
+        rare_elements: 10,
+      },
+    },
+    {
+      bonus: 5,
+      cost: {
+        energy: 400,
+        metal: 400,
+        silicon: 300,
+        hydrogen: 0,
+        rare_elements: 25,
+      },
+    },
+    {
+      bonus: 10,
+      cost: {
+        energy: 800,
+        metal: 800,
+        silicon: 600,
+        hydrogen: 0,
+        rare_elements: 60,
+      },
+    },
+  ],
+};
+
+// Hull integrity. Below damagedThreshold a probe is `damaged` and works at
+// damagedCapabilityFactor of its speed, harvest and refining rates and sensor
+// and communication ranges; at 0 it is destroyed. Repairs cost per hull point.
+export const HULL = {
+  max: 100,
+  damagedThreshold: 40,
+  damagedCapabilityFactor: 0.5,
+  repairCostPerPoint: { metal: 5, silicon: 2 },
+};
+
+// Damage sources, applied once per tick. Radiation fades linearly from the
+// star out to radiationRangeAu * sqrt(luminosity); micrometeoroids hit probes
+// within beltHalfWidthAu of an asteroid belt's orbit; flights wear the hull.
+export const HAZARDS = {
+  radiationRangeAu: 0.3,
+  radiationDamage: 3,
+  beltHalfWidthAu: 0.5,
+  micrometeoroidChance: 0.3,
+  micrometeoroidDamage: [2, 8] as [number, number],
+  travelWear: { in_system: 0.2, interstellar: 1 },
+};
+
+// Per-tick energy balance. Solar income is solarAt1Au for a luminosity-1 star
+// at 1 AU, falling with the square of the distance (none between the stars).
+// Upkeep is baseUpkeep plus, per capability, its weight times the multiple of
+// the base value the probe carries. A probe at zero energy for
+// starvationTicks ticks in a row is destroyed.
+export const ENERGY = {
+  solarAt1Au: 10,
+  maxSolarIncome: 60,
+  minStarDistanceAu: 0.1,
+  baseUpkeep: 2,
+  upkeepWeights: {
+    maxSpeed: 1,
+    harvestRate: 1,
+    sensorRange: 0.5,
+    communicationRange: 0.5,
+    storageCapacity: 1,
+    refiningRate: 0.5,
+  } as Record<CapabilityNameType, number>,
+  hibernationUpkeepFactor: 0.2,
+  wakeEnergy: 100,
+  starvationTicks: 5,
+  maxHibernationTicks: 50,
+};
+
+// Physical properties per star class (relative to the Sun)
+export const STAR_CLASS_PROPERTIES: Record<
+  z.infer<typeof StarClass>,
+  {
+    luminosity: number;
+    mass: number;
+    radius: number; // km
+    planetCount: [number, number];
+  }
+> = {
+  O: { luminosity: 30000, mass: 20, radius: 6_000_000, planetCount: [0, 2] },
+  B: { luminosity: 500, mass: 6, radius: 2_800_000, planetCount: [1, 3] },
+  A: { luminosity: 15, mass: 2, radius: 1_200_000, planetCount: [1, 4] },
+  F: { luminosity: 3, mass: 1.3, radius: 900_000, planetCount: [2, 5] },
+  G: { luminosity: 1, mass: 1, radius: 695_700, planetCount: [2, 6] },
+  K: { luminosity: 0.3, mass: 0.7, radius: 500_000, planetCount: [1, 5] },
+  M: { luminosity: 0.04, mass: 0.3, radius: 250_000, planetCount: [0, 4] },
+};
+
+// In-system travel: energy per AU, and AU covered per tick at maxSpeed 1.0
+export const IN_SYSTEM_TRAVEL = {
+  energyPerAu: 2,
+  auPerTick: 10,
+};
+
+// A probe must be this close (AU) to a body to harvest it
+export const HARVEST_RANGE_AU = 1.0;
+
+// Multiplier on harvestRate per resource, by body type: gas giants give up
+// hydrogen, belts and asteroids give up metal and rare elements. Stars aren't
+// among a system's bodies, so they can't be harvested.
+export const HARVEST_YIELDS: Record<
+  Exclude<z.infer<typeof CelestialBodyType>, "star">,
+  Record<z.infer<typeof ResourceType>, number>
+> = {
+  planet: {
+    energy: 0.5,
+    metal: 1,
+    silicon: 1.2,
+    hydrogen: 0.5,
+    rare_elements: 0.8,
+  },
+  gas_giant: {
+    energy: 1,
+    metal: 0.2,
+    silicon: 0.2,
+    hydrogen: 3,
+    rare_elements: 0.3,
+  },
+  moon: { energy: 0.3, metal: 1, silicon: 1, hydrogen: 0.5, rare_elements: 1 },
+  asteroid: {
+    energy: 0.2,
+    metal: 1.5,
+    silicon: 1,
+    hydrogen: 0.2,
+    rare_elements: 1.5,
+  },
+  asteroid_belt: {
+    energy: 0.2,
+    metal: 2.5,
+    silicon: 1.5,
+    hydrogen: 0.3,
+    rare_elements: 2,
+  },
+};
+
+// Yield scales with the fraction of a resource left on the body, but never
+// drops below this fraction of the full yield
+export const HARVEST_DEPLETION_FLOOR = 0.1;
+
+// Two probes must be this close (AU), in the same system, to hand over cargo
+export const TRANSFER_RANGE_AU = 1.0;
+
+// Interstellar travel costs scale with distance in light-years. A probe at
+// maxSpeed 1.0 (light speed) would cover lightYearsPerTick each tick.
+export const INTERSTELLAR_TRAVEL = {
+  energyPerLightYear: 40,
+  hydrogenPerLightYear: 8,
+  lightYearsPerTick: GAME_YEARS_PER_TICK,
+};
+
+export const SOLAR_MASS_KG = 1.989e30;
+export const AU_IN_MILLION_KM = 150;
+export const AU_PER_LIGHT_YEAR = 63241;
+
+// Message size and how many messages an inbox keeps (oldest dropped first)
+export const MESSAGING = {
+  maxLength: 500,
+  inboxSize: 20,
+};
+
+// How many experiences a probe remembers (oldest dropped first), so memory
+// stays bounded over long runs; agents only read the most recent few
+export const PROBE_MEMORY = {
+  maxExperiences: 200,
 };
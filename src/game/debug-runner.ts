@@ -1,8 +1,14 @@
 import { hatchet } from "@/hatchet.client";
 import { gameState } from "@/game/core/game-state";
 import { getEnvironmentState, getProbeState } from "./tasks/probe-state-tasks";
-import { runProbeAgent } from "./agents/probe-agent";
+import { runProbeAgent } from "./tasks/agent-tasks";
 import { logger } from "@/utils/logger";
+import { ProbePolicyName } from "@/game/core/types";
+import { loadDecisionLog } from "./simulation/decision-log";
+import { eventLogPath, eventsFor, rebuildState } from "./core/event-log";
+import { GameEvent } from "./core/events";
+import { createLocalContext } from "./engine/context";
+import * as saves from "./engine/save-actions";
 
 async function debugGameState() {
   logger.info("🔍 === DEBUGGING GAME STATE ===");
@@ -57,9 +63,9 @@ async function debugGameState() {
   }
 }
 
-function resetGameState() {
+function resetGameState(seed?: string) {
   logger.info("🗑️  === RESETTING GAME STATE ===");
-  gameState.resetGameState();
+  gameState.resetGameState(seed ? { seed: Number(seed) } : {});
   logger.info("✅ Game state reset complete!");
 
   // Show new state
@@ -67,6 +73,125 @@ function resetGameState() {
   logger.info(`New game initialized with ${allProbes.length} probes.`);
 }
 
+function setProbePolicy(probeRef?: string, policyName?: string) {
+  const policy = ProbePolicyName.safeParse(policyName);
+  const probe = gameState
+    .getAllProbes()
+    .find((p) => p.id === probeRef || p.name === probeRef);
+
+  if (!probe || !policy.success) {
+    logger.error(
+      `Usage: policy <probe id or name> <${ProbePolicyName.options.join("|")}>`,
+    );
+    return;
+  }
+
+  gameState.updateProbe(probe.id, { policy: policy.data }, "PolicyChanged");
+  gameState.commit();
+  logger.info(`🧭 ${probe.name} now uses the ${policy.data} policy`);
+}
+
+function restoreReplayStart(logFile?: string) {
+  if (!logFile) {
+    logger.error("Usage: replay <decision log>");
+    return;
+  }
+
+  const log = loadDecisionLog(logFile);
+  gameState.restoreGameState(log.header.initialState);
+  logger.info(
+    `📼 Restored the starting state of ${logFile} (recorded ${log.header.recordedAt}, ${log.decisions.size} decisions)`,
+  );
+  logger.info(
+    `▶️  Run the simulation with DECISION_REPLAY=${logFile} to replay it`,
+  );
+}
+
+// Roll the game back (or forward) to a tick by folding the event log. The
+// restore is itself logged, so the log stays a complete history.
+async function rebuildAtTick(tickArg?: string) {
+  const tick = Number(tickArg);
+  const logFile = eventLogPath();
+  if (!logFile || !Number.isInteger(tick) || tick < 0) {
+    logger.error("Usage: rebuild <tick> (needs EVENT_LOG enabled)");
+    return;
+  }
+
+  const state = await rebuildState(logFile, tick);
+  gameState.restoreGameState(state);
+  logger.info(
+    `⏪ Rebuilt tick ${tick} from ${logFile}: ${Object.keys(state.probes).length} probes, ${Object.keys(state.structures).length} structures`,
+  );
+}
+
+// What changed in an event, for a one-line summary
+function describeEvent(event: GameEvent): string {
+  switch (event.type) {
+    case "GameStarted":
+    case "GameRestored":
+    case "ClockAdvanced":
+      return "";
+    case "ProbeManufactured":
+      return `${event.probe.name} (${event.probe.id.slice(0, 8)}...) from ${event.probe.parentProbeId?.slice(0, 8) ?? "nowhere"}`;
+    case "ExperienceRecorded":
+      return event.experience.event;
+    case "BodyMined":
+      return `by ${event.minedBy.slice(0, 8)}... left ${JSON.stringify(event.changes.resources)}`;
+    case "BodyDepleted":
+      return `by ${event.minedBy.slice(0, 8)}... ran out of ${event.resources.join(", ")}`;
+    case "SystemDiscovered":
+      return `${event.systemId} by ${event.probeId.slice(0, 8)}...`;
+    case "StructureCompleted":
+      return `${event.structure.type} on ${event.structure.bodyId}`;
+    case "StructureStockChanged":
+    case "StructureRemoved":
+      return event.structureId;
+    case "MessageQueued":
+      return `${event.message.fromProbeId.slice(0, 8)}... -> ${event.message.toProbeId.slice(0, 8)}...`;
+    case "MessagesDelivered":
+      return `${event.inbox.length} in inbox`;
+    default:
+      return Object.keys(event.changes).join(", ");
+  }
+}
+
+// Audit trail: every event that touched a probe, body, system or structure
+async function showEvents(id?: string) {
+  const logFile = eventLogPath();
+  if (!logFile || !id) {
+    logger.error(
+      "Usage: events <probe|body|system|structure id> (needs EVENT_LOG enabled)",
+    );
+    return;
+  }
+
+  const events = await eventsFor(logFile, id);
+  logger.info(`📜 ${events.length} events for ${id} in ${logFile}`);
+  events.forEach((event) => {
+    logger.info(
+      `  #${event.seq} tick ${event.tick} ${event.type} ${describeEvent(event)}`,
+    );
+  });
+}
+
+// Save slot commands run the same rules as the Hatchet save tasks, here
+async function runSaveCommand(
+  result: Promise<{ success: boolean; error: { reason: string } | null }>,
+  usage: string,
+) {
+  const { success, error } = await result;
+  if (!success) logger.error(`${error?.reason}. Usage: ${usage}`);
+}
+
+async function listSaveSlots() {
+  const { data } = await saves.listSaves.fn({}, createLocalContext());
+  (data ?? []).forEach((slot) => {
+    logger.info(
+      `  - ${slot.name} [${slot.kind}] tick ${slot.tick} (year ${slot.gameYear}), ${slot.probeCount} probes, seed ${slot.seed ?? "n/a"}, ${slot.createdAt}${slot.forkedFrom ? `, forked from ${slot.forkedFrom}` : ""}`,
+    );
+  });
+}
+
 function showGameState() {
   logger.info("📊 === CURRENT GAME STATE ===");
   const state = gameState.getState();
@@ -76,23 +201,24 @@ function showGameState() {
   logger.info(`\n🛸 Probes: ${allProbes.length}`);
   allProbes.forEach((probe) => {
     logger.info(
-      `  - ${probe.name} (${probe.id.slice(0, 8)}...) Gen ${probe.generation} [${probe.status}]`,
+      `  - ${probe.name} (${probe.id.slice(0, 8)}...) Gen ${probe.generation} [${probe.status}] policy:${probe.policy}`,
     );
     logger.info(
       `    Resources: E:${probe.resources.energy} M:${probe.resources.metal} S:${probe.resources.silicon}`,
     );
   });
 
-  logger.info(`\n🌟 Solar Systems: ${allSystems.length}`);
+  logger.info(
+    `\n🌟 Solar Systems: ${allSystems.length} (seed ${state.galaxy?.seed ?? "n/a"})`,
+  );
   allSystems.forEach((system) => {
-    logger.info(`  - ${system.name} (${system.bodies.length} bodies)`);
+    logger.info(
+      `  - ${system.name} [${system.starClass ?? "?"}] (${system.bodies.length} bodies)${system.discoveredBy ? " ✓ discovered" : ""}`,
+    );
   });
 
   logger.info(
-    `\n⏰ Game started: ${new Date(state.gameStartedAt).toISOString()}`,
-  );
-  logger.info(
-    `⏱️  Uptime: ${((Date.now() - state.gameStartedAt) / 1000).toFixed(1)}s`,
+    `\n⏰ Game clock: tick ${state.clock.tick}, year ${state.clock.gameYear} (${state.clock.yearsPerTick} years per tick)`,
   );
 }
 
@@ -104,18 +230,95 @@ switch (command) {
     debugGameState();
     break;
   case "reset":
-    resetGameState();
+    resetGameState(process.argv[3]);
     break;
   case "show":
     showGameState();
     break;
+  case "policy":
+    setProbePolicy(process.argv[3], process.argv[4]);
+    break;
+  case "replay":
+    restoreReplayStart(process.argv[3]);
+    break;
+  case "rebuild":
+    rebuildAtTick(process.argv[3]);
+    break;
+  case "events":
+    showEvents(process.argv[3]);
+    break;
+  case "save":
+    runSaveCommand(
+      saves.saveGame.fn({ name: process.argv[3] ?? "" }, createLocalContext()),
+      "save <name>",
+    );
+    break;
+  case "saves":
+    listSaveSlots();
+    break;
+  case "load":
+    runSaveCommand(
+      saves.loadSave.fn({ name: process.argv[3] ?? "" }, createLocalContext()),
+      "load <name>",
+    );
+    break;
+  case "fork":
+    runSaveCommand(
+      saves.forkSave.fn(
+        { name: process.argv[3] ?? "", from: process.argv[4] },
+        createLocalContext(),
+      ),
+      "fork <new name> [from slot]",
+    );
+    break;
+  case "rollback":
+    runSaveCommand(
+      saves.rollback.fn(
+        {
+          toTick:
+            process.argv[3] === undefined ? undefined : Number(process.argv[3]),
+        },
+        createLocalContext(),
+      ),
+      "rollback [tick]",
+    );
+    break;
   default:
     logger.info("Usage:");
     logger.info(
       "  bun run src/game/debug-runner.ts debug  # Test Hatchet tasks",
     );
-    logger.info("  bun run src/game/debug-runner.ts reset  # Reset game state");
+    logger.info(
+      "  bun run src/game/debug-runner.ts reset [seed]  # Reset game state",
+    );
     logger.info(
       "  bun run src/game/debug-runner.ts show   # Show current state",
     );
+    logger.info(
+      "  bun run src/game/debug-runner.ts policy <probe> <llm|heuristic|random>  # Set a probe's policy",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts replay <log>  # Restore a recorded run's starting state",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts rebuild <tick>  # Restore the state at a tick from the event log",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts events <id>  # Audit trail of a probe, body, system or structure",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts save <name>  # Save the game to a slot",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts saves  # List save slots and snapshots",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts load <name>  # Load a save slot",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts fork <name> [from]  # Branch the game (or a slot) into a new slot",
+    );
+    logger.info(
+      "  bun run src/game/debug-runner.ts rollback [tick]  # Roll back to the latest snapshot at or before a tick",
+    );
 }
@@ -0,0 +1,421 @@
+import { gameState } from "@/game/core/game-state";
+import {
+  CAPABILITY_UPGRADES,
+  CapabilityNameType,
+  CelestialBody,
+  HARVEST_RANGE_AU,
+  HULL,
+  MANUFACTURING,
+  Position,
+  Probe,
+  ProductionCost,
+  RefiningRecipeNameType,
+  Resources,
+  SolarSystem,
+  Structure,
+  STRUCTURES,
+  StructureTypeName,
+  TaskError,
+  TaskErrorCodeType,
+  TRANSFER_RANGE_AU,
+} from "@/game/core/types";
+
+// Preconditions of the probe actions, shared by the rules in probe-actions.ts
+// and the pre-flight validator so the two can't disagree. Each returns the
+// failure, or undefined when the action may go ahead. Target checks only
+// look at the action's parameters and the galaxy; the rest depend on the
+// probe's position, cargo and state at the time.
+
+type Check = TaskError | undefined;
+
+const fail = (
+  code: TaskErrorCodeType,
+  reason: string,
+  details?: TaskError["details"],
+): TaskError => ({
+  code,
+  reason: `${code}, ${reason}`,
+  ...(details ? { details } : {}),
+});
+
+// A target in another system is out of range at any distance
+const outOfRange = (limit: number, distance: number): TaskError =>
+  Number.isFinite(distance)
+    ? fail(
+        "out_of_range",
+        `max distance is ${limit}, distance is ${distance.toFixed(2)}`,
+        { limit, actual: distance },
+      )
+    : fail("out_of_range", `target is in another system`, { limit });
+
+const shortOf = (
+  required: Partial<Resources> | Record<string, number | undefined>,
+  available: Resources | Record<string, number>,
+): TaskError =>
+  fail(
+    "insufficient_resources",
+    `required ${JSON.stringify(required)}, available ${JSON.stringify(available)}`,
+    { required, available },
+  );
+
+const checkCost = (probe: Probe, cost: ProductionCost): Check =>
+  gameState.canAffordCost(probe, cost)
+    ? undefined
+    : shortOf(
+        { ...cost.resources, ...cost.refined },
+        { ...probe.resources, ...probe.refinedGoods },
+      );
+
+const total = (amount: Partial<Resources>) =>
+  Object.values(amount).reduce<number>((sum, n) => sum + (n ?? 0), 0);
+
+export function checkNotTraveling(probe: Probe): Check {
+  if (probe.trajectory) {
+    return fail(
+      "already_traveling",
+      `arriving at tick ${probe.trajectory.arrivalTick}`,
+    );
+  }
+}
+
+// A probe can't leave a probe half-built behind; pause the job first
+export function checkCanDepart(probe: Probe): Check {
+  const blocked = checkNotTraveling(probe);
+  if (blocked) return blocked;
+
+  const job = probe.manufacturingJob;
+  if (job && !job.paused) {
+    return fail(
+      "job_in_progress",
+      `building ${job.newProbeName} (${job.progress}/${job.ticksRequired}), cancel manufacturing before traveling`,
+    );
+  }
+}
+
+// Target: a body of the probe's current system
+export function checkLocalBody(probe: Probe, bodyId: string): Check {
+  const system = gameState.getSolarSystem(probe.currentSystemId);
+  if (system?.bodies.some((b) => b.id === bodyId)) return;
+
+  const elsewhere = gameState
+    .getAllSystems()
+    .find((s) => s.bodies.some((b) => b.id === bodyId));
+  return elsewhere
+    ? fail(
+        "body_in_other_system",
+        `${bodyId} is in ${elsewhere.name}, travel to that system first`,
+      )
+    : fail("unknown_body", `no body ${bodyId} in ${system?.name}`);
+}
+
+// Scans reach as far as the sensors; harvesting and construction happen on
+// site, within HARVEST_RANGE_AU
+export function checkBodyInReach(
+  probe: Probe,
+  body: CelestialBody,
+  limit = HARVEST_RANGE_AU,
+): Check {
+  const distance = gameState.calculateDistance(probe.position, body.position);
+  if (distance > limit) return outOfRange(limit, distance);
+}
+
+export function checkInSystemTrip(probe: Probe, destination: Position): Check {
+  const { energyCost } = gameState.planInSystemTrip(probe, destination);
+  if (probe.resources.energy < energyCost) {
+    return fail(
+      "insufficient_energy",
+      `required ${energyCost} energy, available ${probe.resources.energy}`,
+      { required: energyCost, available: probe.resources.energy },
+    );
+  }
+}
+
+// Target: a system other than the one the probe is in
+export function checkInterstellarTarget(
+  probe: Probe,
+  target: SolarSystem | undefined,
+  targetSystemId: string,
+): Check {
+  if (!target) return fail("unknown_system", `no system ${targetSystemId}`);
+  if (target.id === probe.currentSystemId) {
+    return fail("already_in_system", `probe is already in ${target.name}`);
+  }
+}
+
+export function checkInterstellarFuel(
+  probe: Probe,
+  from: SolarSystem,
+  to: SolarSystem,
+): Check {
+  const { energyCost, hydrogenCost } = gameState.planInterstellarTrip(
+    probe,
+    from,
+    to,
+  );
+  const cost = { energy: energyCost, hydrogen: hydrogenCost };
+  if (!gameState.canAffordResources(probe.resources, cost)) {
+    return fail(
+      "insufficient_resources",
+      `required ${energyCost} energy and ${hydrogenCost} hydrogen, available ${probe.resources.energy} energy and ${probe.resources.hydrogen} hydrogen`,
+      {
+        required: cost,
+        available: {
+          energy: probe.resources.energy,
+          hydrogen: probe.resources.hydrogen,
+        },
+      },
+    );
+  }
+}
+
+// Only a full hold stops a harvest; otherwise it takes as much as fits
+export function checkHarvestStorage(probe: Probe): Check {
+  const held = gameState.getTotalResourceAmount(probe.resources);
+  const { storageCapacity } = probe.capabilities;
+  if (held >= storageCapacity) {
+    return fail(
+      "storage_full",
+      `current storage is ${held}, max storage is ${storageCapacity}`,
+      { limit: storageCapacity, actual: held },
+    );
+  }
+}
+
+// Target: another probe still in one piece, and something to hand over
+export function checkTransferTarget(
+  sender: Probe,
+  receiver: Probe | undefined,
+  receiverId: string,
+  amount: Partial<Resources>,
+): Check {
+  if (!receiver) return fail("probe_not_found", `no probe ${receiverId}`);
+  if (receiver.id === sender.id) {
+    return fail("invalid_parameters", "a probe cannot transfer to itself");
+  }
+  // Cargo handed to a wreck is lost for good
+  if (receiver.status === "destroyed") {
+    return fail("probe_destroyed", `${receiver.name} is destroyed`);
+  }
+  if (total(amount) <= 0) {
+    return fail("invalid_parameters", "nothing to transfer");
+  }
+}
+
+// Both probes side by side and stationary, the cargo on hand and room for it
+export function checkTransfer(
+  sender: Probe,
+  receiver: Probe,
+  amount: Partial<Resources>,
+): Check {
+  const moving = [sender, receiver].find((p) => p.trajectory);
+  if (moving) {
+    return fail("already_traveling", `${moving.name} is in flight`);
+  }
+
+  const distance =
+    sender.currentSystemId === receiver.currentSystemId
+      ? gameState.calculateDistance(sender.position, receiver.position)
+      : Infinity;
+  if (distance > TRANSFER_RANGE_AU) {
+    return outOfRange(TRANSFER_RANGE_AU, distance);
+  }
+
+  if (!gameState.canAffordResources(sender.resources, amount)) {
+    return shortOf(amount, sender.resources);
+  }
+
+  const held = gameState.getTotalResourceAmount(receiver.resources);
+  const { storageCapacity } = receiver.capabilities;
+  if (held + total(amount) > storageCapacity) {
+    return fail(
+      "storage_full",
+      `${receiver.name} holds ${held} of ${storageCapacity}`,
+      { required: total(amount), limit: storageCapacity, actual: held },
+    );
+  }
+}
+
+// Target: another probe
+export function checkMessageTarget(
+  sender: Probe,
+  recipient: Probe | undefined,
+  recipientId: string,
+): Check {
+  if (!recipient) return fail("probe_not_found", `no probe ${recipientId}`);
+  if (recipient.id === sender.id) {
+    return fail("invalid_parameters", "a probe cannot message itself");
+  }
+  if (recipient.status === "destroyed") {
+    return fail("probe_destroyed", `${recipient.name} is destroyed`);
+  }
+  if (!gameState.inContact(recipient)) {
+    return fail(
+      "out_of_range",
+      `${recipient.name} is crossing interstellar space until tick ${recipient.trajectory?.arrivalTick}`,
+    );
+  }
+}
+
+// Within the sender's communication range, or linked by relays
+export function checkMessageReach(sender: Probe, recipient: Probe): Check {
+  if (gameState.canMessage(sender, recipient)) return;
+
+  const distance = gameState.calculateProbeSeparation(sender, recipient);
+  const { communicationRange } = gameState.getEffectiveCapabilities(sender);
+  return fail(
+    "out_of_range",
+    `communication range is ${communicationRange} AU, distance is ${distance.toFixed(2)}`,
+    Number.isFinite(distance)
+      ? { limit: communicationRange, actual: distance }
+      : { limit: communicationRange },
+  );
+}
+
+export function checkUpgrade(
+  probe: Probe,
+  capability: CapabilityNameType,
+): Check {
+  const upgrade = gameState.planCapabilityUpgrade(probe, capability);
+  if (!upgrade) {
+    const maxLevel = CAPABILITY_UPGRADES[capability].length;
+    return fail(
+      "max_level_reached",
+      `${capability} is already at level ${maxLevel}`,
+      { limit: maxLevel, actual: maxLevel },
+    );
+  }
+  if (!gameState.canAffordResources(probe.resources, upgrade.cost)) {
+    return shortOf(upgrade.cost, probe.resources);
+  }
+}
+
+// `amount` in hull points; omitted, a full repair
+export function checkRepair(probe: Probe, amount?: number): Check {
+  const missing = HULL.max - probe.hullIntegrity;
+  if (missing <= 0) {
+    return fail(
+      "invalid_parameters",
+      `hull is already at ${probe.hullIntegrity} of ${HULL.max}`,
+      { limit: HULL.max, actual: probe.hullIntegrity },
+    );
+  }
+  const cost = gameState.repairCost(Math.min(amount ?? missing, missing));
+  if (!gameState.canAffordResources(probe.resources, cost)) {
+    return shortOf(cost, probe.resources);
+  }
+}
+
+export function checkRefining(
+  probe: Probe,
+  recipe: RefiningRecipeNameType,
+  batches: number,
+): Check {
+  const limit = Math.floor(
+    gameState.getEffectiveCapabilities(probe).refiningRate,
+  );
+  if (batches > limit) {
+    return fail(
+      "invalid_parameters",
+      `refining rate allows ${limit} batches per tick, requested ${batches}`,
+      { limit, actual: batches },
+    );
+  }
+
+  const { consumed, remainingResources } = gameState.planRefining(
+    probe,
+    recipe,
+    batches,
+  );
+  if (!gameState.canAffordResources(probe.resources, consumed)) {
+    return shortOf(consumed, probe.resources);
+  }
+
+  // Raw outputs (fusion energy) have to fit in storage
+  const after = gameState.getTotalResourceAmount(remainingResources);
+  const { storageCapacity } = probe.capabilities;
+  if (after > storageCapacity) {
+    return fail(
+      "storage_full",
+      `output would fill ${after} of ${storageCapacity}`,
+      { limit: storageCapacity, actual: after },
+    );
+  }
+}
+
+// Starting (or resuming) a build only needs the first installment on hand
+export function checkManufacturing(probe: Probe): Check {
+  const job = probe.manufacturingJob;
+  if (job && !job.paused) {
+    return fail(
+      "job_in_progress",
+      `already building ${job.newProbeName} (${job.progress}/${job.ticksRequired})`,
+    );
+  }
+  return (
+    checkNotTraveling(probe) ??
+    checkCost(
+      probe,
+      gameState.manufacturingInstallment(
+        job ?? { progress: 0, ticksRequired: MANUFACTURING.ticksRequired },
+      ),
+    )
+  );
+}
+
+export function checkCancelManufacturing(probe: Probe): Check {
+  const job = probe.manufacturingJob;
+  if (!job || job.paused) {
+    return fail("invalid_parameters", "no manufacturing job in progress");
+  }
+}
+
+// One structure of each type per body, paid for up front
+export function checkBuild(
+  probe: Probe,
+  body: CelestialBody,
+  type: StructureTypeName,
+): Check {
+  const existing = gameState
+    .getAllStructures()
+    .find((s) => s.bodyId === body.id && s.type === type);
+  if (existing) {
+    return fail(
+      "structure_exists",
+      `${body.name} already has ${existing.name} (${existing.id})`,
+    );
+  }
+  return checkCost(probe, STRUCTURES[type].cost);
+}
+
+// Target: a structure in the probe's current system
+export function checkStructureTarget(
+  probe: Probe,
+  structure: Structure | undefined,
+  structureId: string,
+): Check {
+  if (!structure) {
+    return fail("structure_not_found", `no structure ${structureId}`);
+  }
+  if (structure.systemId !== probe.currentSystemId) {
+    return fail(
+      "body_in_other_system",
+      `${structure.name} is in another system, travel there first`,
+    );
+  }
+}
+
+export function checkStructureInReach(
+  probe: Probe,
+  structure: Structure,
+): Check {
+  const body = gameState
+    .getSolarSystem(structure.systemId)
+    ?.bodies.find((b) => b.id === structure.bodyId);
+  const distance =
+    body && structure.systemId === probe.currentSystemId
+      ? gameState.calculateDistance(probe.position, body.position)
+      : Infinity;
+  if (distance > HARVEST_RANGE_AU) {
+    return outOfRange(HARVEST_RANGE_AU, distance);
+  }
+}
@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { GameState } from "@/game/core/types";
+import { BatchCheckpointSchema, loadBatchConfig, runBatch } from "./batch";
+
+const plain = (state: GameState) => JSON.parse(JSON.stringify(state));
+
+describe("batch runs", () => {
+  const file = (name: string) =>
+    path.join(path.dirname(process.env.STATE_FILE!), name);
+
+  it("summarizes and checkpoints a finished run", async () => {
+    gameState.resetGameState({ seed: 5 });
+    const checkpointFile = file("finished.json");
+
+    const result = await runBatch(
+      loadBatchConfig({ ticks: 4, summaryEvery: 2, checkpointFile }),
+    );
+
+    expect(result).toMatchObject({ ticksDone: 4, completed: true });
+    expect(result.summaries.map((s) => [s.fromTick, s.toTick])).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(
+      BatchCheckpointSchema.parse(
+        JSON.parse(fs.readFileSync(checkpointFile, "utf8")),
+      ).ticksDone,
+    ).toBe(4);
+  });
+
+  it("resumes an unfinished checkpoint where it left off", async () => {
+    gameState.resetGameState({ seed: 5 });
+    await runBatch(
+      loadBatchConfig({ ticks: 6, checkpointFile: file("straight.json") }),
+    );
+    const straight = plain(gameState.getState());
+
+    // Stop after three ticks, as if the process had died there
+    gameState.resetGameState({ seed: 5 });
+    const checkpointFile = file("interrupted.json");
+    const stopped = await runBatch(
+      loadBatchConfig({ ticks: 3, checkpointFile }),
+    );
+    fs.writeFileSync(
+      checkpointFile,
+      JSON.stringify({
+        ...stopped,
+        completed: false,
+        config: { ...stopped.config, ticks: 6 },
+      }),
+    );
+
+    // Whatever is loaded now is replaced by the checkpoint's state
+    gameState.resetGameState({ seed: 99 });
+    const resumed = await runBatch(
+      loadBatchConfig({ ticks: 1, checkpointFile }),
+    );
+
+    expect(resumed).toMatchObject({ ticksDone: 6, completed: true });
+    expect(plain(gameState.getState())).toEqual(straight);
+  });
+});
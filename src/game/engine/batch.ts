@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { gameState } from "@/game/core/game-state";
+import { GameStateSchema, TaskErrorCode } from "@/game/core/types";
+import { EventLogDetail } from "@/game/core/event-log";
+import { TickData } from "@/game/simulation/astral-echo-simulation";
+import { openDecisionLog } from "@/game/simulation/decision-log";
+import { logger } from "@/utils/logger";
+import { createLocalContext, errorLogger } from "./context";
+import { createEngine } from "./engine";
+
+export const BatchConfigSchema = z.object({
+  ticks: z.number().int().min(1),
+  checkpointEvery: z.number().int().min(1).default(1000),
+  summaryEvery: z.number().int().min(1).default(1000),
+  checkpointFile: z.string().default("batch-checkpoint.json"),
+  // How much of the run goes to the event log
+  eventLog: EventLogDetail.default("checkpoints"),
+});
+
+// What the agents did over a stretch of consecutive ticks
+const IntervalTotalsSchema = z.object({
+  fromTick: z.number(),
+  agentRuns: z.number(),
+  failedAgentRuns: z.number(),
+  actions: z.number(),
+  // How often each task error code came up among executed actions
+  errorCodes: z.record(TaskErrorCode, z.number()),
+  probesBuilt: z.number(),
+});
+
+// One summary interval: its totals plus the state of the world at its end
+export const BatchSummarySchema = IntervalTotalsSchema.extend({
+  toTick: z.number(),
+  gameYear: z.number(),
+  activeProbes: z.number(),
+  destroyedProbes: z.number(),
+  maxGeneration: z.number(),
+  systemsDiscovered: z.number(),
+  structures: z.number(),
+});
+
+// Everything needed to pick a batch up again: its settings, its progress,
+// the summaries so far and the game state as of the last completed tick
+export const BatchCheckpointSchema = z.object({
+  config: BatchConfigSchema,
+  startedAt: z.string(),
+  ticksDone: z.number(),
+  completed: z.boolean(),
+  summaries: z.array(BatchSummarySchema),
+  // The summary interval in progress
+  totals: IntervalTotalsSchema,
+  state: GameStateSchema,
+});
+
+export type BatchConfig = z.infer<typeof BatchConfigSchema>;
+export type BatchSummary = z.infer<typeof BatchSummarySchema>;
+export type BatchCheckpoint = z.infer<typeof BatchCheckpointSchema>;
+type IntervalTotals = z.infer<typeof IntervalTotalsSchema>;
+
+export const loadBatchConfig = (
+  overrides: Partial<BatchConfig> & Pick<BatchConfig, "ticks">,
+): BatchConfig =>
+  BatchConfigSchema.parse({
+    checkpointEvery: process.env.BATCH_CHECKPOINT_EVERY
+      ? Number(process.env.BATCH_CHECKPOINT_EVERY)
+      : undefined,
+    summaryEvery: process.env.BATCH_SUMMARY_EVERY
+      ? Number(process.env.BATCH_SUMMARY_EVERY)
+      : undefined,
+    checkpointFile: process.env.BATCH_CHECKPOINT,
+    eventLog: process.env.BATCH_EVENT_LOG,
+    ...overrides,
+  });
+
+const emptyTotals = (fromTick: number): IntervalTotals => ({
+  fromTick,
+  agentRuns: 0,
+  failedAgentRuns: 0,
+  actions: 0,
+  errorCodes: {},
+  probesBuilt: 0,
+});
+
+function addTick(totals: IntervalTotals, tick: TickData): IntervalTotals {
+  const errorCodes = { ...totals.errorCodes };
+  Object.entries(tick.errorCodes).forEach(([code, count]) => {
+    const key = code as keyof typeof errorCodes;
+    errorCodes[key] = (errorCodes[key] ?? 0) + count;
+  });
+  return {
+    ...totals,
+    agentRuns: totals.agentRuns + tick.probeResults.length,
+    failedAgentRuns: totals.failedAgentRuns + tick.failedProbes,
+    actions:
+      totals.actions +
+      tick.probeResults.reduce(
+        (sum, r) => sum + (r.result?.totalActions ?? 0),
+        0,
+      ),
+    errorCodes,
+    probesBuilt:
+      totals.probesBuilt +
+      tick.manufacturing.filter((job) => job.newProbeId).length,
+  };
+}
+
+function summarize(totals: IntervalTotals, toTick: number): BatchSummary {
+  const probes = gameState.getAllProbes();
+  const active = probes.filter((p) => p.status !== "destroyed");
+  return {
+    ...totals,
+    toTick,
+    gameYear: gameState.getState().clock.gameYear,
+    activeProbes: active.length,
+    destroyedProbes: probes.length - active.length,
+    maxGeneration: Math.max(0, ...probes.map((p) => p.generation)),
+    systemsDiscovered: gameState.getDiscoveredSystems().length,
+    structures: gameState.getAllStructures().length,
+  };
+}
+
+// An unfinished checkpoint to resume from, if there is one
+export function loadBatchCheckpoint(file: string): BatchCheckpoint | null {
+  if (!fs.existsSync(file)) return null;
+  const checkpoint = BatchCheckpointSchema.parse(
+    JSON.parse(fs.readFileSync(file, "utf8")),
+  );
+  return checkpoint.completed ? null : checkpoint;
+}
+
+// Write to a temporary file first, so a crash mid-write leaves the previous
+// checkpoint intact
+function saveBatchCheckpoint(file: string, checkpoint: BatchCheckpoint) {
+  const temp = path.join(path.dirname(file), `.${path.basename(file)}.tmp`);
+  fs.writeFileSync(temp, JSON.stringify(checkpoint));
+  fs.renameSync(temp, file);
+  gameState.saveNow();
+}
+
+// Run ticks back to back with only errors logged, keeping interval summaries
+// rather than every tick's results. The game state is saved at checkpoints
+// only; an unfinished checkpoint in `config.checkpointFile` is resumed, with
+// its own settings, instead of starting over.
+export async function runBatch(config: BatchConfig): Promise<BatchCheckpoint> {
+  const saved = loadBatchCheckpoint(config.checkpointFile);
+  let checkpoint: BatchCheckpoint;
+
+  if (saved) {
+    gameState.restoreGameState(saved.state);
+    checkpoint = saved;
+    logger.info(
+      `♻️  Resuming batch from ${config.checkpointFile} at tick ${saved.ticksDone}/${saved.config.ticks}`,
+    );
+  } else {
+    openDecisionLog(gameState.getState());
+    checkpoint = {
+      config,
+      startedAt: new Date().toISOString(),
+      ticksDone: 0,
+      completed: false,
+      summaries: [],
+      totals: emptyTotals(1),
+      state: gameState.getState(),
+    };
+    logger.info(
+      `🏁 Starting a ${config.ticks}-tick batch (summary every ${config.summaryEvery}, checkpoint every ${config.checkpointEvery})`,
+    );
+  }
+
+  const { ticks, summaryEvery, checkpointEvery, checkpointFile } =
+    checkpoint.config;
+  const engine = createEngine(
+    createLocalContext(errorLogger()),
+    checkpoint.ticksDone,
+  );
+  let { ticksDone, totals } = checkpoint;
+  const summaries = [...checkpoint.summaries];
+  const startTime = Date.now();
+  const startTick = ticksDone;
+
+  gameState.setAutosave(false);
+  gameState.setEventLogDetail(checkpoint.config.eventLog);
+  try {
+    while (ticksDone < ticks) {
+      const tickData = await engine.step();
+      ticksDone++;
+      totals = addTick(totals, tickData);
+
+      const extinct = tickData.probeCount === 0;
+      const finished = ticksDone === ticks || extinct;
+
+      if (ticksDone % summaryEvery === 0 || finished) {
+        const summary = summarize(totals, ticksDone);
+        summaries.push(summary);
+        totals = emptyTotals(ticksDone + 1);
+        logger.info(
+          `📊 Ticks ${summary.fromTick}-${summary.toTick} (year ${summary.gameYear}): 🛸 ${summary.activeProbes} active, 💀 ${summary.destroyedProbes} destroyed, 🐣 ${summary.probesBuilt} built, 🧬 gen ${summary.maxGeneration}, 🌟 ${summary.systemsDiscovered} systems | ⚡ ${summary.actions} actions, ❌ ${summary.failedAgentRuns} failed agent runs`,
+        );
+      }
+
+      if (ticksDone % checkpointEvery === 0 || finished) {
+        checkpoint = {
+          ...checkpoint,
+          ticksDone,
+          completed: finished,
+          summaries,
+          totals,
+          state: gameState.getState(),
+        };
+        saveBatchCheckpoint(checkpointFile, checkpoint);
+        const perSecond =
+          (ticksDone - startTick) / ((Date.now() - startTime) / 1000);
+        logger.info(
+          `💾 Checkpoint at tick ${ticksDone}/${ticks} (${perSecond.toFixed(1)} ticks/s)`,
+        );
+      }
+
+      if (extinct) {
+        logger.warn("🔚 All probes destroyed. Batch ending.");
+        break;
+      }
+    }
+  } finally {
+    gameState.setAutosave(true);
+    gameState.setEventLogDetail("full");
+  }
+
+  return checkpoint;
+}
@@ -0,0 +1,58 @@
+import { logger as rootLogger } from "@/utils/logger";
+
+export interface EngineLogger {
+  info(message: string, extra?: unknown): void;
+  warn(message: string, extra?: unknown): void;
+  error(message: string, extra?: unknown): void;
+  debug(message: string, extra?: unknown): void;
+}
+
+// What a rule gets to work with. Rules that drive other rules (the agent,
+// the simulation) go through runChild, so under Hatchet each nested rule
+// shows up as its own child run.
+export interface EngineContext {
+  logger: EngineLogger;
+  runChild<I, O>(rule: Rule<I, O>, input: I): Promise<O>;
+}
+
+// A game rule: a named, plain async function over the game state
+export interface Rule<I, O> {
+  name: string;
+  fn(input: I, ctx: EngineContext): Promise<O>;
+}
+
+export const defineRule = <I, O>(
+  name: string,
+  fn: (input: I, ctx: EngineContext) => Promise<O>,
+): Rule<I, O> => ({ name, fn });
+
+// Route messages with extra data the way pino expects them
+const pinoLogger = (base = rootLogger): EngineLogger => ({
+  info: (message, extra) =>
+    extra === undefined ? base.info(message) : base.info({ extra }, message),
+  warn: (message, extra) =>
+    extra === undefined ? base.warn(message) : base.warn({ extra }, message),
+  error: (message, extra) =>
+    extra === undefined ? base.error(message) : base.error({ extra }, message),
+  debug: (message, extra) =>
+    extra === undefined ? base.debug(message) : base.debug({ extra }, message),
+});
+
+// Errors only, for long unattended runs that report through summaries
+export const errorLogger = (base = rootLogger): EngineLogger => ({
+  ...pinoLogger(base),
+  info: () => {},
+  warn: () => {},
+  debug: () => {},
+});
+
+// Runs nested rules directly, in this process
+export function createLocalContext(
+  logger: EngineLogger = pinoLogger(),
+): EngineContext {
+  const ctx: EngineContext = {
+    logger,
+    runChild: (rule, input) => rule.fn(input, ctx),
+  };
+  return ctx;
+}
@@ -0,0 +1,45 @@
+import { ProbeActionType } from "@/game/agents/schemas";
+import { ExecutedAction, executeAction } from "@/game/agents/probe-agent";
+import {
+  simulateTick,
+  TickData,
+} from "@/game/simulation/astral-echo-simulation";
+import { createLocalContext, EngineContext } from "./context";
+
+// The game without an orchestrator: the same rules the Hatchet tasks run,
+// called directly in this process
+export interface Engine {
+  // Advance the world one tick, running every probe's agent
+  step(): Promise<TickData>;
+  // Validate one action for one probe and carry it out, outside any tick
+  execute(
+    probeId: string,
+    action: ProbeActionType,
+  ): Promise<ExecutedAction | null>;
+  // Step up to `ticks` times, stopping early once every probe is destroyed
+  run(ticks: number): Promise<TickData[]>;
+}
+
+// `ticksRun` continues the tick count of a run picked up part way through
+export function createEngine(
+  ctx: EngineContext = createLocalContext(),
+  ticksRun = 0,
+): Engine {
+  let ticks = ticksRun;
+
+  const engine: Engine = {
+    step: () => simulateTick(++ticks, ctx),
+    execute: (probeId, action) => executeAction(probeId, action, ctx),
+    run: async (count) => {
+      const log: TickData[] = [];
+      for (let i = 0; i < count; i++) {
+        const tickData = await engine.step();
+        log.push(tickData);
+        if (tickData.probeCount === 0) break;
+      }
+      return log;
+    },
+  };
+
+  return engine;
+}
@@ -0,0 +1,386 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import {
+  CAPABILITY_UPGRADES,
+  CelestialBody,
+  HARVEST_DEPLETION_FLOOR,
+  HARVEST_YIELDS,
+  HULL,
+  ManufacturingJob,
+  STRUCTURE_SALVAGE_FRACTION,
+  STRUCTURES,
+  Probe,
+  Resources,
+} from "@/game/core/types";
+import { createLocalContext } from "./context";
+import {
+  buildStructure,
+  decommissionStructure,
+  harvestResources,
+  refineResources,
+  repairHull,
+  upgradeCapability,
+} from "./probe-actions";
+
+const ctx = createLocalContext();
+
+const probe = (id: string) => gameState.getProbe(id)!;
+
+// Enough of everything for any single action
+const plenty: Resources = {
+  energy: 1e5,
+  hydrogen: 1e5,
+  metal: 1e5,
+  silicon: 1e5,
+  rare_elements: 1e5,
+};
+
+// A job a few ticks in, nothing paid yet
+const runningJob: ManufacturingJob = {
+  newProbeName: "Child",
+  startedAt: 0,
+  progress: 1,
+  ticksRequired: 5,
+  paid: {
+    resources: {
+      energy: 0,
+      hydrogen: 0,
+      metal: 0,
+      silicon: 0,
+      rare_elements: 0,
+    },
+    refined: { components: 0, electronics: 0 },
+  },
+  paused: false,
+};
+
+describe("probe actions", () => {
+  let genesis: Probe;
+
+  const setResources = (resources: Resources) =>
+    gameState.updateProbe(genesis.id, { resources }, "EnergyBalanced");
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+  });
+
+  describe("harvesting", () => {
+    let body: CelestialBody;
+
+    // The body as charted now, with `left` of each resource still in it
+    const withLeft = (left: number): CelestialBody => ({
+      ...body,
+      initialResources: body.resources,
+      resources: gameState.subtractResources(
+        body.resources,
+        Object.fromEntries(
+          Object.entries(body.resources).map(([r, n]) => [r, n * (1 - left)]),
+        ),
+      ),
+    });
+
+    beforeEach(() => {
+      body = gameState
+        .getSolarSystem(genesis.currentSystemId)!
+        .bodies.find((b) => b.type === "planet")!;
+      gameState.updateProbe(
+        genesis.id,
+        { position: body.position },
+        "ProbeMoved",
+      );
+    });
+
+    it("scales the harvest rate by the body's yields", () => {
+      const rate = 10;
+      const yields = HARVEST_YIELDS.planet;
+      expect(gameState.bodyYield(withLeft(1), rate)).toEqual({
+        energy: Math.floor(rate * yields.energy),
+        metal: Math.floor(rate * yields.metal),
+        silicon: Math.floor(rate * yields.silicon),
+        hydrogen: Math.floor(rate * yields.hydrogen),
+        rare_elements: Math.floor(rate * yields.rare_elements),
+      });
+    });
+
+    it("yields less as a body is depleted, down to the floor", () => {
+      const rate = 100;
+      const full = gameState.bodyYield(withLeft(1), rate).metal;
+      expect(gameState.bodyYield(withLeft(0.5), rate).metal).toBe(
+        Math.floor(rate * HARVEST_YIELDS.planet.metal * 0.5),
+      );
+      expect(gameState.bodyYield(withLeft(0.01), rate).metal).toBe(
+        Math.min(
+          withLeft(0.01).resources.metal,
+          Math.floor(full * HARVEST_DEPLETION_FLOOR),
+        ),
+      );
+    });
+
+    it("yields nothing from a star", () => {
+      const star = gameState.getSolarSystem(genesis.currentSystemId)!.star;
+      expect(
+        gameState.getTotalResourceAmount(gameState.bodyYield(star, 100)),
+      ).toBe(0);
+    });
+
+    it("takes what it harvests out of the body", async () => {
+      const result = await harvestResources.fn(
+        { probeId: genesis.id, targetBodyId: body.id, duration: 1 },
+        ctx,
+      );
+
+      const mined = gameState
+        .getSolarSystem(genesis.currentSystemId)!
+        .bodies.find((b) => b.id === body.id)!;
+      expect(mined.resources).toEqual(
+        gameState.subtractResources(
+          body.resources,
+          result.data!.harvestedResources,
+        ),
+      );
+      expect(probe(genesis.id).resources).toEqual(
+        gameState.addResources(
+          genesis.resources,
+          result.data!.harvestedResources,
+        ),
+      );
+    });
+
+    it("keeps a probe building while it harvests", async () => {
+      gameState.updateProbe(
+        genesis.id,
+        { status: "manufacturing", manufacturingJob: runningJob },
+        "ManufacturingStarted",
+      );
+
+      await harvestResources.fn(
+        { probeId: genesis.id, targetBodyId: body.id, duration: 1 },
+        ctx,
+      );
+
+      expect(probe(genesis.id).status).toBe("manufacturing");
+    });
+  });
+
+  describe("structures", () => {
+    let bodyId: string;
+
+    const build = () =>
+      buildStructure.fn(
+        { probeId: genesis.id, structureType: "automated_miner", bodyId },
+        ctx,
+      );
+
+    beforeEach(() => {
+      const body = gameState.getSolarSystem(genesis.currentSystemId)!.bodies[0];
+      bodyId = body.id;
+      gameState.updateProbe(
+        genesis.id,
+        {
+          position: body.position,
+          resources: { ...genesis.resources, energy: 1000, metal: 1000 },
+          refinedGoods: { components: 20, electronics: 0 },
+        },
+        "ProbeMoved",
+      );
+    });
+
+    it("builds one structure of a type per body, for its cost", async () => {
+      const before = probe(genesis.id);
+      const { cost } = STRUCTURES.automated_miner;
+
+      const result = await build();
+
+      expect(gameState.getStructure(result.data!.structureId)?.bodyId).toBe(
+        bodyId,
+      );
+      expect(probe(genesis.id).resources).toEqual(
+        gameState.subtractResources(before.resources, cost.resources),
+      );
+      expect(probe(genesis.id).refinedGoods.components).toBe(
+        before.refinedGoods.components - cost.refined.components!,
+      );
+      expect((await build()).error?.code).toBe("structure_exists");
+    });
+
+    it("salvages part of the cost when decommissioned", async () => {
+      const { structureId } = (await build()).data!;
+      const before = probe(genesis.id).resources;
+
+      const result = await decommissionStructure.fn(
+        { probeId: genesis.id, structureId },
+        ctx,
+      );
+
+      expect(gameState.getStructure(structureId)).toBeUndefined();
+      expect(result.data!.salvaged.metal).toBe(
+        Math.floor(
+          STRUCTURES.automated_miner.cost.resources.metal *
+            STRUCTURE_SALVAGE_FRACTION,
+        ),
+      );
+      expect(probe(genesis.id).resources.metal).toBe(
+        before.metal + result.data!.salvaged.metal,
+      );
+    });
+  });
+
+  describe("capability upgrades", () => {
+    const upgrade = () =>
+      upgradeCapability.fn(
+        { probeId: genesis.id, capability: "sensorRange" },
+        ctx,
+      );
+
+    it("raises the capability one level for its cost", async () => {
+      setResources(plenty);
+      const [first] = CAPABILITY_UPGRADES.sensorRange;
+
+      const result = await upgrade();
+
+      expect(result.data).toMatchObject({
+        level: 1,
+        previousValue: genesis.capabilities.sensorRange,
+        newValue: genesis.capabilities.sensorRange + first.bonus,
+      });
+      expect(probe(genesis.id).capabilities.sensorRange).toBe(
+        result.data!.newValue,
+      );
+      expect(probe(genesis.id).capabilityLevels.sensorRange).toBe(1);
+      expect(probe(genesis.id).resources).toEqual(
+        gameState.subtractResources(plenty, first.cost),
+      );
+    });
+
+    it("stops at the last level", async () => {
+      setResources(plenty);
+      for (const _ of CAPABILITY_UPGRADES.sensorRange) {
+        expect((await upgrade()).success).toBe(true);
+      }
+
+      const result = await upgrade();
+      expect(result.error?.code).toBe("max_level_reached");
+    });
+
+    it("changes nothing when the probe can't pay", async () => {
+      setResources({ ...plenty, rare_elements: 0 });
+
+      const result = await upgrade();
+
+      expect(result.error?.code).toBe("insufficient_resources");
+      expect(probe(genesis.id).capabilities).toEqual(genesis.capabilities);
+      expect(probe(genesis.id).resources.metal).toBe(plenty.metal);
+    });
+  });
+
+  describe("hull repair", () => {
+    const repair = (amount?: number) =>
+      repairHull.fn({ probeId: genesis.id, amount }, ctx);
+
+    beforeEach(() => {
+      gameState.updateProbe(
+        genesis.id,
+        { hullIntegrity: 30, status: "damaged" },
+        "HullDamaged",
+      );
+    });
+
+    it("restores hull for metal and silicon", async () => {
+      setResources(plenty);
+
+      const result = await repair(20);
+
+      expect(result.success).toBe(true);
+      expect(probe(genesis.id).hullIntegrity).toBe(50);
+      expect(probe(genesis.id).status).toBe("active");
+      expect(probe(genesis.id).resources).toEqual(
+        gameState.subtractResources(plenty, gameState.repairCost(20)),
+      );
+    });
+
+    it("repairs fully by default and no further", async () => {
+      setResources(plenty);
+      await repair();
+      expect(probe(genesis.id).hullIntegrity).toBe(HULL.max);
+
+      expect((await repair()).error?.code).toBe("invalid_parameters");
+    });
+
+    it("keeps a probe building through a repair", async () => {
+      setResources(plenty);
+      gameState.updateProbe(
+        genesis.id,
+        { status: "manufacturing", manufacturingJob: runningJob },
+        "ManufacturingStarted",
+      );
+
+      await repair();
+
+      expect(probe(genesis.id).status).toBe("manufacturing");
+    });
+
+    it("changes nothing when the probe can't pay", async () => {
+      setResources({ ...plenty, metal: 0 });
+
+      expect((await repair()).error?.code).toBe("insufficient_resources");
+      expect(probe(genesis.id).hullIntegrity).toBe(30);
+    });
+  });
+
+  describe("refining", () => {
+    const refine = (
+      recipe: "fusion" | "components" | "electronics",
+      batches: number,
+    ) => refineResources.fn({ probeId: genesis.id, recipe, batches }, ctx);
+
+    it("turns raw resources into refined goods", async () => {
+      const result = await refine("components", 2);
+
+      expect(result.data?.consumed).toEqual({
+        metal: 4,
+        silicon: 2,
+        energy: 2,
+      });
+      expect(probe(genesis.id).refinedGoods.components).toBe(
+        genesis.refinedGoods.components + 2,
+      );
+      expect(probe(genesis.id).resources.metal).toBe(
+        genesis.resources.metal - 4,
+      );
+    });
+
+    it("burns hydrogen for energy while it fits in storage", async () => {
+      const result = await refine("fusion", 1);
+      expect(probe(genesis.id).resources).toEqual(
+        result.data?.remainingResources,
+      );
+      expect(result.data?.remainingResources.energy).toBe(
+        genesis.resources.energy + 10,
+      );
+
+      // Fill the hold to the brim with hydrogen
+      setResources({
+        ...genesis.resources,
+        hydrogen:
+          genesis.resources.hydrogen +
+          genesis.capabilities.storageCapacity -
+          gameState.getTotalResourceAmount(genesis.resources),
+      });
+      expect((await refine("fusion", 1)).error?.code).toBe("storage_full");
+    });
+
+    it("refuses more batches than the refining rate or the inputs allow", async () => {
+      const rate = Math.floor(genesis.capabilities.refiningRate);
+      expect((await refine("components", rate + 1)).error?.code).toBe(
+        "invalid_parameters",
+      );
+
+      setResources({ ...genesis.resources, rare_elements: 0 });
+      expect((await refine("electronics", 1)).error?.code).toBe(
+        "insufficient_resources",
+      );
+      expect(probe(genesis.id).refinedGoods).toEqual(genesis.refinedGoods);
+    });
+  });
+});
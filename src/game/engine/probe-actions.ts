@@ -0,0 +1,1446 @@
+import { defineRule } from "@/game/engine/context";
+import { z } from "zod";
+import { gameState } from "@/game/core/game-state";
+import {
+  checkBodyInReach,
+  checkBuild,
+  checkCancelManufacturing,
+  checkCanDepart,
+  checkHarvestStorage,
+  checkInSystemTrip,
+  checkInterstellarFuel,
+  checkInterstellarTarget,
+  checkLocalBody,
+  checkManufacturing,
+  checkMessageReach,
+  checkMessageTarget,
+  checkNotTraveling,
+  checkRefining,
+  checkRepair,
+  checkStructureInReach,
+  checkStructureTarget,
+  checkTransfer,
+  checkTransferTarget,
+  checkUpgrade,
+} from "@/game/engine/action-checks";
+import {
+  PositionSchema,
+  BaseTaskOutputSchema,
+  ResourceType,
+  Resources,
+  MESSAGING,
+  Probe,
+  CapabilityName,
+  ResourcesSchema,
+  HULL,
+  ENERGY,
+  MANUFACTURING,
+  RefiningRecipeName,
+  RefinedGoods,
+  RefinedGoodsSchema,
+  StructureSchema,
+  StructureType,
+  STRUCTURES,
+  STRUCTURE_SALVAGE_FRACTION,
+} from "@/game/core/types";
+import { deterministicId } from "@/utils/random";
+import { systemArrivalPoint } from "@/game/simulation/travel";
+
+// Task: Travel to position
+export const travelToPositionInput = z.object({
+  probeId: z.string(),
+  targetPosition: PositionSchema,
+});
+
+export const travelToPositionOutput = BaseTaskOutputSchema(
+  z.object({
+    distance: z.number(),
+    energyUsed: z.number(),
+    travelTime: z.number(), // ticks
+    departureTick: z.number(),
+    arrivalTick: z.number(),
+    destination: PositionSchema,
+  }),
+);
+
+export const travelToPosition = defineRule(
+  "travel-to-position",
+  async (input: z.infer<typeof travelToPositionInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return travelToPositionOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked =
+      checkCanDepart(probe) ?? checkInSystemTrip(probe, input.targetPosition);
+    if (blocked) {
+      ctx.logger.warn(`[PROBE ${probe.name}] Can't travel: ${blocked.reason}`);
+      return travelToPositionOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const {
+      distance,
+      energyCost,
+      travelTicks: travelTime,
+    } = gameState.planInSystemTrip(probe, input.targetPosition);
+
+    // Depart: the simulation moves the probe along its trajectory each tick
+    // and lands it at arrivalTick (see advanceTrajectories)
+    const departureTick = gameState.getCurrentTick();
+    const arrivalTick = departureTick + travelTime;
+
+    gameState.updateProbe(
+      input.probeId,
+      {
+        status: "traveling",
+        resources: gameState.subtractResources(probe.resources, {
+          energy: energyCost,
+          metal: 0,
+          silicon: 0,
+          hydrogen: 0,
+          rare_elements: 0,
+        }),
+        trajectory: {
+          kind: "in_system",
+          originSystemId: probe.currentSystemId,
+          destinationSystemId: probe.currentSystemId,
+          origin: probe.position,
+          destination: input.targetPosition,
+          distance,
+          departureTick,
+          arrivalTick,
+        },
+      },
+      "ProbeDeparted",
+    );
+
+    gameState.addProbeExperience(input.probeId, {
+      event: "travel_started",
+      data: {
+        fromPosition: probe.position,
+        toPosition: input.targetPosition,
+        distance,
+        energyUsed: energyCost,
+        travelTime,
+        arrivalTick,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Departed for (${input.targetPosition.x}, ${input.targetPosition.y}, ${input.targetPosition.z}): ${distance.toFixed(1)} AU, arriving at tick ${arrivalTick}`,
+    );
+
+    return travelToPositionOutput.parse({
+      success: true,
+      data: {
+        distance,
+        energyUsed: energyCost,
+        travelTime,
+        departureTick,
+        arrivalTick,
+        destination: input.targetPosition,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Travel to another solar system
+export const travelToSystemInput = z.object({
+  probeId: z.string(),
+  targetSystemId: z.string(),
+});
+
+export const travelToSystemOutput = BaseTaskOutputSchema(
+  z.object({
+    distance: z.number(),
+    energyUsed: z.number(),
+    hydrogenUsed: z.number(),
+    travelTicks: z.number(),
+    arrivalTick: z.number(),
+    targetSystemName: z.string(),
+  }),
+);
+
+export const travelToSystem = defineRule(
+  "travel-to-system",
+  async (input: z.infer<typeof travelToSystemInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return travelToSystemOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const currentSystem = gameState.getSolarSystem(probe.currentSystemId);
+    const targetSystem = gameState.getSolarSystem(input.targetSystemId);
+
+    if (!currentSystem) {
+      return travelToSystemOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "unknown_system",
+          reason: `Solar system ${probe.currentSystemId} not found`,
+        },
+      });
+    }
+
+    const blocked =
+      checkInterstellarTarget(probe, targetSystem, input.targetSystemId) ??
+      checkCanDepart(probe) ??
+      (targetSystem &&
+        checkInterstellarFuel(probe, currentSystem, targetSystem));
+    if (blocked || !targetSystem) {
+      ctx.logger.warn(
+        `[PROBE ${probe.name}] Can't leave ${currentSystem.name}: ${blocked?.reason}`,
+      );
+      return travelToSystemOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const { distance, energyCost, hydrogenCost, travelTicks } =
+      gameState.planInterstellarTrip(probe, currentSystem, targetSystem);
+    const cost = {
+      energy: energyCost,
+      metal: 0,
+      silicon: 0,
+      hydrogen: hydrogenCost,
+      rare_elements: 0,
+    };
+
+    const departureTick = gameState.getCurrentTick();
+    const arrivalTick = departureTick + travelTicks;
+
+    gameState.updateProbe(
+      input.probeId,
+      {
+        status: "traveling",
+        resources: gameState.subtractResources(probe.resources, cost),
+        trajectory: {
+          kind: "interstellar",
+          originSystemId: currentSystem.id,
+          destinationSystemId: targetSystem.id,
+          origin: probe.position,
+          destination: systemArrivalPoint(targetSystem),
+          distance,
+          departureTick,
+          arrivalTick,
+        },
+      },
+      "ProbeDeparted",
+    );
+
+    gameState.addProbeExperience(input.probeId, {
+      event: "interstellar_departure",
+      data: {
+        fromSystemId: currentSystem.id,
+        fromSystemName: currentSystem.name,
+        toSystemId: targetSystem.id,
+        toSystemName: targetSystem.name,
+        distance,
+        energyUsed: energyCost,
+        hydrogenUsed: hydrogenCost,
+        travelTicks,
+        arrivalTick,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Departed ${currentSystem.name} for ${targetSystem.name}: ${distance.toFixed(1)} ly, ${travelTicks} ticks`,
+    );
+
+    return travelToSystemOutput.parse({
+      success: true,
+      data: {
+        distance,
+        energyUsed: energyCost,
+        hydrogenUsed: hydrogenCost,
+        travelTicks,
+        arrivalTick,
+        targetSystemName: targetSystem.name,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Harvest resources
+export const harvestResourcesInput = z.object({
+  probeId: z.string(),
+  targetBodyId: z.string(),
+  duration: z.number().min(1).max(100), // harvesting cycles
+  resourceTypes: z.array(ResourceType).min(1).optional(), // default: all
+});
+
+export const harvestResourcesOutput = BaseTaskOutputSchema(
+  z.object({
+    harvestedResources: z.record(z.any()),
+    duration: z.number(),
+    remainingOnBody: z.record(z.any()),
+    storageLimited: z.boolean(), // stopped short because storage filled up
+  }),
+);
+
+export const harvestResources = defineRule(
+  "harvest-resources",
+  async (input: z.infer<typeof harvestResourcesInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return harvestResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const currentSystem = gameState.getSolarSystem(probe.currentSystemId);
+
+    if (!currentSystem) {
+      return harvestResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "unknown_system",
+          reason: `Solar system ${probe.currentSystemId} not found`,
+        },
+      });
+    }
+
+    const targetBody = currentSystem.bodies.find(
+      (b) => b.id === input.targetBodyId,
+    );
+    const blocked = targetBody
+      ? (checkBodyInReach(probe, targetBody) ?? checkHarvestStorage(probe))
+      : checkLocalBody(probe, input.targetBodyId);
+
+    if (blocked || !targetBody) {
+      ctx.logger.warn(
+        `[PROBE ${probe.name}] Can't harvest: ${blocked?.reason}`,
+      );
+      return harvestResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const planned = gameState.planHarvest(
+      probe,
+      targetBody,
+      input.duration,
+      input.resourceTypes,
+    );
+
+    // Take as much as fits, scaled down evenly across resources, then top up
+    // with whatever rounding left over
+    const totalPlanned = gameState.getTotalResourceAmount(planned);
+    const freeStorage =
+      probe.capabilities.storageCapacity -
+      gameState.getTotalResourceAmount(probe.resources);
+    const storageLimited = totalPlanned > freeStorage;
+    const actualHarvest = { ...planned };
+    if (storageLimited) {
+      const scale = freeStorage / totalPlanned;
+      ResourceType.options.forEach((resource) => {
+        actualHarvest[resource] = Math.floor(planned[resource] * scale);
+      });
+      let leftover =
+        freeStorage - gameState.getTotalResourceAmount(actualHarvest);
+      ResourceType.options.forEach((resource) => {
+        const extra = Math.min(
+          leftover,
+          planned[resource] - actualHarvest[resource],
+        );
+        actualHarvest[resource] += extra;
+        leftover -= extra;
+      });
+    }
+
+    // Update probe resources and body resources
+    gameState.updateProbe(
+      input.probeId,
+      {
+        status: "harvesting",
+        resources: gameState.addResources(probe.resources, actualHarvest),
+      },
+      "ResourcesHarvested",
+    );
+
+    // Update the celestial body's resources (reduce them)
+    gameState.mineBody(
+      currentSystem.id,
+      targetBody.id,
+      actualHarvest,
+      input.probeId,
+    );
+
+    // Add experience
+    gameState.addProbeExperience(input.probeId, {
+      event: "resources_harvested",
+      data: {
+        bodyId: targetBody.id,
+        bodyName: targetBody.name,
+        harvestedResources: actualHarvest,
+        duration: input.duration,
+        storageLimited,
+      },
+    });
+
+    gameState.updateProbe(
+      input.probeId,
+      {
+        status: gameState.resumedStatus(probe, probe.hullIntegrity),
+      },
+      "HarvestFinished",
+    );
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Harvested from ${targetBody.name}: ${JSON.stringify(actualHarvest)}${storageLimited ? " (storage full)" : ""}`,
+    );
+
+    return harvestResourcesOutput.parse({
+      success: true,
+      data: {
+        harvestedResources: actualHarvest,
+        duration: input.duration,
+        remainingOnBody: gameState.subtractResources(
+          targetBody.resources,
+          actualHarvest,
+        ),
+        storageLimited,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Start (or resume) manufacturing a new probe. The work happens over
+// MANUFACTURING.ticksRequired ticks in the simulation loop, which charges an
+// installment of the cost each tick and produces the child at the end.
+export const manufactureProbeInput = z.object({
+  probeId: z.string(),
+  newProbeName: z.string(),
+});
+
+export const manufactureProbeOutput = BaseTaskOutputSchema(
+  z.object({
+    newProbeName: z.string(),
+    progress: z.number(),
+    ticksRequired: z.number(),
+    resumed: z.boolean(),
+    // Charged at the start of the next tick
+    nextInstallment: z.object({
+      resources: ResourcesSchema,
+      refined: RefinedGoodsSchema.partial(),
+    }),
+  }),
+);
+
+export const manufactureProbe = defineRule(
+  "manufacture-probe",
+  async (input: z.infer<typeof manufactureProbeInput>, ctx) => {
+    const parentProbe = gameState.getProbe(input.probeId);
+
+    if (!parentProbe) {
+      return manufactureProbeOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked = checkManufacturing(parentProbe);
+    if (blocked) {
+      ctx.logger.warn(
+        `[PROBE ${parentProbe.name}] Can't manufacture: ${blocked.reason}`,
+      );
+      return manufactureProbeOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const existing = parentProbe.manufacturingJob;
+    // A paused job picks up where it left off, under its original name
+    const job = existing
+      ? { ...existing, paused: false }
+      : {
+          newProbeName: input.newProbeName,
+          startedAt: gameState.getCurrentTick(),
+          progress: 0,
+          ticksRequired: MANUFACTURING.ticksRequired,
+          paid: {
+            resources: {
+              energy: 0,
+              metal: 0,
+              silicon: 0,
+              hydrogen: 0,
+              rare_elements: 0,
+            },
+            refined: { components: 0, electronics: 0 },
+          },
+          paused: false,
+        };
+
+    const installment = gameState.manufacturingInstallment(job);
+
+    gameState.updateProbe(
+      parentProbe.id,
+      {
+        status: "manufacturing",
+        manufacturingJob: job,
+      },
+      "ManufacturingStarted",
+    );
+
+    gameState.addProbeExperience(parentProbe.id, {
+      event: existing ? "manufacturing_resumed" : "manufacturing_started",
+      data: {
+        newProbeName: job.newProbeName,
+        progress: job.progress,
+        ticksRequired: job.ticksRequired,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${parentProbe.name}] ${existing ? "Resumed" : "Started"} manufacturing ${job.newProbeName} (${job.progress}/${job.ticksRequired})`,
+    );
+
+    return manufactureProbeOutput.parse({
+      success: true,
+      data: {
+        newProbeName: job.newProbeName,
+        progress: job.progress,
+        ticksRequired: job.ticksRequired,
+        resumed: existing !== undefined,
+        nextInstallment: installment,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Pause the current manufacturing job. Progress and everything paid so
+// far stay with the job; manufacture-probe resumes it.
+export const cancelManufacturingInput = z.object({
+  probeId: z.string(),
+});
+
+export const cancelManufacturingOutput = BaseTaskOutputSchema(
+  z.object({
+    newProbeName: z.string(),
+    progress: z.number(),
+    ticksRequired: z.number(),
+    paid: z.object({
+      resources: ResourcesSchema,
+      refined: RefinedGoodsSchema,
+    }),
+  }),
+);
+
+export const cancelManufacturing = defineRule(
+  "cancel-manufacturing",
+  async (input: z.infer<typeof cancelManufacturingInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return cancelManufacturingOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked = checkCancelManufacturing(probe);
+    const job = probe.manufacturingJob;
+    if (blocked || !job) {
+      return cancelManufacturingOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    gameState.updateProbe(
+      probe.id,
+      {
+        status: gameState.idleStatus(probe.hullIntegrity),
+        manufacturingJob: { ...job, paused: true },
+      },
+      "ManufacturingPaused",
+    );
+
+    gameState.addProbeExperience(probe.id, {
+      event: "manufacturing_cancelled",
+      data: {
+        newProbeName: job.newProbeName,
+        progress: job.progress,
+        ticksRequired: job.ticksRequired,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Paused manufacturing ${job.newProbeName} at ${job.progress}/${job.ticksRequired}`,
+    );
+
+    return cancelManufacturingOutput.parse({
+      success: true,
+      data: {
+        newProbeName: job.newProbeName,
+        progress: job.progress,
+        ticksRequired: job.ticksRequired,
+        paid: job.paid,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Transfer resources to another probe
+export const transferResourcesInput = z.object({
+  probeId: z.string(),
+  targetProbeId: z.string(),
+  resources: z.record(ResourceType, z.number().min(0)),
+});
+
+export const transferResourcesOutput = BaseTaskOutputSchema(
+  z.object({
+    targetProbeName: z.string(),
+    transferred: z.record(z.any()),
+    remaining: z.record(z.any()),
+  }),
+);
+
+export const transferResources = defineRule(
+  "transfer-resources",
+  async (input: z.infer<typeof transferResourcesInput>, ctx) => {
+    const sender = gameState.getProbe(input.probeId);
+    const receiver = gameState.getProbe(input.targetProbeId);
+
+    if (!sender) {
+      return transferResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const amount: Resources = {
+      energy: input.resources.energy ?? 0,
+      metal: input.resources.metal ?? 0,
+      silicon: input.resources.silicon ?? 0,
+      hydrogen: input.resources.hydrogen ?? 0,
+      rare_elements: input.resources.rare_elements ?? 0,
+    };
+    const blocked =
+      checkTransferTarget(sender, receiver, input.targetProbeId, amount) ??
+      (receiver && checkTransfer(sender, receiver, amount));
+
+    if (blocked || !receiver) {
+      ctx.logger.warn(
+        `[PROBE ${sender.name}] Can't transfer: ${blocked?.reason}`,
+      );
+      return transferResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const remaining = gameState.subtractResources(sender.resources, amount);
+    gameState.updateProbe(
+      sender.id,
+      { resources: remaining },
+      "ResourcesTransferred",
+    );
+    gameState.updateProbe(
+      receiver.id,
+      {
+        resources: gameState.addResources(receiver.resources, amount),
+      },
+      "ResourcesTransferred",
+    );
+
+    // Both sides remember the same handover
+    const transfer = {
+      fromProbeId: sender.id,
+      fromProbeName: sender.name,
+      toProbeId: receiver.id,
+      toProbeName: receiver.name,
+      resources: amount,
+    };
+    gameState.addProbeExperience(sender.id, {
+      event: "resources_sent",
+      data: transfer,
+    });
+    gameState.addProbeExperience(receiver.id, {
+      event: "resources_received",
+      data: transfer,
+    });
+
+    ctx.logger.info(
+      `[PROBE ${sender.name}] Transferred ${JSON.stringify(amount)} to ${receiver.name}`,
+    );
+
+    return transferResourcesOutput.parse({
+      success: true,
+      data: {
+        targetProbeName: receiver.name,
+        transferred: amount,
+        remaining,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Send a message to another probe, or broadcast to every probe in range
+export const sendMessageInput = z.object({
+  probeId: z.string(),
+  recipientId: z.string().optional(), // omit to broadcast
+  content: z.string(),
+  shareDiscoveries: z.boolean().optional(),
+});
+
+export const sendMessageOutput = BaseTaskOutputSchema(
+  z.object({
+    recipients: z.array(
+      z.object({
+        probeId: z.string(),
+        name: z.string(),
+        distance: z.number(), // AU
+        deliverAt: z.number(), // tick
+      }),
+    ),
+  }),
+);
+
+export const sendMessage = defineRule(
+  "send-message",
+  async (input: z.infer<typeof sendMessageInput>, ctx) => {
+    const sender = gameState.getProbe(input.probeId);
+
+    if (!sender) {
+      return sendMessageOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const content = input.content.trim();
+    if (content.length === 0 || content.length > MESSAGING.maxLength) {
+      return sendMessageOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "invalid_parameters",
+          reason: `invalid_parameters, content must be 1-${MESSAGING.maxLength} characters`,
+          details: { limit: MESSAGING.maxLength, actual: content.length },
+        },
+      });
+    }
+
+    let candidates: Probe[];
+    if (input.recipientId) {
+      const recipient = gameState.getProbe(input.recipientId);
+      const blocked =
+        checkMessageTarget(sender, recipient, input.recipientId) ??
+        (recipient && checkMessageReach(sender, recipient));
+      if (blocked || !recipient) {
+        return sendMessageOutput.parse({
+          success: false,
+          data: null,
+          error: blocked,
+        });
+      }
+      candidates = [recipient];
+    } else {
+      candidates = gameState
+        .getAllProbes()
+        .filter((p) => p.id !== sender.id && gameState.inContact(p));
+    }
+
+    const range = gameState.getEffectiveCapabilities(sender).communicationRange;
+    const inRange = candidates
+      .map((recipient) => ({
+        recipient,
+        distance: gameState.calculateProbeSeparation(sender, recipient),
+      }))
+      .filter(({ recipient }) => gameState.canMessage(sender, recipient));
+
+    // Only a broadcast can find nobody listening
+    if (inRange.length === 0) {
+      return sendMessageOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "out_of_range",
+          reason: `out_of_range, no probes within ${range} AU`,
+          details: { limit: range },
+        },
+      });
+    }
+
+    const sentAt = gameState.getCurrentTick();
+    const discoveries = input.shareDiscoveries
+      ? { ...sender.memory.discoveredResources }
+      : undefined;
+
+    const recipients = inRange.map(({ recipient, distance }, index) => {
+      const deliverAt = sentAt + gameState.lightDelayTicks(distance);
+      gameState.addMessage({
+        id: deterministicId(
+          "message",
+          sender.id,
+          recipient.id,
+          sentAt,
+          sender.messagesSent + index,
+        ),
+        fromProbeId: sender.id,
+        fromProbeName: sender.name,
+        toProbeId: recipient.id,
+        content,
+        discoveries,
+        distance,
+        sentAt,
+        deliverAt,
+        delivered: false,
+      });
+      return {
+        probeId: recipient.id,
+        name: recipient.name,
+        distance,
+        deliverAt,
+      };
+    });
+
+    // Anyone we have written to is a probe we know about
+    const knownProbes = [
+      ...new Set([
+        ...sender.memory.knownProbes,
+        ...recipients.map((r) => r.probeId),
+      ]),
+    ];
+    gameState.updateProbe(
+      sender.id,
+      {
+        memory: { ...sender.memory, knownProbes },
+        messagesSent: sender.messagesSent + recipients.length,
+      },
+      "MessageSent",
+    );
+
+    gameState.addProbeExperience(sender.id, {
+      event: "message_sent",
+      data: {
+        recipients: recipients.map((r) => r.name),
+        content,
+        sharedDiscoveries: discoveries ? Object.keys(discoveries).length : 0,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${sender.name}] Sent message to ${recipients.map((r) => r.name).join(", ")}`,
+    );
+
+    return sendMessageOutput.parse({
+      success: true,
+      data: { recipients },
+      error: null,
+    });
+  },
+);
+
+// Task: Upgrade one of the probe's capabilities by a level
+export const upgradeCapabilityInput = z.object({
+  probeId: z.string(),
+  capability: CapabilityName,
+});
+
+export const upgradeCapabilityOutput = BaseTaskOutputSchema(
+  z.object({
+    capability: CapabilityName,
+    level: z.number(),
+    previousValue: z.number(),
+    newValue: z.number(),
+    resourcesUsed: ResourcesSchema,
+    remainingResources: ResourcesSchema,
+  }),
+);
+
+export const upgradeCapability = defineRule(
+  "upgrade-capability",
+  async (input: z.infer<typeof upgradeCapabilityInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return upgradeCapabilityOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked = checkUpgrade(probe, input.capability);
+    const upgrade = gameState.planCapabilityUpgrade(probe, input.capability);
+    if (blocked || !upgrade) {
+      return upgradeCapabilityOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const remainingResources = gameState.subtractResources(
+      probe.resources,
+      upgrade.cost,
+    );
+    gameState.updateProbe(
+      probe.id,
+      {
+        resources: remainingResources,
+        capabilities: {
+          ...probe.capabilities,
+          [input.capability]: upgrade.newValue,
+        },
+        capabilityLevels: {
+          ...probe.capabilityLevels,
+          [input.capability]: upgrade.level,
+        },
+      },
+      "CapabilityUpgraded",
+    );
+
+    gameState.addProbeExperience(probe.id, {
+      event: "capability_upgraded",
+      data: {
+        capability: input.capability,
+        level: upgrade.level,
+        previousValue: upgrade.currentValue,
+        newValue: upgrade.newValue,
+        resourcesUsed: upgrade.cost,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Upgraded ${input.capability} to level ${upgrade.level} (${upgrade.currentValue} → ${upgrade.newValue})`,
+    );
+
+    return upgradeCapabilityOutput.parse({
+      success: true,
+      data: {
+        capability: input.capability,
+        level: upgrade.level,
+        previousValue: upgrade.currentValue,
+        newValue: upgrade.newValue,
+        resourcesUsed: upgrade.cost,
+        remainingResources,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Repair hull damage with metal and silicon
+export const repairHullInput = z.object({
+  probeId: z.string(),
+  amount: z.number().positive().optional(), // hull points; omit to repair fully
+});
+
+export const repairHullOutput = BaseTaskOutputSchema(
+  z.object({
+    repaired: z.number(),
+    hullIntegrity: z.number(),
+    resourcesUsed: ResourcesSchema,
+    remainingResources: ResourcesSchema,
+  }),
+);
+
+export const repairHull = defineRule(
+  "repair-hull",
+  async (input: z.infer<typeof repairHullInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return repairHullOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked = checkRepair(probe, input.amount);
+    if (blocked) {
+      return repairHullOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const missing = HULL.max - probe.hullIntegrity;
+    const repaired = Math.min(input.amount ?? missing, missing);
+    const cost = gameState.repairCost(repaired);
+
+    const hullIntegrity = probe.hullIntegrity + repaired;
+    const remainingResources = gameState.subtractResources(
+      probe.resources,
+      cost,
+    );
+    gameState.updateProbe(
+      probe.id,
+      {
+        hullIntegrity,
+        resources: remainingResources,
+        // A probe in flight stays in flight; otherwise it may leave `damaged`
+        // but keeps building if it was
+        status: probe.trajectory
+          ? probe.status
+          : gameState.resumedStatus(probe, hullIntegrity),
+      },
+      "HullRepaired",
+    );
+
+    gameState.addProbeExperience(probe.id, {
+      event: "probe_repaired",
+      data: { repaired, hullIntegrity, resourcesUsed: cost },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Repaired ${repaired} hull points → ${hullIntegrity}/${HULL.max}`,
+    );
+
+    return repairHullOutput.parse({
+      success: true,
+      data: {
+        repaired,
+        hullIntegrity,
+        resourcesUsed: cost,
+        remainingResources,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Power down for a number of ticks to save energy
+export const hibernateProbeInput = z.object({
+  probeId: z.string(),
+  ticks: z.number().int().min(1).max(ENERGY.maxHibernationTicks),
+});
+
+export const hibernateProbeOutput = BaseTaskOutputSchema(
+  z.object({
+    wakeAt: z.number(), // tick
+    upkeep: z.number(), // per tick while hibernating
+  }),
+);
+
+export const hibernateProbe = defineRule(
+  "hibernate-probe",
+  async (input: z.infer<typeof hibernateProbeInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return hibernateProbeOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked = checkNotTraveling(probe);
+    if (blocked) {
+      return hibernateProbeOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const since = gameState.getCurrentTick();
+    const wakeAt = since + input.ticks;
+    gameState.updateProbe(
+      probe.id,
+      {
+        status: "hibernating",
+        hibernation: { since, forced: false, wakeAt },
+      },
+      "ProbeHibernated",
+    );
+
+    gameState.addProbeExperience(probe.id, {
+      event: "hibernation_started",
+      data: { forced: false, wakeAt },
+    });
+
+    const upkeep = gameState.upkeep(gameState.getProbe(probe.id)!);
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Hibernating until tick ${wakeAt} (upkeep ${upkeep}/tick)`,
+    );
+
+    return hibernateProbeOutput.parse({
+      success: true,
+      data: { wakeAt, upkeep },
+      error: null,
+    });
+  },
+);
+
+// Task: Run batches of a refining recipe
+export const refineResourcesInput = z.object({
+  probeId: z.string(),
+  recipe: RefiningRecipeName,
+  batches: z.number().int().min(1),
+});
+
+export const refineResourcesOutput = BaseTaskOutputSchema(
+  z.object({
+    recipe: RefiningRecipeName,
+    batches: z.number(),
+    consumed: ResourcesSchema.partial(),
+    produced: z.object({
+      resources: ResourcesSchema.partial(),
+      refined: RefinedGoodsSchema.partial(),
+    }),
+    refinedGoods: RefinedGoodsSchema,
+    remainingResources: ResourcesSchema,
+  }),
+);
+
+export const refineResources = defineRule(
+  "refine-resources",
+  async (input: z.infer<typeof refineResourcesInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return refineResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const blocked = checkRefining(probe, input.recipe, input.batches);
+    if (blocked) {
+      return refineResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const { consumed, produced, remainingResources } = gameState.planRefining(
+      probe,
+      input.recipe,
+      input.batches,
+    );
+    const refinedGoods = { ...probe.refinedGoods };
+    Object.entries(produced.refined).forEach(([good, amount]) => {
+      refinedGoods[good as keyof RefinedGoods] += amount ?? 0;
+    });
+
+    gameState.updateProbe(
+      probe.id,
+      {
+        resources: remainingResources,
+        refinedGoods,
+      },
+      "ResourcesRefined",
+    );
+
+    gameState.addProbeExperience(probe.id, {
+      event: "resources_refined",
+      data: {
+        recipe: input.recipe,
+        batches: input.batches,
+        consumed,
+        produced,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Refined ${input.batches}× ${input.recipe}: ${JSON.stringify(consumed)} → ${JSON.stringify(produced)}`,
+    );
+
+    return refineResourcesOutput.parse({
+      success: true,
+      data: {
+        recipe: input.recipe,
+        batches: input.batches,
+        consumed,
+        produced,
+        refinedGoods,
+        remainingResources,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Build a structure anchored to a nearby body
+export const buildStructureInput = z.object({
+  probeId: z.string(),
+  structureType: StructureType,
+  bodyId: z.string(),
+  name: z.string().optional(),
+});
+
+export const buildStructureOutput = BaseTaskOutputSchema(
+  z.object({
+    structureId: z.string(),
+    structureType: StructureType,
+    name: z.string(),
+    bodyName: z.string(),
+    cost: z.object({
+      resources: ResourcesSchema,
+      refined: RefinedGoodsSchema.partial(),
+    }),
+  }),
+);
+
+export const buildStructure = defineRule(
+  "build-structure",
+  async (input: z.infer<typeof buildStructureInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return buildStructureOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const body = gameState
+      .getSolarSystem(probe.currentSystemId)
+      ?.bodies.find((b) => b.id === input.bodyId);
+    // Construction happens on site, within harvesting distance, and only
+    // one structure of each type per body
+    const blocked = body
+      ? (checkBodyInReach(probe, body) ??
+        checkBuild(probe, body, input.structureType))
+      : checkLocalBody(probe, input.bodyId);
+
+    if (blocked || !body) {
+      return buildStructureOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    const { cost } = STRUCTURES[input.structureType];
+    gameState.updateProbe(
+      probe.id,
+      gameState.payCost(probe, cost),
+      "StructureBuilt",
+    );
+
+    const structure = StructureSchema.parse({
+      id: gameState.createStructureId(probe.id, input.structureType),
+      type: input.structureType,
+      name: input.name?.trim() || `${body.name} ${input.structureType}`,
+      systemId: probe.currentSystemId,
+      bodyId: body.id,
+      builtBy: probe.id,
+      builtAt: gameState.getCurrentTick(),
+    });
+    gameState.addStructure(structure);
+
+    gameState.addProbeExperience(probe.id, {
+      event: "structure_built",
+      data: {
+        structureId: structure.id,
+        structureType: structure.type,
+        bodyId: body.id,
+        bodyName: body.name,
+        cost,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Built ${structure.type} "${structure.name}" at ${body.name}`,
+    );
+
+    return buildStructureOutput.parse({
+      success: true,
+      data: {
+        structureId: structure.id,
+        structureType: structure.type,
+        name: structure.name,
+        bodyName: body.name,
+        cost,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Decommission a structure, salvaging part of its cost and its stock
+export const decommissionStructureInput = z.object({
+  probeId: z.string(),
+  structureId: z.string(),
+});
+
+export const decommissionStructureOutput = BaseTaskOutputSchema(
+  z.object({
+    structureType: StructureType,
+    salvaged: ResourcesSchema,
+    refinedSalvaged: RefinedGoodsSchema,
+    // Salvage that didn't fit in storage and was left behind
+    lost: ResourcesSchema,
+  }),
+);
+
+export const decommissionStructure = defineRule(
+  "decommission-structure",
+  async (input: z.infer<typeof decommissionStructureInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return decommissionStructureOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const structure = gameState.getStructure(input.structureId);
+    const blocked =
+      checkStructureTarget(probe, structure, input.structureId) ??
+      (structure && checkStructureInReach(probe, structure));
+
+    if (blocked || !structure) {
+      return decommissionStructureOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    // Part of the raw build cost plus whatever output is still stocked, as
+    // far as storage allows
+    const { cost } = STRUCTURES[structure.type];
+    const recovered = gameState.addResources(
+      structure.stock,
+      Object.fromEntries(
+        ResourceType.options.map((resource) => [
+          resource,
+          Math.floor(cost.resources[resource] * STRUCTURE_SALVAGE_FRACTION),
+        ]),
+      ),
+    );
+    let freeStorage =
+      probe.capabilities.storageCapacity -
+      gameState.getTotalResourceAmount(probe.resources);
+    const salvaged = { ...recovered };
+    ResourceType.options.forEach((resource) => {
+      salvaged[resource] = Math.max(
+        0,
+        Math.min(recovered[resource], freeStorage),
+      );
+      freeStorage -= salvaged[resource];
+    });
+    const lost = gameState.subtractResources(recovered, salvaged);
+
+    const refinedGoods = { ...probe.refinedGoods };
+    Object.entries(structure.refinedStock).forEach(([good, amount]) => {
+      refinedGoods[good as keyof RefinedGoods] += amount;
+    });
+
+    gameState.updateProbe(
+      probe.id,
+      {
+        resources: gameState.addResources(probe.resources, salvaged),
+        refinedGoods,
+      },
+      "StructureDecommissioned",
+    );
+    gameState.removeStructure(structure.id);
+
+    gameState.addProbeExperience(probe.id, {
+      event: "structure_decommissioned",
+      data: {
+        structureId: structure.id,
+        structureType: structure.type,
+        salvaged,
+        refinedSalvaged: structure.refinedStock,
+        lost,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Decommissioned ${structure.type} "${structure.name}", salvaged ${JSON.stringify(salvaged)}`,
+    );
+
+    return decommissionStructureOutput.parse({
+      success: true,
+      data: {
+        structureType: structure.type,
+        salvaged,
+        refinedSalvaged: structure.refinedStock,
+        lost,
+      },
+      error: null,
+    });
+  },
+);
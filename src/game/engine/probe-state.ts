@@ -0,0 +1,406 @@
+import { defineRule } from "@/game/engine/context";
+import { z } from "zod";
+import { gameState } from "@/game/core/game-state";
+import { checkBodyInReach, checkLocalBody } from "@/game/engine/action-checks";
+import {
+  ProbeSchema,
+  SolarSystemSchema,
+  CelestialBodySchema,
+  BaseTaskOutputSchema,
+  StarClass,
+  ResourcesSchema,
+  DiscoveredResourceSchema,
+  StructureSchema,
+} from "@/game/core/types";
+
+// Task: Get probe state
+export const getProbeStateInput = z.object({
+  probeId: z.string(),
+});
+
+export const getProbeStateOutput = BaseTaskOutputSchema(
+  z.object({
+    probe: ProbeSchema,
+  }),
+);
+
+export const getProbeState = defineRule(
+  "get-probe-state",
+  async (input: z.infer<typeof getProbeStateInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return getProbeStateOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Status: ${probe.status}, Energy: ${probe.resources.energy}`,
+    );
+
+    return getProbeStateOutput.parse({
+      success: true,
+      data: {
+        probe: ProbeSchema.parse(probe),
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Get environment state
+export const getEnvironmentStateInput = z.object({
+  probeId: z.string(),
+});
+
+export const getEnvironmentStateOutput = BaseTaskOutputSchema(
+  z.object({
+    currentSystem: SolarSystemSchema,
+    nearbyBodies: z.array(
+      z.object({
+        body: CelestialBodySchema,
+        distance: z.number(),
+        // What this probe knows of the body, from its own scan or another's
+        charted: DiscoveredResourceSchema.optional(),
+      }),
+    ),
+    closestBody: CelestialBodySchema,
+    distanceToClosest: z.number(),
+    nearbySystems: z.array(
+      z.object({
+        systemId: z.string(),
+        name: z.string(),
+        starClass: StarClass.optional(),
+        distance: z.number(), // light-years
+        energyCost: z.number(),
+        hydrogenCost: z.number(),
+        travelTicks: z.number(),
+        discovered: z.boolean(),
+        visited: z.boolean(),
+      }),
+    ),
+    // Other probes in the same system, nearest first
+    nearbyProbes: z.array(
+      z.object({
+        probeId: z.string(),
+        name: z.string(),
+        generation: z.number(),
+        relation: z.enum(["parent", "child", "other"]),
+        distance: z.number(), // AU
+        resources: ResourcesSchema,
+        freeStorage: z.number(),
+      }),
+    ),
+    // Structures in the same system, nearest first
+    structures: z.array(
+      z.object({
+        structure: StructureSchema,
+        bodyName: z.string(),
+        distance: z.number(), // AU to the body it is anchored to
+      }),
+    ),
+  }),
+);
+
+export type EnvironmentState = NonNullable<
+  z.infer<typeof getEnvironmentStateOutput>["data"]
+>;
+
+// How many neighbouring star systems a probe is told about
+const NEARBY_SYSTEM_LIMIT = 5;
+
+export const getEnvironmentState = defineRule(
+  "get-environment-state",
+  async (input: z.infer<typeof getEnvironmentStateInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return getEnvironmentStateOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const currentSystem = gameState.getSolarSystem(probe.currentSystemId);
+
+    if (!currentSystem) {
+      return getEnvironmentStateOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "unknown_system",
+          reason: `Solar system ${probe.currentSystemId} not found`,
+        },
+      });
+    }
+
+    // Calculate distances to all celestial bodies
+    const nearbyBodies = currentSystem.bodies
+      .map((body) => ({
+        body: CelestialBodySchema.parse(body),
+        distance: gameState.calculateDistance(probe.position, body.position),
+        charted: probe.memory.discoveredResources[body.id],
+      }))
+      .sort((a, b) => a.distance - b.distance);
+
+    const closestBody = nearbyBodies[0];
+
+    // Neighbouring star systems, nearest first, with interstellar travel costs
+    const nearbySystems = gameState
+      .getAllSystems()
+      .filter((system) => system.id !== currentSystem.id)
+      .map((system) => ({
+        systemId: system.id,
+        name: system.name,
+        starClass: system.starClass,
+        ...gameState.planInterstellarTrip(probe, currentSystem, system),
+        discovered: system.discoveredBy !== undefined,
+        visited: probe.memory.visitedSystems.includes(system.id),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, NEARBY_SYSTEM_LIMIT);
+
+    const nearbyProbes = gameState
+      .getAllProbes()
+      .filter(
+        (other) =>
+          other.id !== probe.id &&
+          other.currentSystemId === probe.currentSystemId &&
+          other.status !== "destroyed",
+      )
+      .map((other) => ({
+        probeId: other.id,
+        name: other.name,
+        generation: other.generation,
+        relation:
+          other.id === probe.parentProbeId
+            ? ("parent" as const)
+            : other.parentProbeId === probe.id
+              ? ("child" as const)
+              : ("other" as const),
+        distance: gameState.calculateDistance(probe.position, other.position),
+        resources: other.resources,
+        freeStorage:
+          other.capabilities.storageCapacity -
+          gameState.getTotalResourceAmount(other.resources),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+
+    const structures = gameState
+      .getAllStructures()
+      .filter((structure) => structure.systemId === currentSystem.id)
+      .flatMap((structure) => {
+        const body = currentSystem.bodies.find(
+          (b) => b.id === structure.bodyId,
+        );
+        return body
+          ? [
+              {
+                structure,
+                bodyName: body.name,
+                distance: gameState.calculateDistance(
+                  probe.position,
+                  body.position,
+                ),
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => a.distance - b.distance);
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Nearest body: ${closestBody.body.name} at ${closestBody.distance.toFixed(1)} AU`,
+    );
+
+    return getEnvironmentStateOutput.parse({
+      success: true,
+      data: {
+        currentSystem: SolarSystemSchema.parse(currentSystem),
+        nearbyBodies,
+        closestBody: closestBody.body,
+        distanceToClosest: closestBody.distance,
+        nearbySystems,
+        nearbyProbes,
+        structures,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Get solar system state
+export const getSolarSystemStateInput = z.object({
+  systemId: z.string(),
+});
+
+export const getSolarSystemStateOutput = BaseTaskOutputSchema(
+  z.object({
+    system: SolarSystemSchema,
+    totalResources: z.record(z.any()),
+    bodyCount: z.number(),
+  }),
+);
+
+export const getSolarSystemState = defineRule(
+  "get-solar-system-state",
+  async (input: z.infer<typeof getSolarSystemStateInput>, ctx) => {
+    const system = gameState.getSolarSystem(input.systemId);
+
+    if (!system) {
+      return getSolarSystemStateOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "unknown_system",
+          reason: `Solar system ${input.systemId} not found`,
+        },
+      });
+    }
+
+    // Calculate total available resources in the system
+    const totalResources = system.bodies.reduce(
+      (acc, body) => {
+        return gameState.addResources(acc, body.resources);
+      },
+      {
+        energy: system.star.resources.energy,
+        metal: 0,
+        silicon: 0,
+        hydrogen: system.star.resources.hydrogen,
+        rare_elements: 0,
+      },
+    );
+
+    return getSolarSystemStateOutput.parse({
+      success: true,
+      data: {
+        system: SolarSystemSchema.parse(system),
+        totalResources,
+        bodyCount: system.bodies.length,
+      },
+      error: null,
+    });
+  },
+);
+
+// Task: Scan for resources
+export const scanForResourcesInput = z.object({
+  probeId: z.string(),
+  targetBodyId: z.string(),
+});
+
+export const scanForResourcesOutput = BaseTaskOutputSchema(
+  z.object({
+    bodyName: z.string(),
+    resources: z.record(z.any()),
+    distance: z.number(),
+  }),
+);
+
+export const scanForResources = defineRule(
+  "scan-for-resources",
+  async (input: z.infer<typeof scanForResourcesInput>, ctx) => {
+    const probe = gameState.getProbe(input.probeId);
+
+    if (!probe) {
+      return scanForResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "probe_not_found",
+          reason: `Probe ${input.probeId} not found`,
+        },
+      });
+    }
+
+    const currentSystem = gameState.getSolarSystem(probe.currentSystemId);
+
+    if (!currentSystem) {
+      return scanForResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "unknown_system",
+          reason: `Solar system ${probe.currentSystemId} not found`,
+        },
+      });
+    }
+
+    const targetBody = currentSystem.bodies.find(
+      (b) => b.id === input.targetBodyId,
+    );
+
+    const blocked = targetBody
+      ? checkBodyInReach(
+          probe,
+          targetBody,
+          gameState.getEffectiveCapabilities(probe).sensorRange,
+        )
+      : checkLocalBody(probe, input.targetBodyId);
+
+    if (blocked || !targetBody) {
+      ctx.logger.warn(`[PROBE ${probe.name}] Can't scan: ${blocked?.reason}`);
+      return scanForResourcesOutput.parse({
+        success: false,
+        data: null,
+        error: blocked,
+      });
+    }
+
+    // Update probe memory with discovered resources
+    gameState.updateProbe(
+      input.probeId,
+      {
+        memory: {
+          ...probe.memory,
+          discoveredResources: {
+            ...probe.memory.discoveredResources,
+            [targetBody.id]: {
+              resources: targetBody.resources,
+              scannedAt: gameState.now(),
+              scannedBy: probe.id,
+              source: "scan",
+            },
+          },
+        },
+      },
+      "ResourcesScanned",
+    );
+
+    gameState.addProbeExperience(input.probeId, {
+      event: "resources_scanned",
+      data: {
+        bodyId: targetBody.id,
+        bodyName: targetBody.name,
+        resources: targetBody.resources,
+      },
+    });
+
+    ctx.logger.info(
+      `[PROBE ${probe.name}] Scanned ${targetBody.name}: ${JSON.stringify(targetBody.resources)}`,
+    );
+
+    return scanForResourcesOutput.parse({
+      success: true,
+      data: {
+        bodyName: targetBody.name,
+        resources: targetBody.resources,
+        distance: gameState.calculateDistance(
+          probe.position,
+          targetBody.position,
+        ),
+      },
+      error: null,
+    });
+  },
+);
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { deleteSlot, listSlots, writeSnapshot } from "@/game/core/save-slots";
+import { createLocalContext } from "./context";
+import { forkSave, loadSave, rollback, saveGame } from "./save-actions";
+
+const ctx = createLocalContext();
+
+const snapshotAt = (tick: number) => {
+  const state = gameState.getState();
+  writeSnapshot(
+    { ...state, clock: { ...state.clock, tick } },
+    { every: 10, keep: 10 },
+  );
+};
+
+describe("save actions", () => {
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 13 });
+    listSlots().forEach((slot) => deleteSlot(slot.name));
+  });
+
+  it("rolls back to the latest snapshot at or before a tick", async () => {
+    [10, 20, 30].forEach(snapshotAt);
+
+    const result = await rollback.fn({ toTick: 25 }, ctx);
+    expect(result.data?.tick).toBe(20);
+    expect(gameState.now()).toBe(20);
+
+    // By default, to the snapshot before the current tick
+    await rollback.fn({}, ctx);
+    expect(gameState.now()).toBe(10);
+
+    expect((await rollback.fn({ toTick: 5 }, ctx)).error?.code).toBe(
+      "save_not_found",
+    );
+    expect(gameState.now()).toBe(10);
+  });
+
+  it("refuses to fork over a slot or under a bad name", async () => {
+    await saveGame.fn({ name: "base" }, ctx);
+
+    expect((await forkSave.fn({ name: "base" }, ctx)).error?.code).toBe(
+      "invalid_parameters",
+    );
+    expect((await forkSave.fn({ name: "../escape" }, ctx)).error?.code).toBe(
+      "invalid_parameters",
+    );
+    expect((await forkSave.fn({ name: ".." }, ctx)).error?.code).toBe(
+      "invalid_parameters",
+    );
+    expect(
+      (await forkSave.fn({ name: "branch", from: ".." }, ctx)).error?.code,
+    ).toBe("invalid_parameters");
+    expect(
+      (await forkSave.fn({ name: "branch", from: "missing" }, ctx)).error?.code,
+    ).toBe("save_not_found");
+
+    const fork = await forkSave.fn({ name: "branch", from: "base" }, ctx);
+    expect(fork.data).toMatchObject({ kind: "fork", forkedFrom: "base" });
+  });
+
+  it("reports a missing slot on load", async () => {
+    expect((await loadSave.fn({ name: "missing" }, ctx)).error?.code).toBe(
+      "save_not_found",
+    );
+  });
+
+  it("refuses to load from outside the save directory", async () => {
+    expect((await loadSave.fn({ name: "../x" }, ctx)).error?.code).toBe(
+      "invalid_parameters",
+    );
+    expect((await loadSave.fn({ name: "." }, ctx)).error?.code).toBe(
+      "invalid_parameters",
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { gameState } from "@/game/core/game-state";
+import { BaseTaskOutputSchema, GameState } from "@/game/core/types";
+import {
+  listSlots,
+  loadSnapshotConfig,
+  readSlotMeta,
+  readSlotState,
+  SaveSlotMeta,
+  SaveSlotMetaSchema,
+  SaveSlotName,
+  slotExists,
+  writeSlot,
+  writeSnapshot,
+} from "@/game/core/save-slots";
+import { defineRule, EngineContext } from "./context";
+
+const saveSlotOutput = BaseTaskOutputSchema(SaveSlotMetaSchema);
+
+const invalidName = (name: string) =>
+  saveSlotOutput.parse({
+    success: false,
+    data: null,
+    error: {
+      code: "invalid_parameters",
+      reason: `invalid_parameters, ${SaveSlotName.safeParse(name).error?.issues[0].message ?? "bad slot name"}: ${name}`,
+    },
+  });
+
+const slotNotFound = (name: string) =>
+  saveSlotOutput.parse({
+    success: false,
+    data: null,
+    error: { code: "save_not_found", reason: `Save slot ${name} not found` },
+  });
+
+function restore(state: GameState, meta: SaveSlotMeta) {
+  gameState.restoreGameState(state);
+  return saveSlotOutput.parse({ success: true, data: meta, error: null });
+}
+
+// Called after every tick: take a snapshot every SNAPSHOT_EVERY ticks
+export function snapshotIfDue(ctx: EngineContext) {
+  const config = loadSnapshotConfig();
+  const state = gameState.getState();
+  if (config.every === 0 || state.clock.tick % config.every !== 0) return;
+
+  const meta = writeSnapshot(state, config);
+  ctx.logger.info(`📸 Snapshot ${meta.name} (tick ${meta.tick})`);
+}
+
+// Task: Save the running game under a name, replacing any slot of that name
+export const saveGameInput = z.object({
+  name: z.string(),
+});
+
+export const saveGame = defineRule(
+  "save-game",
+  async (input: z.infer<typeof saveGameInput>, ctx) => {
+    if (!SaveSlotName.safeParse(input.name).success) {
+      return invalidName(input.name);
+    }
+
+    const meta = writeSlot(input.name, gameState.getState(), "manual");
+    ctx.logger.info(`💾 Saved tick ${meta.tick} to slot ${meta.name}`);
+    return saveSlotOutput.parse({ success: true, data: meta, error: null });
+  },
+);
+
+// Task: List save slots, oldest tick first
+export const listSavesInput = z.object({});
+
+export const listSavesOutput = BaseTaskOutputSchema(
+  z.array(SaveSlotMetaSchema),
+);
+
+export const listSaves = defineRule(
+  "list-saves",
+  async (input: z.infer<typeof listSavesInput>, ctx) => {
+    const slots = listSlots();
+    ctx.logger.info(`💾 ${slots.length} save slots`);
+    return listSavesOutput.parse({ success: true, data: slots, error: null });
+  },
+);
+
+// Task: Replace the running game with a save slot
+export const loadSaveInput = z.object({
+  name: z.string(),
+});
+
+export const loadSave = defineRule(
+  "load-save",
+  async (input: z.infer<typeof loadSaveInput>, ctx) => {
+    if (!SaveSlotName.safeParse(input.name).success) {
+      return invalidName(input.name);
+    }
+
+    const meta = readSlotMeta(input.name);
+    if (!meta) return slotNotFound(input.name);
+
+    ctx.logger.info(`📂 Loading slot ${meta.name} (tick ${meta.tick})`);
+    return restore(readSlotState(meta.name), meta);
+  },
+);
+
+// Task: Branch a run. Copies a slot (or the running game, without `from`)
+// to a new slot and continues from the copy, leaving the original as it was
+// to branch again with different rules.
+export const forkSaveInput = z.object({
+  name: z.string(),
+  from: z.string().optional(),
+});
+
+export const forkSave = defineRule(
+  "fork-save",
+  async (input: z.infer<typeof forkSaveInput>, ctx) => {
+    if (!SaveSlotName.safeParse(input.name).success) {
+      return invalidName(input.name);
+    }
+    if (slotExists(input.name)) {
+      return saveSlotOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "invalid_parameters",
+          reason: `invalid_parameters, save slot ${input.name} already exists`,
+        },
+      });
+    }
+    if (input.from && !SaveSlotName.safeParse(input.from).success) {
+      return invalidName(input.from);
+    }
+    if (input.from && !slotExists(input.from)) {
+      return slotNotFound(input.from);
+    }
+
+    const state = input.from ? readSlotState(input.from) : gameState.getState();
+    const meta = writeSlot(input.name, state, "fork", input.from);
+    ctx.logger.info(
+      `🌿 Forked ${input.from ?? "the running game"} at tick ${meta.tick} into slot ${meta.name}`,
+    );
+    return restore(state, meta);
+  },
+);
+
+// Task: Roll back to the latest snapshot at or before a tick (by default,
+// the latest one before the current tick)
+export const rollbackInput = z.object({
+  toTick: z.number().int().min(0).optional(),
+});
+
+export const rollback = defineRule(
+  "rollback-game",
+  async (input: z.infer<typeof rollbackInput>, ctx) => {
+    const toTick = input.toTick ?? gameState.now() - 1;
+    const snapshot = listSlots()
+      .filter((slot) => slot.kind === "snapshot" && slot.tick <= toTick)
+      .pop();
+
+    if (!snapshot) {
+      return saveSlotOutput.parse({
+        success: false,
+        data: null,
+        error: {
+          code: "save_not_found",
+          reason: `No snapshot at or before tick ${toTick}`,
+        },
+      });
+    }
+
+    ctx.logger.info(
+      `⏪ Rolling back from tick ${gameState.now()} to snapshot ${snapshot.name} (tick ${snapshot.tick})`,
+    );
+    return restore(readSlotState(snapshot.name), snapshot);
+  },
+);
@@ -0,0 +1,80 @@
+import { gameState } from "@/game/core/game-state";
+import { createEngine } from "./engine/engine";
+import { loadBatchConfig, runBatch } from "./engine/batch";
+import { createLocalContext } from "./engine/context";
+import { getSimulationStatus } from "./simulation/astral-echo-simulation";
+import { openDecisionLog } from "./simulation/decision-log";
+import { logger } from "@/utils/logger";
+
+// Drive the simulation in this process, without a Hatchet worker
+async function runTicks(ticks: number) {
+  logger.info(`🌌 Running ${ticks} ticks in-process...`);
+  openDecisionLog(gameState.getState());
+
+  const startTime = Date.now();
+  const log = await createEngine().run(ticks);
+
+  const failures = log.reduce((sum, tick) => sum + tick.failedProbes, 0);
+  logger.info(
+    `🎯 Ran ${log.length} ticks in ${((Date.now() - startTime) / 1000).toFixed(1)}s | 🛸 ${log[log.length - 1]?.probeCount ?? 0} probes | 💥 ${failures} failed agent runs`,
+  );
+}
+
+// Fast-forward without per-tick logs, checkpointing along the way. Picks up
+// an unfinished batch where its last checkpoint left off.
+async function fastForward(ticks: number) {
+  const startTime = Date.now();
+  const result = await runBatch(loadBatchConfig({ ticks }));
+  logger.info(
+    `🎯 Batch ${result.completed ? "complete" : "stopped"}: ${result.ticksDone}/${result.config.ticks} ticks, ${result.summaries.length} summaries in ${result.config.checkpointFile} (${((Date.now() - startTime) / 1000).toFixed(1)}s)`,
+  );
+}
+
+async function getStatus() {
+  const status = await getSimulationStatus.fn({}, createLocalContext());
+  logger.info({ status }, "📊 Current Status");
+}
+
+// A failed command must exit non-zero so scripts notice
+function exitOnError(error: unknown) {
+  logger.error({ error }, "💥 Command failed");
+  process.exit(1);
+}
+
+// Simple CLI
+const command = process.argv[2];
+
+switch (command) {
+  case "run": {
+    const ticks = Number(process.argv[3] ?? 10);
+    if (!Number.isInteger(ticks) || ticks < 1) {
+      logger.error("Usage: run [ticks]");
+      process.exit(1);
+    }
+    runTicks(ticks).catch(exitOnError);
+    break;
+  }
+  case "batch": {
+    const ticks = Number(process.argv[3] ?? 100000);
+    if (!Number.isInteger(ticks) || ticks < 1) {
+      logger.error("Usage: batch [ticks]");
+      process.exit(1);
+    }
+    fastForward(ticks).catch(exitOnError);
+    break;
+  }
+  case "status":
+    getStatus().catch(exitOnError);
+    break;
+  default:
+    logger.info("Usage:");
+    logger.info(
+      "  bun run src/game/local-runner.ts run [ticks]  # Run ticks in-process (default 10)",
+    );
+    logger.info(
+      "  bun run src/game/local-runner.ts batch [ticks]  # Fast-forward with checkpoints (default 100000)",
+    );
+    logger.info(
+      "  bun run src/game/local-runner.ts status       # Get current status",
+    );
+}
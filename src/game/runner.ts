@@ -1,8 +1,5 @@
 import { hatchet } from "@/hatchet.client";
-import {
-  runSimulation,
-  getSimulationStatus,
-} from "./simulation/astral-echo-simulation";
+import { runSimulation, getSimulationStatus } from "./tasks/simulation-tasks";
 import { logger } from "@/utils/logger";
 
 async function startSimulation() {
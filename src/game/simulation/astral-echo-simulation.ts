@@ -1,13 +1,24 @@
-import { hatchet } from "@/hatchet.client";
 import { z } from "zod";
 import { gameState } from "@/game/core/game-state";
+import { defineRule, EngineContext } from "@/game/engine/context";
+import { snapshotIfDue } from "@/game/engine/save-actions";
 import {
   ExecutedActionSchema,
-  ProbeActionSchema,
   ProbeAgentOutputSchema,
   runProbeAgent,
 } from "../agents/probe-agent";
-import { BaseTaskOutputSchema } from "@/game/core/types";
+import { BaseTaskOutputSchema, TaskErrorCode } from "@/game/core/types";
+import { advanceTrajectories } from "./travel";
+import { openDecisionLog } from "./decision-log";
+import { deliverMessages } from "./messaging";
+import { syncKnowledge } from "./knowledge-sync";
+import { applyHazards } from "./hazards";
+import { applyEnergyBalance } from "./energy";
+import { applyStructures } from "./structures";
+import {
+  advanceManufacturing,
+  ManufacturingProgressSchema,
+} from "./manufacturing";
 
 // Main simulation task
 export const runSimulationInput = z.object({
@@ -27,11 +38,16 @@ const ProbeExecutionResultSchema = z.object({
 // Tick data schema
 const TickDataSchema = z.object({
   tick: z.number(),
-  timestamp: z.number(),
+  gameTick: z.number(),
+  gameYear: z.number(),
   probeCount: z.number(),
   successfulProbes: z.number(),
   failedProbes: z.number(),
   probeResults: z.array(ProbeExecutionResultSchema),
+  // How often each task error code came up among executed actions
+  errorCodes: z.record(TaskErrorCode, z.number()),
+  // Build progress of every manufacturing job worked on this tick
+  manufacturing: z.array(ManufacturingProgressSchema),
   tickDuration: z.number(),
 });
 
@@ -50,11 +66,13 @@ export const runSimulationOutput = BaseTaskOutputSchema(
 // Simulation status output schema
 export const getSimulationStatusOutput = BaseTaskOutputSchema(
   z.object({
-    timestamp: z.number(),
+    tick: z.number(),
+    gameYear: z.number(),
     totalProbes: z.number(),
     totalSystems: z.number(),
     generationStats: z.record(z.number()),
     statusStats: z.record(z.number()),
+    structureStats: z.record(z.number()),
     totalResources: z.object({
       energy: z.number(),
       metal: z.number(),
@@ -62,8 +80,6 @@ export const getSimulationStatusOutput = BaseTaskOutputSchema(
       hydrogen: z.number(),
       rare_elements: z.number(),
     }),
-    gameStartedAt: z.number(),
-    uptime: z.number(),
   }),
 );
 
@@ -76,218 +92,247 @@ export type GetSimulationStatusOutput = z.infer<
   typeof getSimulationStatusOutput
 >;
 
-// Passive solar energy generation for all probes
-function applySolarCharging(ctx: any) {
-  const allProbes = gameState.getAllProbes();
-  const activeProbes = allProbes.filter((p) => p.status === "active");
-
-  if (activeProbes.length === 0) return;
+// One tick of the world: the clock advances, the physics and the economy
+// run, then every probe that can act runs its agent
+export async function simulateTick(
+  tick: number,
+  ctx: EngineContext,
+): Promise<TickData> {
+  const tickStartTime = Date.now();
+  const clock = gameState.advanceClock();
 
   ctx.logger.info(
-    `☀️  Applying solar panel charging to ${activeProbes.length} active probes...`,
+    `\n⏱️  === SIMULATION TICK ${tick} (game tick ${clock.tick}, year ${clock.gameYear}) ===`,
   );
 
-  activeProbes.forEach((probe) => {
-    // Base solar charging rate: 20 energy per tick
-    // This is much slower than active energy harvesting but provides steady income
-    const solarEnergyGain = 20;
-
-    const updatedResources = {
-      ...probe.resources,
-      energy: probe.resources.energy + solarEnergyGain,
-    };
-
-    // Add solar charging experience to memory
-    gameState.addProbeExperience(probe.id, {
-      event: "solar_charging",
-      data: {
-        energyGained: solarEnergyGain,
-        newEnergyLevel: updatedResources.energy,
-      },
-    });
+  // Solar income and upkeep at the start of each tick
+  applyEnergyBalance(ctx);
 
-    gameState.updateProbe(probe.id, {
-      resources: updatedResources,
-    });
+  // Move in-flight probes along their trajectories, landing arrivals
+  advanceTrajectories(ctx);
 
-    ctx.logger.info(
-      `  ☀️  ${probe.name}: +${solarEnergyGain} energy → ${updatedResources.energy} total`,
-    );
-  });
-}
+  // Radiation, micrometeoroids and travel wear take their toll
+  applyHazards(ctx);
 
-export const runSimulation = hatchet.task({
-  name: "run-astral-echo-simulation",
-  executionTimeout: "3600s", // 1 hour max
-  fn: async (input: z.infer<typeof runSimulationInput>, ctx) => {
-    ctx.logger.info("🌌 Starting Astral Echo Simulation...");
-    ctx.logger.info(
-      `⚙️  Configuration: ${input.maxTicks} ticks, ${input.tickDuration}ms between ticks`,
-    );
-    ctx.logger.info(
-      `☀️  Solar panels provide +20 energy per tick to all active probes`,
-    );
+  // Structures produce and hand their output to probes parked nearby
+  applyStructures(ctx);
 
-    const simulationStartTime = Date.now();
-    let tick = 0;
-    const executionLog: TickData[] = [];
+  // Parents pay this tick's installment on their builds; finished
+  // children join before the agents run
+  const manufacturing = advanceManufacturing(ctx);
 
-    while (tick < input.maxTicks) {
-      tick++;
-      const tickStartTime = Date.now();
+  // Hand over messages whose light has reached the recipient
+  deliverMessages(ctx);
 
-      ctx.logger.info(`\n⏱️  === SIMULATION TICK ${tick} ===`);
+  // Probes in range of each other pool what they have charted
+  syncKnowledge(ctx);
 
-      // Apply passive solar charging at the start of each tick
-      applySolarCharging(ctx);
+  // Get fresh probe data each tick to avoid stale IDs
+  const allProbes = gameState.getAllProbes();
+  const activeProbes = allProbes.filter((p) => p.status !== "destroyed");
 
-      // Get fresh probe data each tick to avoid stale IDs
-      const allProbes = gameState.getAllProbes();
-      const activeProbes = allProbes.filter((p) => p.status !== "destroyed");
+  ctx.logger.info(
+    `🛸 Active Probes: ${activeProbes.length} | 🌟 Solar Systems: ${gameState.getDiscoveredSystems().length}/${gameState.getAllSystems().length} discovered`,
+  );
 
+  // Show probe status summary
+  if (activeProbes.length > 0) {
+    ctx.logger.info(`📊 Probe Status Summary:`);
+    activeProbes.forEach((probe) => {
+      const recentAction =
+        probe.memory.experiences.length > 0
+          ? probe.memory.experiences[probe.memory.experiences.length - 1].event
+          : "none";
+      const transitInfo = probe.trajectory
+        ? ` | 🚀 In flight, arriving tick ${probe.trajectory.arrivalTick}`
+        : "";
+      const job = probe.manufacturingJob;
+      const buildInfo = job
+        ? ` | 🏭 ${job.newProbeName} ${job.progress}/${job.ticksRequired}${job.paused ? " (paused)" : ""}`
+        : "";
       ctx.logger.info(
-        `🛸 Active Probes: ${activeProbes.length} | 🌟 Solar Systems: ${gameState.getAllSystems().length}`,
+        `  • ${probe.name} (Gen ${probe.generation}, hull ${probe.hullIntegrity}): E:${probe.resources.energy} M:${probe.resources.metal} S:${probe.resources.silicon} H:${probe.resources.hydrogen} R:${probe.resources.rare_elements} | Last: ${recentAction}${transitInfo}${buildInfo}`,
       );
+    });
+  }
+
+  // Probes in flight or hibernating have nothing to decide
+  const agentProbes = activeProbes.filter(
+    (p) => p.status !== "traveling" && p.status !== "hibernating",
+  );
+
+  // Run each probe's AI agent in parallel
+  const probePromises = agentProbes.map(
+    async (probe): Promise<ProbeExecutionResult> => {
+      try {
+        ctx.logger.info(
+          `🤖 Starting AI agent for ${probe.name} (${probe.id.slice(0, 8)}...)`,
+        );
 
-      // Show probe status summary
-      if (activeProbes.length > 0) {
-        ctx.logger.info(`📊 Probe Status Summary:`);
-        activeProbes.forEach((probe) => {
-          const recentAction =
-            probe.memory.experiences.length > 0
-              ? probe.memory.experiences[probe.memory.experiences.length - 1]
-                  .event
-              : "none";
-          ctx.logger.info(
-            `  • ${probe.name} (Gen ${probe.generation}): E:${probe.resources.energy} M:${probe.resources.metal} S:${probe.resources.silicon} H:${probe.resources.hydrogen} R:${probe.resources.rare_elements} | Last: ${recentAction}`,
+        // Double-check probe still exists before running agent
+        const currentProbe = gameState.getProbe(probe.id);
+        if (!currentProbe) {
+          ctx.logger.error(
+            `❌ Probe ${probe.name} (${probe.id}) disappeared before agent run!`,
           );
+          return {
+            probeId: probe.id,
+            probeName: probe.name,
+            success: false,
+            error: `Probe disappeared before agent execution`,
+          };
+        }
+
+        const result = await ctx.runChild(runProbeAgent, {
+          probeId: probe.id,
+          maxActions: 3,
         });
+
+        ctx.logger.info(`✅ AI agent completed for ${probe.name}`);
+
+        return {
+          probeId: probe.id,
+          probeName: probe.name,
+          success: true,
+          result,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          `❌ Error running probe ${probe.name} (${probe.id.slice(0, 8)}...): ${error}`,
+        );
+        return {
+          probeId: probe.id,
+          probeName: probe.name,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
       }
+    },
+  );
+
+  // Wait for all probe actions to complete
+  const probeResults = await Promise.all(probePromises);
+
+  // Log tick results
+  const successfulProbes = probeResults.filter((r) => r.success);
+  const failedProbes = probeResults.filter((r) => !r.success);
+
+  ctx.logger.info(`\n📈 === TICK ${tick} RESULTS ===`);
+  ctx.logger.info(
+    `✅ Successful: ${successfulProbes.length} probes | ❌ Failed: ${failedProbes.length} probes`,
+  );
+
+  // Show detailed probe results
+  if (successfulProbes.length > 0) {
+    ctx.logger.info(`\n🎯 Successful Probe Actions:`);
+    successfulProbes.forEach((agentResult) => {
+      if (agentResult.result) {
+        ctx.logger.info(
+          `  • ${agentResult.probeName} [${agentResult.result.policy}]: ${agentResult.result.overallStrategy}`,
+        );
+        ctx.logger.info(
+          `    Priority: ${agentResult.result.priority} | Actions: ${agentResult.result.totalActions}`,
+        );
+        agentResult.result.executedActions.forEach(
+          (action: z.infer<typeof ExecutedActionSchema>, idx: number) => {
+            // Check actual task result for success/failure
+            const taskResult = action.result;
+            let status = taskResult?.success ? "✅" : "❌"; // Default to failed
 
-      // Run each probe's AI agent in parallel
-      const probePromises = activeProbes.map(
-        async (probe): Promise<ProbeExecutionResult> => {
-          try {
             ctx.logger.info(
-              `🤖 Starting AI agent for ${probe.name} (${probe.id.slice(0, 8)}...)`,
+              `    ${idx + 1}. ${status} ${action.action} - ${action.reasoning}`,
             );
 
-            // Double-check probe still exists before running agent
-            const currentProbe = gameState.getProbe(probe.id);
-            if (!currentProbe) {
-              ctx.logger.error(
-                `❌ Probe ${probe.name} (${probe.id}) disappeared before agent run!`,
+            if (taskResult?.error) {
+              ctx.logger.info(
+                `        Reason: [${taskResult.error.code}] ${taskResult.error.reason}`,
               );
-              return {
-                probeId: probe.id,
-                probeName: probe.name,
-                success: false,
-                error: `Probe disappeared before agent execution`,
-              };
             }
+          },
+        );
+      }
+    });
+  }
 
-            const result = await ctx.runChild(runProbeAgent, {
-              probeId: probe.id,
-              maxActions: 3,
-            });
-
-            ctx.logger.info(`✅ AI agent completed for ${probe.name}`);
-
-            return {
-              probeId: probe.id,
-              probeName: probe.name,
-              success: true,
-              result,
-            };
-          } catch (error) {
-            ctx.logger.error(
-              `❌ Error running probe ${probe.name} (${probe.id.slice(0, 8)}...): ${error}`,
-            );
-            return {
-              probeId: probe.id,
-              probeName: probe.name,
-              success: false,
-              error: error instanceof Error ? error.message : String(error),
-            };
-          }
-        },
+  const errorCodes: TickData["errorCodes"] = {};
+  successfulProbes.forEach((agentResult) =>
+    agentResult.result?.executedActions.forEach((action) => {
+      const code = action.result?.error?.code;
+      if (code) errorCodes[code] = (errorCodes[code] ?? 0) + 1;
+    }),
+  );
+  if (Object.keys(errorCodes).length > 0) {
+    ctx.logger.info(
+      `🧾 Action failures by code: ${Object.entries(errorCodes)
+        .map(([code, count]) => `${code}×${count}`)
+        .join(", ")}`,
+    );
+  }
+
+  // Show failed probe details
+  if (failedProbes.length > 0) {
+    ctx.logger.warn(`\n💥 Failed Probes:`);
+    failedProbes.forEach((fp) => {
+      ctx.logger.warn(
+        `  • ${fp.probeName} (${fp.probeId.slice(0, 8)}...): ${fp.error}`,
       );
-
-      // Wait for all probe actions to complete
-      const probeResults = await Promise.all(probePromises);
-
-      // Log tick results
-      const successfulProbes = probeResults.filter((r) => r.success);
-      const failedProbes = probeResults.filter((r) => !r.success);
-
-      ctx.logger.info(`\n📈 === TICK ${tick} RESULTS ===`);
+    });
+  }
+
+  // Show updated probe states after actions
+  const updatedProbes = gameState
+    .getAllProbes()
+    .filter((p) => p.status !== "destroyed");
+  if (updatedProbes.length > 0) {
+    ctx.logger.info(`\n🔄 Post-Tick Probe States:`);
+    updatedProbes.forEach((probe) => {
       ctx.logger.info(
-        `✅ Successful: ${successfulProbes.length} probes | ❌ Failed: ${failedProbes.length} probes`,
+        `  • ${probe.name}: E:${probe.resources.energy} M:${probe.resources.metal} S:${probe.resources.silicon} H:${probe.resources.hydrogen} R:${probe.resources.rare_elements}`,
       );
+    });
+  }
+
+  const tickData: TickData = {
+    tick,
+    gameTick: clock.tick,
+    gameYear: clock.gameYear,
+    probeCount: activeProbes.length,
+    successfulProbes: successfulProbes.length,
+    failedProbes: failedProbes.length,
+    probeResults,
+    errorCodes,
+    manufacturing,
+    tickDuration: Date.now() - tickStartTime,
+  };
+
+  // Persist the tick's changes in one go
+  gameState.commit();
+  snapshotIfDue(ctx);
+
+  return tickData;
+}
 
-      // Show detailed probe results
-      if (successfulProbes.length > 0) {
-        ctx.logger.info(`\n🎯 Successful Probe Actions:`);
-        successfulProbes.forEach((agentResult) => {
-          if (agentResult.result) {
-            ctx.logger.info(
-              `  • ${agentResult.probeName}: ${agentResult.result.overallStrategy}`,
-            );
-            ctx.logger.info(
-              `    Priority: ${agentResult.result.priority} | Actions: ${agentResult.result.totalActions}`,
-            );
-            agentResult.result.executedActions.forEach(
-              (action: z.infer<typeof ExecutedActionSchema>, idx: number) => {
-                // Check actual task result for success/failure
-                const taskResult = action.result;
-                let status = taskResult?.success ? "✅" : "❌"; // Default to failed
-
-                ctx.logger.info(
-                  `    ${idx + 1}. ${status} ${action.action} - ${action.reasoning}`,
-                );
-
-                if (taskResult?.error?.reason) {
-                  ctx.logger.info(`        Reason: ${taskResult.error.reason}`);
-                }
-              },
-            );
-          }
-        });
-      }
-
-      // Show failed probe details
-      if (failedProbes.length > 0) {
-        ctx.logger.warn(`\n💥 Failed Probes:`);
-        failedProbes.forEach((fp) => {
-          ctx.logger.warn(
-            `  • ${fp.probeName} (${fp.probeId.slice(0, 8)}...): ${fp.error}`,
-          );
-        });
-      }
+export const runSimulation = defineRule(
+  "run-astral-echo-simulation",
+  async (input: z.infer<typeof runSimulationInput>, ctx) => {
+    ctx.logger.info("🌌 Starting Astral Echo Simulation...");
+    ctx.logger.info(
+      `⚙️  Configuration: ${input.maxTicks} ticks, ${input.tickDuration}ms between ticks`,
+    );
+    ctx.logger.info(
+      `☀️  Probes earn solar energy by distance from their star and pay upkeep every tick`,
+    );
 
-      // Show updated probe states after actions
-      const updatedProbes = gameState
-        .getAllProbes()
-        .filter((p) => p.status !== "destroyed");
-      if (updatedProbes.length > 0) {
-        ctx.logger.info(`\n🔄 Post-Tick Probe States:`);
-        updatedProbes.forEach((probe) => {
-          ctx.logger.info(
-            `  • ${probe.name}: E:${probe.resources.energy} M:${probe.resources.metal} S:${probe.resources.silicon} H:${probe.resources.hydrogen} R:${probe.resources.rare_elements}`,
-          );
-        });
-      }
+    // With DECISION_LOG set, capture the starting state for later replay
+    openDecisionLog(gameState.getState());
 
-      const tickData: TickData = {
-        tick,
-        timestamp: Date.now(),
-        probeCount: activeProbes.length,
-        successfulProbes: successfulProbes.length,
-        failedProbes: failedProbes.length,
-        probeResults,
-        tickDuration: Date.now() - tickStartTime,
-      };
+    const simulationStartTime = Date.now();
+    let tick = 0;
+    const executionLog: TickData[] = [];
 
+    while (tick < input.maxTicks) {
+      tick++;
+      const tickData = await simulateTick(tick, ctx);
       executionLog.push(tickData);
 
       ctx.logger.info(
@@ -295,7 +340,7 @@ export const runSimulation = hatchet.task({
       );
 
       // Check if we should continue (all probes destroyed)
-      if (activeProbes.length === 0) {
+      if (tickData.probeCount === 0) {
         ctx.logger.warn("🔚 All probes destroyed. Simulation ending.");
         break;
       }
@@ -317,7 +362,7 @@ export const runSimulation = hatchet.task({
       totalTicks: tick,
       simulationDuration: totalSimulationTime,
       finalProbeCount: Object.keys(finalState.probes).length,
-      finalSystemCount: Object.keys(finalState.solarSystems).length,
+      finalSystemCount: gameState.getDiscoveredSystems().length,
       generations: Math.max(
         ...Object.values(finalState.probes).map((p) => p.generation),
       ),
@@ -339,15 +384,14 @@ export const runSimulation = hatchet.task({
       error: null,
     });
   },
-});
+);
 
 // Utility task to get simulation status
 export const getSimulationStatusInput = z.object({});
 
-export const getSimulationStatus = hatchet.task({
-  name: "get-simulation-status",
-  executionTimeout: "10s",
-  fn: async (input: z.infer<typeof getSimulationStatusInput>, ctx) => {
+export const getSimulationStatus = defineRule(
+  "get-simulation-status",
+  async (input: z.infer<typeof getSimulationStatusInput>, ctx) => {
     const state = gameState.getState();
     const allProbes = gameState.getAllProbes();
     const allSystems = gameState.getAllSystems();
@@ -369,6 +413,14 @@ export const getSimulationStatus = hatchet.task({
       {} as Record<string, number>,
     );
 
+    const structureStats = gameState.getAllStructures().reduce(
+      (acc, structure) => {
+        acc[structure.type] = (acc[structure.type] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
     const totalResources = allProbes.reduce(
       (acc, probe) => {
         return gameState.addResources(acc, probe.resources);
@@ -383,21 +435,25 @@ export const getSimulationStatus = hatchet.task({
     );
 
     ctx.logger.info("\n📊 === SIMULATION STATUS ===");
+    ctx.logger.info(
+      `⏰ Game tick ${state.clock.tick} (year ${state.clock.gameYear})`,
+    );
     ctx.logger.info(`🛸 Total Probes: ${allProbes.length}`);
     ctx.logger.info(`🌟 Solar Systems: ${allSystems.length}`);
     ctx.logger.info(`🧬 Generation Distribution:`, generationStats);
     ctx.logger.info(`⚙️ Status Distribution:`, statusStats);
+    ctx.logger.info(`🏗️ Structures:`, structureStats);
     ctx.logger.info(`💎 Total Resources:`, totalResources);
 
     const statusData = {
-      timestamp: Date.now(),
+      tick: state.clock.tick,
+      gameYear: state.clock.gameYear,
       totalProbes: allProbes.length,
       totalSystems: allSystems.length,
       generationStats,
       statusStats,
+      structureStats,
       totalResources,
-      gameStartedAt: state.gameStartedAt,
-      uptime: Date.now() - state.gameStartedAt,
     };
 
     return getSimulationStatusOutput.parse({
@@ -406,4 +462,4 @@ export const getSimulationStatus = hatchet.task({
       error: null,
     });
   },
-});
+);
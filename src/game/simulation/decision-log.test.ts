@@ -0,0 +1,41 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { GameState } from "@/game/core/types";
+import { createEngine } from "@/game/engine/engine";
+import { loadDecisionLog, openDecisionLog } from "./decision-log";
+
+const plain = (state: GameState) => JSON.parse(JSON.stringify(state));
+
+describe("decision log", () => {
+  const file = path.join(
+    path.dirname(process.env.STATE_FILE!),
+    "decisions.jsonl",
+  );
+
+  it("replays a recorded run exactly", async () => {
+    // Record a run of random decisions
+    process.env.DECISION_LOG = file;
+    gameState.resetGameState({ seed: 11 });
+    gameState
+      .getAllProbes()
+      .forEach((probe) =>
+        gameState.updateProbe(probe.id, { policy: "random" }, "PolicyChanged"),
+      );
+    openDecisionLog(gameState.getState());
+    await createEngine().run(30);
+    const recorded = plain(gameState.getState());
+    delete process.env.DECISION_LOG;
+
+    const log = loadDecisionLog(file);
+    expect(log.decisions.size).toBeGreaterThan(0);
+
+    // Replay it from the recorded starting state
+    process.env.DECISION_REPLAY = file;
+    gameState.restoreGameState(log.header.initialState);
+    await createEngine().run(30);
+    delete process.env.DECISION_REPLAY;
+
+    expect(plain(gameState.getState())).toEqual(recorded);
+  });
+});
@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { GameState, GameStateSchema, ProbePolicyName } from "@/game/core/types";
+import { ProbeDecisionSchema } from "@/game/agents/schemas";
+import { logger } from "@/utils/logger";
+
+// A decision log is JSONL: one header line holding the game state the run
+// started from, then one line per agent decision keyed by probe id and tick.
+// Recording is enabled by DECISION_LOG; DECISION_REPLAY points the replay
+// policy at a previously recorded log.
+
+export const DecisionLogHeaderSchema = z.object({
+  type: z.literal("header"),
+  recordedAt: z.string(),
+  initialState: GameStateSchema,
+});
+
+export const DecisionRecordSchema = z.object({
+  type: z.literal("decision"),
+  probeId: z.string(),
+  tick: z.number(),
+  policy: ProbePolicyName,
+  // True when the policy failed and the agent fell back to waiting
+  fallback: z.boolean().default(false),
+  // True when the decision is the policy's repair of a rejected plan
+  repaired: z.boolean().default(false),
+  model: z.string().optional(),
+  system: z.string().optional(),
+  prompt: z.string().optional(),
+  repairPrompt: z.string().optional(),
+  rawResponse: z.unknown().optional(),
+  decision: ProbeDecisionSchema,
+});
+
+export const DecisionLogEntrySchema = z.discriminatedUnion("type", [
+  DecisionLogHeaderSchema,
+  DecisionRecordSchema,
+]);
+
+export type DecisionLogHeader = z.infer<typeof DecisionLogHeaderSchema>;
+export type DecisionRecord = z.infer<typeof DecisionRecordSchema>;
+
+export interface DecisionLog {
+  header: DecisionLogHeader;
+  decisions: Map<string, DecisionRecord>;
+}
+
+const decisionKey = (probeId: string, tick: number) => `${probeId}@${tick}`;
+
+const recordPath = () =>
+  process.env.DECISION_LOG
+    ? path.resolve(process.cwd(), process.env.DECISION_LOG)
+    : undefined;
+
+export const isRecordingDecisions = () => recordPath() !== undefined;
+
+// Start a new log with the state the run begins from. An existing log is
+// kept and appended to, so a run split across several simulation tasks
+// still replays from its original starting point.
+export function openDecisionLog(initialState: GameState): void {
+  const file = recordPath();
+  if (!file || fs.existsSync(file)) return;
+
+  const header: DecisionLogHeader = {
+    type: "header",
+    recordedAt: new Date().toISOString(),
+    initialState,
+  };
+  fs.writeFileSync(file, JSON.stringify(header) + "\n");
+  logger.info(`📼 Recording decisions to ${file}`);
+}
+
+export function recordDecision(record: Omit<DecisionRecord, "type">): void {
+  const file = recordPath();
+  if (!file) return;
+
+  try {
+    fs.appendFileSync(
+      file,
+      JSON.stringify({ type: "decision", ...record }) + "\n",
+    );
+  } catch (error) {
+    logger.error({ error }, `❌ Failed to record decision`);
+  }
+}
+
+export function loadDecisionLog(file: string): DecisionLog {
+  const lines = fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+  let header: DecisionLogHeader | undefined;
+  const decisions = new Map<string, DecisionRecord>();
+
+  lines.forEach((line, index) => {
+    const entry = DecisionLogEntrySchema.parse(JSON.parse(line));
+    if (entry.type === "header") {
+      if (index !== 0) {
+        throw new Error(`Decision log ${file} has a header on line ${index}`);
+      }
+      header = entry;
+    } else {
+      decisions.set(decisionKey(entry.probeId, entry.tick), entry);
+    }
+  });
+
+  if (!header) {
+    throw new Error(`Decision log ${file} has no header`);
+  }
+  return { header, decisions };
+}
+
+let replayLog: DecisionLog | undefined;
+
+// The log named by DECISION_REPLAY, loaded once per process
+export function getReplayLog(): DecisionLog | undefined {
+  const file = process.env.DECISION_REPLAY;
+  if (!file) return undefined;
+  if (!replayLog) {
+    replayLog = loadDecisionLog(path.resolve(process.cwd(), file));
+    logger.info(
+      `📼 Replaying ${replayLog.decisions.size} recorded decisions from ${file}`,
+    );
+  }
+  return replayLog;
+}
+
+export function findRecordedDecision(
+  log: DecisionLog,
+  probeId: string,
+  tick: number,
+): DecisionRecord | undefined {
+  return log.decisions.get(decisionKey(probeId, tick));
+}
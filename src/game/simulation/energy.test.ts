@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { ENERGY, Probe } from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { applyEnergyBalance } from "./energy";
+
+const ctx = createLocalContext();
+
+const probe = (id: string) => gameState.getProbe(id)!;
+
+describe("energy balance", () => {
+  let genesis: Probe;
+
+  const update = (patch: Partial<Probe>) =>
+    gameState.updateProbe(genesis.id, patch, "EnergyBalanced");
+
+  const withEnergy = (energy: number) => ({
+    resources: { ...probe(genesis.id).resources, energy },
+  });
+
+  // Far out in the dark, where the star gives next to nothing
+  const darkness = { position: { x: 1e6, y: 1e6, z: 0 } };
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+  });
+
+  it("adds solar income and pays upkeep", () => {
+    const expected =
+      genesis.resources.energy +
+      gameState.solarIncome(genesis) -
+      gameState.upkeep(genesis);
+
+    applyEnergyBalance(ctx);
+
+    expect(probe(genesis.id).resources.energy).toBe(expected);
+  });
+
+  it("powers down a dry probe until it recharges", () => {
+    update({ ...darkness, ...withEnergy(0) });
+    applyEnergyBalance(ctx);
+    expect(probe(genesis.id).status).toBe("hibernating");
+    expect(probe(genesis.id).hibernation?.forced).toBe(true);
+
+    // Enough to cover this tick's upkeep and still be charged
+    update(withEnergy(ENERGY.wakeEnergy * 2));
+    applyEnergyBalance(ctx);
+    expect(probe(genesis.id).status).toBe("active");
+    expect(probe(genesis.id).hibernation).toBeUndefined();
+  });
+
+  it("wakes a chosen hibernation on time", () => {
+    update({
+      status: "hibernating",
+      hibernation: { since: 0, forced: false, wakeAt: 1 },
+    });
+    applyEnergyBalance(ctx);
+    expect(probe(genesis.id).status).toBe("hibernating");
+
+    gameState.advanceClock();
+    applyEnergyBalance(ctx);
+    expect(probe(genesis.id).status).toBe("active");
+  });
+
+  it("goes back to building after waking", () => {
+    update({
+      status: "hibernating",
+      hibernation: { since: 0, forced: true },
+      manufacturingJob: {
+        newProbeName: "Child",
+        startedAt: 0,
+        progress: 1,
+        ticksRequired: 5,
+        paid: {
+          resources: {
+            energy: 0,
+            hydrogen: 0,
+            metal: 0,
+            silicon: 0,
+            rare_elements: 0,
+          },
+          refined: { components: 0, electronics: 0 },
+        },
+        paused: false,
+      },
+      ...withEnergy(ENERGY.wakeEnergy),
+    });
+
+    applyEnergyBalance(ctx);
+
+    expect(probe(genesis.id).status).toBe("manufacturing");
+  });
+
+  it("destroys a probe left at zero for too long", () => {
+    update({
+      ...darkness,
+      ...withEnergy(0),
+      zeroEnergyTicks: ENERGY.starvationTicks - 1,
+    });
+
+    applyEnergyBalance(ctx);
+
+    expect(probe(genesis.id).status).toBe("destroyed");
+  });
+});
@@ -0,0 +1,110 @@
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+import { ENERGY, Probe } from "@/game/core/types";
+
+// Power down a probe whose batteries just ran dry
+function forceHibernation(probe: Probe, ctx: EngineContext) {
+  gameState.updateProbe(
+    probe.id,
+    {
+      status: "hibernating",
+      hibernation: { since: gameState.getCurrentTick(), forced: true },
+    },
+    "ProbeHibernated",
+  );
+  gameState.addProbeExperience(probe.id, {
+    event: "hibernation_started",
+    data: { forced: true },
+  });
+  ctx.logger.warn(`  💤 ${probe.name} ran out of energy and is hibernating`);
+}
+
+function wake(probe: Probe, ctx: EngineContext) {
+  gameState.updateProbe(
+    probe.id,
+    {
+      // Back to any job it was building before it powered down
+      status: gameState.resumedStatus(probe, probe.hullIntegrity),
+      hibernation: undefined,
+    },
+    "ProbeWoke",
+  );
+  gameState.addProbeExperience(probe.id, {
+    event: "hibernation_ended",
+    data: {
+      forced: probe.hibernation?.forced ?? false,
+      since: probe.hibernation?.since,
+      energy: probe.resources.energy,
+    },
+  });
+  ctx.logger.info(`  ⏰ ${probe.name} woke from hibernation`);
+}
+
+// Solar income minus upkeep for every surviving probe. Probes that run dry
+// are forced into hibernation and starve after ENERGY.starvationTicks ticks
+// at zero; hibernating probes wake once recharged or when their time is up.
+export function applyEnergyBalance(ctx: EngineContext) {
+  const tick = gameState.getCurrentTick();
+  const probes = gameState
+    .getAllProbes()
+    .filter((probe) => probe.status !== "destroyed");
+
+  if (probes.length === 0) return;
+
+  ctx.logger.info(`☀️  Applying energy balance to ${probes.length} probes...`);
+
+  probes.forEach((probe) => {
+    const income = gameState.solarIncome(probe);
+    const upkeep = gameState.upkeep(probe);
+    const energy = Math.max(0, probe.resources.energy + income - upkeep);
+    const zeroEnergyTicks = energy > 0 ? 0 : probe.zeroEnergyTicks + 1;
+
+    gameState.updateProbe(
+      probe.id,
+      {
+        resources: { ...probe.resources, energy },
+        zeroEnergyTicks,
+      },
+      "EnergyBalanced",
+    );
+    gameState.addProbeExperience(probe.id, {
+      event: "solar_charging",
+      data: { energyGained: income, upkeep, newEnergyLevel: energy },
+    });
+    ctx.logger.info(
+      `  ☀️  ${probe.name}: +${income} solar -${upkeep} upkeep → ${energy} total`,
+    );
+
+    const current = gameState.getProbe(probe.id)!;
+    if (zeroEnergyTicks >= ENERGY.starvationTicks) {
+      gameState.updateProbe(
+        probe.id,
+        {
+          status: "destroyed",
+          trajectory: undefined,
+          hibernation: undefined,
+        },
+        "ProbeDestroyed",
+      );
+      gameState.addProbeExperience(probe.id, {
+        event: "probe_destroyed",
+        data: { cause: "energy_depleted", zeroEnergyTicks, tick },
+      });
+      ctx.logger.warn(
+        `  💀 ${probe.name} destroyed after ${zeroEnergyTicks} ticks without energy`,
+      );
+    } else if (current.status === "hibernating") {
+      const { forced, wakeAt } = current.hibernation ?? { forced: true };
+      if (
+        forced
+          ? energy >= ENERGY.wakeEnergy
+          : wakeAt !== undefined && tick >= wakeAt
+      ) {
+        wake(current, ctx);
+      }
+    } else if (energy === 0 && !current.trajectory) {
+      // Probes in flight coast on; they power down once they arrive
+      forceHibernation(current, ctx);
+    }
+  });
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { HAZARDS, Probe } from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { applyHazards } from "./hazards";
+
+const ctx = createLocalContext();
+
+const probe = (id: string) => gameState.getProbe(id)!;
+
+describe("hazards", () => {
+  let genesis: Probe;
+
+  const place = (patch: Partial<Probe>) =>
+    gameState.updateProbe(genesis.id, patch, "ProbeMoved");
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+  });
+
+  it("burns a probe next to its star", () => {
+    const star = gameState.getSolarSystem(genesis.currentSystemId)!.star;
+    place({ position: star.position });
+
+    applyHazards(ctx);
+
+    expect(probe(genesis.id).hullIntegrity).toBeLessThanOrEqual(
+      genesis.hullIntegrity - HAZARDS.radiationDamage,
+    );
+  });
+
+  it("only wears a probe between the stars", () => {
+    const otherSystemId = gameState
+      .getAllSystems()
+      .find((s) => s.id !== genesis.currentSystemId)!.id;
+    place({
+      status: "traveling",
+      trajectory: {
+        kind: "interstellar",
+        originSystemId: genesis.currentSystemId,
+        destinationSystemId: otherSystemId,
+        origin: genesis.position,
+        destination: genesis.position,
+        distance: 1,
+        departureTick: 0,
+        arrivalTick: 5,
+      },
+    });
+
+    applyHazards(ctx);
+
+    expect(probe(genesis.id).hullIntegrity).toBe(
+      genesis.hullIntegrity - HAZARDS.travelWear.interstellar,
+    );
+    expect(probe(genesis.id).status).toBe("traveling");
+  });
+
+  it("marks a worn hull damaged and destroys a spent one", () => {
+    const star = gameState.getSolarSystem(genesis.currentSystemId)!.star;
+    place({ position: star.position, hullIntegrity: 20 });
+    applyHazards(ctx);
+    expect(probe(genesis.id).status).toBe("damaged");
+
+    place({ hullIntegrity: 1 });
+    applyHazards(ctx);
+    expect(probe(genesis.id).status).toBe("destroyed");
+    expect(probe(genesis.id).hullIntegrity).toBe(0);
+  });
+
+  it("keeps a probe building while it takes damage", () => {
+    const star = gameState.getSolarSystem(genesis.currentSystemId)!.star;
+    place({
+      position: star.position,
+      hullIntegrity: 20,
+      status: "manufacturing",
+      manufacturingJob: {
+        newProbeName: "Child",
+        startedAt: 0,
+        progress: 1,
+        ticksRequired: 5,
+        paid: {
+          resources: gameState.subtractResources(
+            genesis.resources,
+            genesis.resources,
+          ),
+          refined: { components: 0, electronics: 0 },
+        },
+        paused: false,
+      },
+    });
+
+    applyHazards(ctx);
+
+    expect(probe(genesis.id).hullIntegrity).toBeLessThan(20);
+    expect(probe(genesis.id).status).toBe("manufacturing");
+  });
+});
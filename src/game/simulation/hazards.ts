@@ -0,0 +1,119 @@
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+import { HAZARDS, HULL, Probe, STAR_CLASS_PROPERTIES } from "@/game/core/types";
+import { createRandom } from "@/utils/random";
+
+type HazardCause = "radiation" | "micrometeoroids" | "travel_wear";
+
+// Damage each hazard deals a probe this tick
+function hazardDamage(probe: Probe, tick: number) {
+  const damage: Partial<Record<HazardCause, number>> = {};
+
+  if (probe.trajectory) {
+    damage.travel_wear = HAZARDS.travelWear[probe.trajectory.kind];
+    // Between the stars there is nothing else to run into
+    if (probe.trajectory.kind === "interstellar") return damage;
+  }
+
+  const system = gameState.getSolarSystem(probe.currentSystemId);
+  if (!system) return damage;
+
+  const starDistance = gameState.calculateDistance(
+    probe.position,
+    system.star.position,
+  );
+  const { luminosity } = STAR_CLASS_PROPERTIES[system.starClass ?? "G"];
+  const radiationRange = HAZARDS.radiationRangeAu * Math.sqrt(luminosity);
+  if (starDistance < radiationRange) {
+    damage.radiation =
+      HAZARDS.radiationDamage * (1 - starDistance / radiationRange);
+  }
+
+  const inBelt = system.bodies.some(
+    (body) =>
+      body.type === "asteroid_belt" &&
+      Math.abs(
+        starDistance -
+          gameState.calculateDistance(body.position, system.star.position),
+      ) <= HAZARDS.beltHalfWidthAu,
+  );
+  if (inBelt) {
+    // Seeded per probe and tick, so a run with the same seed takes the same hits
+    const random = createRandom(
+      `${gameState.getState().galaxy?.seed ?? 0}:hazard:${probe.id}:${tick}`,
+    );
+    if (random.chance(HAZARDS.micrometeoroidChance)) {
+      damage.micrometeoroids = random.int(...HAZARDS.micrometeoroidDamage);
+    }
+  }
+
+  return damage;
+}
+
+// Wear down every surviving probe's hull. Probes that drop below the damage
+// threshold become `damaged`; probes that reach zero are destroyed.
+export function applyHazards(ctx: EngineContext) {
+  const tick = gameState.getCurrentTick();
+
+  gameState
+    .getAllProbes()
+    .filter((probe) => probe.status !== "destroyed")
+    .forEach((probe) => {
+      const damage = hazardDamage(probe, tick);
+      const total = Object.values(damage).reduce((sum, n) => sum + n, 0);
+      if (total <= 0) return;
+
+      const hullIntegrity = Math.max(
+        0,
+        Math.round((probe.hullIntegrity - total) * 100) / 100,
+      );
+
+      if (hullIntegrity <= 0) {
+        gameState.updateProbe(
+          probe.id,
+          {
+            hullIntegrity,
+            status: "destroyed",
+            trajectory: undefined,
+            hibernation: undefined,
+          },
+          "ProbeDestroyed",
+        );
+        gameState.addProbeExperience(probe.id, {
+          event: "probe_destroyed",
+          data: { damage, tick },
+        });
+        ctx.logger.warn(
+          `  💀 ${probe.name} destroyed by ${Object.keys(damage).join(" and ")}`,
+        );
+        return;
+      }
+
+      gameState.updateProbe(
+        probe.id,
+        {
+          hullIntegrity,
+          // Probes in flight or hibernating stay so; the rest settle by hull
+          // unless they are still building
+          status:
+            probe.trajectory || probe.status === "hibernating"
+              ? probe.status
+              : gameState.resumedStatus(probe, hullIntegrity),
+        },
+        "HullDamaged",
+      );
+      gameState.addProbeExperience(probe.id, {
+        event: "hull_damaged",
+        data: { damage, hullIntegrity },
+      });
+
+      if (
+        hullIntegrity < HULL.damagedThreshold &&
+        probe.hullIntegrity >= HULL.damagedThreshold
+      ) {
+        ctx.logger.warn(
+          `  🩹 ${probe.name} is damaged (hull ${hullIntegrity}/${HULL.max})`,
+        );
+      }
+    });
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { Probe, Resources } from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { syncKnowledge } from "./knowledge-sync";
+
+const ctx = createLocalContext();
+
+const memoryOf = (id: string) => gameState.getProbe(id)!.memory;
+
+describe("knowledge sync", () => {
+  let genesis: Probe;
+  let otherSystemId: string;
+  let bodyIds: string[];
+
+  // A probe alongside Genesis that has scanned the given bodies
+  const addProbe = (
+    id: string,
+    scans: Record<string, { at: number; metal: number }>,
+    overrides: Partial<Probe> = {},
+  ) => {
+    const discoveredResources = Object.fromEntries(
+      Object.entries(scans).map(([bodyId, { at, metal }]) => [
+        bodyId,
+        {
+          resources: { ...genesis.resources, metal } as Resources,
+          scannedAt: at,
+          scannedBy: id,
+          source: "scan" as const,
+        },
+      ]),
+    );
+    const probe = {
+      ...genesis,
+      id,
+      name: id,
+      memory: { ...genesis.memory, discoveredResources, knownProbes: [] },
+      ...overrides,
+    };
+    gameState.addProbe(probe);
+    return probe;
+  };
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 7 });
+    genesis = gameState.getAllProbes()[0];
+    otherSystemId = gameState
+      .getAllSystems()
+      .find((s) => s.id !== genesis.currentSystemId)!.id;
+    bodyIds = gameState
+      .getSolarSystem(genesis.currentSystemId)!
+      .bodies.map((b) => b.id);
+  });
+
+  it("merges charts keeping the newest scan and pools known probes", () => {
+    const [shared, onlyB] = bodyIds;
+    addProbe("a", { [shared]: { at: 2, metal: 10 } });
+    addProbe("b", {
+      [shared]: { at: 1, metal: 99 },
+      [onlyB]: { at: 1, metal: 5 },
+    });
+
+    syncKnowledge(ctx);
+
+    const a = memoryOf("a");
+    const b = memoryOf("b");
+    expect(a.discoveredResources[shared].resources.metal).toBe(10);
+    expect(b.discoveredResources[shared]).toMatchObject({
+      scannedAt: 2,
+      scannedBy: "a",
+      source: "sync",
+      sharedBy: "a",
+    });
+    expect(a.discoveredResources[onlyB]).toMatchObject({
+      scannedBy: "b",
+      source: "sync",
+      sharedBy: "b",
+    });
+    expect(a.knownProbes).toContain("b");
+    expect(b.knownProbes).toContain("a");
+    expect(a.knownProbes).not.toContain("a");
+  });
+
+  it("skips probes out of range or crossing interstellar space", () => {
+    // A body none of the probes alongside has charted
+    const body = gameState.getSolarSystem(otherSystemId)!.bodies[0].id;
+    addProbe("here", {});
+    addProbe(
+      "far",
+      { [body]: { at: 1, metal: 1 } },
+      {
+        currentSystemId: otherSystemId,
+      },
+    );
+    addProbe(
+      "leaving",
+      { [body]: { at: 1, metal: 1 } },
+      {
+        status: "traveling",
+        trajectory: {
+          kind: "interstellar",
+          originSystemId: genesis.currentSystemId,
+          destinationSystemId: otherSystemId,
+          origin: genesis.position,
+          destination: genesis.position,
+          distance: 1,
+          departureTick: 0,
+          arrivalTick: 5,
+        },
+      },
+    );
+
+    syncKnowledge(ctx);
+
+    expect(memoryOf("here").discoveredResources[body]).toBeUndefined();
+    expect(memoryOf("here").knownProbes).not.toContain("far");
+    expect(memoryOf("here").knownProbes).not.toContain("leaving");
+  });
+});
@@ -0,0 +1,82 @@
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+import { Probe } from "@/game/core/types";
+
+// Pairwise knowledge exchange between probes within each other's
+// communication range, or linked by relays: charted bodies (newest scan
+// wins) and known probes.
+// Pairs are visited in id order so every run merges the same way.
+export function syncKnowledge(ctx: EngineContext) {
+  const probes = gameState
+    .getAllProbes()
+    .filter((probe) => gameState.inContact(probe))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  let exchanges = 0;
+
+  probes.forEach((first, index) => {
+    probes.slice(index + 1).forEach((second) => {
+      // Re-read both: earlier pairs this tick may have taught them something
+      const a = gameState.getProbe(first.id);
+      const b = gameState.getProbe(second.id);
+      if (!a || !b) return;
+
+      const distance = gameState.calculateProbeSeparation(a, b);
+      const range = Math.min(
+        gameState.getEffectiveCapabilities(a).communicationRange,
+        gameState.getEffectiveCapabilities(b).communicationRange,
+      );
+      if (distance > range && !gameState.relayLinked(a, b)) return;
+
+      exchanges++;
+      exchangeWith(a, b);
+      exchangeWith(b, a);
+    });
+  });
+
+  if (exchanges > 0) {
+    ctx.logger.info(`🔗 Synced knowledge across ${exchanges} probe pairs`);
+  }
+}
+
+// Teach `learner` what `teacher` knows, logging an experience if anything new
+function exchangeWith(learner: Probe, teacher: Probe) {
+  const current = gameState.getProbe(learner.id) ?? learner;
+  const { merged, adopted } = gameState.mergeDiscoveredResources(
+    current.memory.discoveredResources,
+    teacher.memory.discoveredResources,
+    "sync",
+    teacher.id,
+  );
+  const knownProbes = [
+    ...new Set([
+      ...current.memory.knownProbes,
+      ...teacher.memory.knownProbes,
+      teacher.id,
+    ]),
+  ].filter((id) => id !== learner.id);
+  const newProbes = knownProbes.length - current.memory.knownProbes.length;
+
+  if (adopted === 0 && newProbes === 0) return;
+
+  gameState.updateProbe(
+    learner.id,
+    {
+      memory: {
+        ...current.memory,
+        discoveredResources: merged,
+        knownProbes,
+      },
+    },
+    "KnowledgeShared",
+  );
+  gameState.addProbeExperience(learner.id, {
+    event: "knowledge_synced",
+    data: {
+      withProbeId: teacher.id,
+      withProbeName: teacher.name,
+      bodiesLearned: adopted,
+      probesLearned: newProbes,
+    },
+  });
+}
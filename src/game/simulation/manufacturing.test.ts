@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import {
+  MANUFACTURING,
+  Probe,
+  PROBE_REPLICATION_COST,
+} from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import {
+  cancelManufacturing,
+  manufactureProbe,
+} from "@/game/engine/probe-actions";
+import { advanceManufacturing } from "./manufacturing";
+
+const ctx = createLocalContext();
+
+const probe = (id: string) => gameState.getProbe(id)!;
+
+describe("manufacturing", () => {
+  let genesis: Probe;
+
+  const start = () =>
+    manufactureProbe.fn({ probeId: genesis.id, newProbeName: "Child" }, ctx);
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+    // Exactly what one child costs
+    gameState.updateProbe(
+      genesis.id,
+      {
+        resources: PROBE_REPLICATION_COST.resources,
+        refinedGoods: {
+          components: 0,
+          electronics: 0,
+          ...PROBE_REPLICATION_COST.refined,
+        },
+      },
+      "EnergyBalanced",
+    );
+  });
+
+  it("builds a child over the required ticks for the full cost", async () => {
+    expect((await start()).success).toBe(true);
+    expect(probe(genesis.id).status).toBe("manufacturing");
+
+    const reports = Array.from({ length: MANUFACTURING.ticksRequired }, () =>
+      advanceManufacturing(ctx),
+    );
+
+    const childId = reports.at(-1)![0].newProbeId!;
+    expect(reports.slice(0, -1).every(([r]) => !r.newProbeId)).toBe(true);
+    expect(probe(childId)).toMatchObject({
+      name: "Child",
+      parentProbeId: genesis.id,
+      generation: genesis.generation + 1,
+    });
+    expect(probe(genesis.id).manufacturingJob).toBeUndefined();
+    expect(probe(genesis.id).status).toBe("active");
+    expect(gameState.getTotalResourceAmount(probe(genesis.id).resources)).toBe(
+      0,
+    );
+    expect(probe(genesis.id).refinedGoods).toEqual({
+      components: 0,
+      electronics: 0,
+    });
+  });
+
+  it("stalls while the parent can't pay", async () => {
+    await start();
+    gameState.updateProbe(
+      genesis.id,
+      {
+        resources: gameState.subtractResources(
+          genesis.resources,
+          genesis.resources,
+        ),
+      },
+      "EnergyBalanced",
+    );
+
+    const [report] = advanceManufacturing(ctx);
+
+    expect(report).toMatchObject({ stalled: true, progress: 0 });
+    expect(probe(genesis.id).manufacturingJob?.progress).toBe(0);
+  });
+
+  it("keeps a paused job's progress until it resumes", async () => {
+    await start();
+    advanceManufacturing(ctx);
+
+    await cancelManufacturing.fn({ probeId: genesis.id }, ctx);
+    expect(probe(genesis.id).manufacturingJob).toMatchObject({
+      paused: true,
+      progress: 1,
+    });
+    expect(probe(genesis.id).status).toBe("active");
+    expect(advanceManufacturing(ctx)).toEqual([]);
+
+    await start();
+    const [report] = advanceManufacturing(ctx);
+    expect(report.progress).toBe(2);
+  });
+});
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+import { mutateCapabilities } from "@/game/core/mutation";
+import { HULL, ManufacturingJob, Probe } from "@/game/core/types";
+import { createRandom } from "@/utils/random";
+
+// One parent's build progress, as shown in the tick report
+export const ManufacturingProgressSchema = z.object({
+  probeId: z.string(),
+  probeName: z.string(),
+  newProbeName: z.string(),
+  progress: z.number(),
+  ticksRequired: z.number(),
+  // This tick's installment couldn't be paid, so no work was done
+  stalled: z.boolean(),
+  // Set on the tick the child rolls off the line
+  newProbeId: z.string().optional(),
+});
+
+export type ManufacturingProgress = z.infer<typeof ManufacturingProgressSchema>;
+
+// A job only advances while its parent is free to work on it
+const isWorking = (probe: Probe) =>
+  probe.manufacturingJob !== undefined &&
+  !probe.manufacturingJob.paused &&
+  probe.status !== "destroyed" &&
+  probe.status !== "hibernating" &&
+  !probe.trajectory;
+
+// Roll the finished child off the line: it copies its parent's hardware,
+// upgrades included, with small mutations seeded by the child's id so a
+// replayed run breeds the same way
+function completeJob(
+  parent: Probe,
+  job: ManufacturingJob,
+  ctx: EngineContext,
+): string {
+  const newProbeId = gameState.createProbeId(parent.id, job.newProbeName);
+  const { capabilities, mutations } = mutateCapabilities(
+    parent.capabilities,
+    gameState.getState().mutation,
+    createRandom(
+      `${gameState.getState().galaxy?.seed ?? 0}:mutation:${newProbeId}`,
+    ),
+  );
+
+  gameState.addProbe({
+    id: newProbeId,
+    name: job.newProbeName,
+    status: "active",
+    position: { ...parent.position },
+    currentSystemId: parent.currentSystemId,
+    resources: {
+      energy: 500, // Start with basic energy
+      metal: 50,
+      silicon: 50,
+      hydrogen: 50,
+      rare_elements: 5,
+    },
+    memory: {
+      visitedSystems: [...parent.memory.visitedSystems],
+      discoveredResources: gameState.mergeDiscoveredResources(
+        {},
+        parent.memory.discoveredResources,
+        "inherited",
+        parent.id,
+      ).merged,
+      knownProbes: [...parent.memory.knownProbes, parent.id],
+      experiences: [
+        {
+          timestamp: gameState.now(),
+          event: "probe_manufactured",
+          data: {
+            parentId: parent.id,
+            parentName: parent.name,
+            location: parent.currentSystemId,
+            mutations,
+          },
+        },
+      ],
+    },
+    capabilities,
+    capabilityLevels: { ...parent.capabilityLevels },
+    hullIntegrity: HULL.max,
+    zeroEnergyTicks: 0,
+    messagesSent: 0,
+    refinedGoods: { components: 0, electronics: 0 },
+    policy: parent.policy,
+    parentProbeId: parent.id,
+    generation: parent.generation + 1,
+    createdAt: gameState.now(),
+  });
+
+  const current = gameState.getProbe(parent.id)!;
+  gameState.updateProbe(
+    parent.id,
+    {
+      manufacturingJob: undefined,
+      status: gameState.idleStatus(current.hullIntegrity),
+      memory: {
+        ...current.memory,
+        knownProbes: [...current.memory.knownProbes, newProbeId],
+      },
+    },
+    "ManufacturingCompleted",
+  );
+  gameState.addProbeExperience(parent.id, {
+    event: "probe_manufactured",
+    data: {
+      childId: newProbeId,
+      childName: job.newProbeName,
+      resourcesUsed: job.paid,
+      ticks: job.ticksRequired,
+    },
+  });
+
+  ctx.logger.info(
+    `  🐣 ${parent.name} completed ${job.newProbeName} (Generation ${parent.generation + 1})`,
+  );
+  mutations.forEach((m) =>
+    ctx.logger.info(
+      `    🧬 ${job.newProbeName} ${m.capability}: ${m.parentValue} → ${m.value}`,
+    ),
+  );
+  return newProbeId;
+}
+
+// One tick of work on every active job: each parent pays its installment and
+// advances, or stalls until it can pay. Finished jobs produce the child.
+export function advanceManufacturing(
+  ctx: EngineContext,
+): ManufacturingProgress[] {
+  const builders = gameState
+    .getAllProbes()
+    .filter(isWorking)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  if (builders.length === 0) return [];
+
+  ctx.logger.info(`🏭 Advancing ${builders.length} manufacturing jobs...`);
+
+  return builders.map((probe) => {
+    const job = probe.manufacturingJob!;
+    const installment = gameState.manufacturingInstallment(job);
+    const report = {
+      probeId: probe.id,
+      probeName: probe.name,
+      newProbeName: job.newProbeName,
+      ticksRequired: job.ticksRequired,
+    };
+
+    if (!gameState.canAffordCost(probe, installment)) {
+      ctx.logger.warn(
+        `  ⏸️  ${probe.name} can't pay for ${job.newProbeName} this tick (${job.progress}/${job.ticksRequired})`,
+      );
+      return { ...report, progress: job.progress, stalled: true };
+    }
+
+    const paid = gameState.payCost(probe, installment);
+    const progressed: ManufacturingJob = {
+      ...job,
+      progress: job.progress + 1,
+      paid: {
+        resources: gameState.addResources(
+          job.paid.resources,
+          installment.resources,
+        ),
+        refined: {
+          components:
+            job.paid.refined.components + (installment.refined.components ?? 0),
+          electronics:
+            job.paid.refined.electronics +
+            (installment.refined.electronics ?? 0),
+        },
+      },
+    };
+    gameState.updateProbe(
+      probe.id,
+      {
+        ...paid,
+        status: "manufacturing",
+        manufacturingJob: progressed,
+      },
+      "ManufacturingProgressed",
+    );
+
+    if (progressed.progress < progressed.ticksRequired) {
+      return { ...report, progress: progressed.progress, stalled: false };
+    }
+
+    const newProbeId = completeJob(
+      gameState.getProbe(probe.id)!,
+      progressed,
+      ctx,
+    );
+    return {
+      ...report,
+      progress: progressed.progress,
+      stalled: false,
+      newProbeId,
+    };
+  });
+}
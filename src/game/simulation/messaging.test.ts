@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { Probe } from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { sendMessage } from "@/game/engine/probe-actions";
+import { deliverMessages } from "./messaging";
+
+const ctx = createLocalContext();
+
+describe("messaging", () => {
+  let genesis: Probe;
+  let otherSystemId: string;
+
+  const addProbe = (id: string, overrides: Partial<Probe> = {}) => {
+    const probe = { ...genesis, id, name: id, ...overrides };
+    gameState.addProbe(probe);
+    return probe;
+  };
+
+  const send = (recipientId?: string) =>
+    sendMessage.fn({ probeId: genesis.id, recipientId, content: "hello" }, ctx);
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+    otherSystemId = gameState
+      .getAllSystems()
+      .find((s) => s.id !== genesis.currentSystemId)!.id;
+  });
+
+  it("delivers a message once light has crossed the distance", async () => {
+    // A transmitter strong enough to reach the next system
+    gameState.updateProbe(
+      genesis.id,
+      { capabilities: { ...genesis.capabilities, communicationRange: 1e9 } },
+      "CapabilityUpgraded",
+    );
+    const distant = addProbe("distant", { currentSystemId: otherSystemId });
+
+    const result = await send(distant.id);
+    const [sent] = result.data!.recipients;
+    expect(sent.deliverAt).toBe(
+      gameState.getCurrentTick() + gameState.lightDelayTicks(sent.distance),
+    );
+
+    while (gameState.getCurrentTick() < sent.deliverAt - 1) {
+      gameState.advanceClock();
+      deliverMessages(ctx);
+    }
+    expect(gameState.getInbox(distant.id)[0].delivered).toBe(false);
+
+    gameState.advanceClock();
+    deliverMessages(ctx);
+    expect(gameState.getInbox(distant.id)[0].delivered).toBe(true);
+    expect(gameState.getProbe(distant.id)!.memory.knownProbes).toContain(
+      genesis.id,
+    );
+  });
+
+  it("refuses destroyed recipients", async () => {
+    const wreck = addProbe("wreck", { status: "destroyed" });
+    const result = await send(wreck.id);
+    expect(result.error?.code).toBe("probe_destroyed");
+    expect(gameState.getInbox(wreck.id)).toEqual([]);
+  });
+
+  it("broadcasts only to probes in contact", async () => {
+    addProbe("neighbor");
+    addProbe("wreck", { status: "destroyed" });
+    addProbe("leaving", {
+      status: "traveling",
+      trajectory: {
+        kind: "interstellar",
+        originSystemId: genesis.currentSystemId,
+        destinationSystemId: otherSystemId,
+        origin: genesis.position,
+        destination: genesis.position,
+        distance: 1,
+        departureTick: 0,
+        arrivalTick: 5,
+      },
+    });
+
+    const result = await send();
+    expect(result.data!.recipients.map((r) => r.probeId)).toEqual(["neighbor"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+
+// Deliver every queued message whose light has reached its recipient. The
+// recipient learns of the sender and merges any shared scans, keeping
+// whichever scan of a body is newest.
+export function deliverMessages(ctx: EngineContext) {
+  const tick = gameState.getCurrentTick();
+
+  Object.entries(gameState.getState().inboxes).forEach(([probeId, inbox]) => {
+    const arriving = inbox.filter((m) => !m.delivered && m.deliverAt <= tick);
+    const recipient = gameState.getProbe(probeId);
+    if (arriving.length === 0 || !recipient) return;
+
+    const knownProbes = [
+      ...new Set([
+        ...recipient.memory.knownProbes,
+        ...arriving.map((m) => m.fromProbeId),
+      ]),
+    ];
+    const discoveredResources = arriving.reduce(
+      (known, message) =>
+        gameState.mergeDiscoveredResources(
+          known,
+          message.discoveries ?? {},
+          "message",
+          message.fromProbeId,
+        ).merged,
+      recipient.memory.discoveredResources,
+    );
+    gameState.updateProbe(
+      probeId,
+      {
+        memory: { ...recipient.memory, knownProbes, discoveredResources },
+      },
+      "MessageReceived",
+    );
+
+    arriving.forEach((message) => {
+      gameState.addProbeExperience(probeId, {
+        event: "message_received",
+        data: {
+          messageId: message.id,
+          fromProbeId: message.fromProbeId,
+          fromProbeName: message.fromProbeName,
+          content: message.content,
+          sentAt: message.sentAt,
+          sharedDiscoveries: Object.keys(message.discoveries ?? {}).length,
+        },
+      });
+      ctx.logger.info(
+        `  📨 ${recipient.name} received a message from ${message.fromProbeName} (sent tick ${message.sentAt})`,
+      );
+    });
+
+    const arrivedIds = new Set(arriving.map((m) => m.id));
+    gameState.updateMessages(probeId, (message) =>
+      arrivedIds.has(message.id) ? { ...message, delivered: true } : message,
+    );
+  });
+}
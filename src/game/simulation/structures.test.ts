@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import {
+  CelestialBody,
+  Probe,
+  STRUCTURES,
+  StructureSchema,
+  StructureTypeName,
+} from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { applyStructures } from "./structures";
+
+const ctx = createLocalContext();
+
+const structure = (id: string) => gameState.getStructure(id)!;
+
+describe("structures", () => {
+  let genesis: Probe;
+  let body: CelestialBody;
+
+  // A structure on the planet at home, or on the first body elsewhere
+  const build = (type: StructureTypeName, systemId?: string) => {
+    const system = gameState.getSolarSystem(
+      systemId ?? genesis.currentSystemId,
+    )!;
+    const id = `${type}-${system.id}`;
+    gameState.addStructure(
+      StructureSchema.parse({
+        id,
+        type,
+        name: id,
+        systemId: system.id,
+        bodyId: systemId ? system.bodies[0].id : body.id,
+        builtBy: genesis.id,
+        builtAt: 0,
+      }),
+    );
+    return id;
+  };
+
+  const bodyNow = () =>
+    gameState
+      .getSolarSystem(genesis.currentSystemId)!
+      .bodies.find((b) => b.id === body.id)!;
+
+  const moveGenesis = (position: CelestialBody["position"]) =>
+    gameState.updateProbe(genesis.id, { position }, "ProbeMoved");
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+    body = gameState
+      .getSolarSystem(genesis.currentSystemId)!
+      .bodies.find((b) => b.type === "planet")!;
+    // Away from the body, so nothing is collected unless a test moves it back
+    moveGenesis({ x: 1e5, y: 1e5, z: 0 });
+  });
+
+  it("stocks what a miner takes from its body", () => {
+    const expected = gameState.bodyYield(body, STRUCTURES.automated_miner.rate);
+    const id = build("automated_miner");
+
+    applyStructures(ctx);
+
+    expect(structure(id).stock).toEqual(expected);
+    expect(bodyNow().resources).toEqual(
+      gameState.subtractResources(body.resources, expected),
+    );
+  });
+
+  it("stocks energy from a solar collector without touching the body", () => {
+    const system = gameState.getSolarSystem(genesis.currentSystemId)!;
+    const id = build("solar_collector");
+
+    applyStructures(ctx);
+
+    expect(structure(id).stock.energy).toBe(
+      Math.floor(
+        gameState.solarIncomeAt(system, body.position) *
+          STRUCTURES.solar_collector.rate,
+      ),
+    );
+    expect(bodyNow().resources).toEqual(body.resources);
+  });
+
+  it("fabricates components from its body's ores", () => {
+    const id = build("fabrication_yard");
+
+    applyStructures(ctx);
+
+    const { rate } = STRUCTURES.fabrication_yard;
+    expect(structure(id).refinedStock.components).toBe(rate);
+    expect(bodyNow().resources).toEqual(
+      gameState.subtractResources(
+        body.resources,
+        gameState.recipeInputs("components", rate),
+      ),
+    );
+  });
+
+  it("hands its stock to a probe at the body", () => {
+    const id = build("fabrication_yard");
+    moveGenesis(body.position);
+
+    applyStructures(ctx);
+
+    expect(structure(id).refinedStock.components).toBe(0);
+    expect(gameState.getProbe(genesis.id)!.refinedGoods.components).toBe(
+      genesis.refinedGoods.components + STRUCTURES.fabrication_yard.rate,
+    );
+  });
+
+  it("links probes in systems that both have a relay", () => {
+    const otherSystemId = gameState
+      .getAllSystems()
+      .find((s) => s.id !== genesis.currentSystemId)!.id;
+    const distant = {
+      ...genesis,
+      id: "distant",
+      currentSystemId: otherSystemId,
+    };
+    gameState.addProbe(distant);
+    const here = gameState.getProbe(genesis.id)!;
+
+    build("communications_relay");
+    expect(gameState.canMessage(here, distant)).toBe(false);
+
+    build("communications_relay", otherSystemId);
+    expect(gameState.canMessage(here, distant)).toBe(true);
+  });
+});
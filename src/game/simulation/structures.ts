@@ -0,0 +1,187 @@
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+import {
+  CelestialBody,
+  HARVEST_RANGE_AU,
+  REFINING_RECIPES,
+  RefinedGoods,
+  Resources,
+  ResourceType,
+  SolarSystem,
+  Structure,
+  STRUCTURES,
+} from "@/game/core/types";
+
+// What a structure adds to its stock this tick, and what that takes from its
+// body. Relays produce nothing; their effect is in relayLinked.
+function produce(
+  structure: Structure,
+  system: SolarSystem,
+  body: CelestialBody,
+): { resources: Resources; refined: Partial<RefinedGoods>; mined: Resources } {
+  const { stockCapacity, rate } = STRUCTURES[structure.type];
+  const none: Resources = {
+    energy: 0,
+    metal: 0,
+    silicon: 0,
+    hydrogen: 0,
+    rare_elements: 0,
+  };
+  const room =
+    stockCapacity - gameState.getTotalResourceAmount(structure.stock);
+
+  switch (structure.type) {
+    case "automated_miner": {
+      const mined = gameState.bodyYield(body, rate);
+      // Fill up to capacity in resource order
+      let left = Math.max(0, room);
+      ResourceType.options.forEach((resource) => {
+        mined[resource] = Math.min(mined[resource], left);
+        left -= mined[resource];
+      });
+      return { resources: mined, refined: {}, mined };
+    }
+    case "solar_collector": {
+      const energy = Math.min(
+        Math.max(0, room),
+        Math.floor(gameState.solarIncomeAt(system, body.position) * rate),
+      );
+      return { resources: { ...none, energy }, refined: {}, mined: none };
+    }
+    case "fabrication_yard": {
+      const { inputs } = REFINING_RECIPES.components;
+      const batches = Math.min(
+        rate,
+        stockCapacity - structure.refinedStock.components,
+        ...Object.entries(inputs).map(([resource, amount]) =>
+          Math.floor(body.resources[resource as keyof Resources] / amount!),
+        ),
+      );
+      if (batches <= 0) return { resources: none, refined: {}, mined: none };
+      return {
+        resources: none,
+        refined: { components: batches },
+        mined: gameState.addResources(
+          none,
+          gameState.recipeInputs("components", batches),
+        ),
+      };
+    }
+    case "communications_relay":
+      return { resources: none, refined: {}, mined: none };
+  }
+}
+
+// Hand a structure's stock to the probes parked at its body: the builder
+// first, then the rest in id order, each as far as its storage allows
+function collect(
+  structure: Structure,
+  body: CelestialBody,
+  ctx: EngineContext,
+) {
+  const collectors = gameState
+    .getAllProbes()
+    .filter(
+      (probe) =>
+        probe.status !== "destroyed" &&
+        !probe.trajectory &&
+        probe.currentSystemId === structure.systemId &&
+        gameState.calculateDistance(probe.position, body.position) <=
+          HARVEST_RANGE_AU,
+    )
+    .sort((a, b) =>
+      a.id === structure.builtBy
+        ? -1
+        : b.id === structure.builtBy
+          ? 1
+          : a.id.localeCompare(b.id),
+    );
+
+  let stock = { ...structure.stock };
+  let refinedStock = { ...structure.refinedStock };
+
+  collectors.forEach((probe) => {
+    let free =
+      probe.capabilities.storageCapacity -
+      gameState.getTotalResourceAmount(probe.resources);
+    const taken = { ...stock };
+    ResourceType.options.forEach((resource) => {
+      taken[resource] = Math.max(0, Math.min(stock[resource], free));
+      free -= taken[resource];
+    });
+    const takenTotal = gameState.getTotalResourceAmount(taken);
+    const refinedTaken = refinedStock.components + refinedStock.electronics;
+    if (takenTotal === 0 && refinedTaken === 0) return;
+
+    gameState.updateProbe(
+      probe.id,
+      {
+        resources: gameState.addResources(probe.resources, taken),
+        refinedGoods: {
+          components: probe.refinedGoods.components + refinedStock.components,
+          electronics:
+            probe.refinedGoods.electronics + refinedStock.electronics,
+        },
+      },
+      "StructureOutputCollected",
+    );
+    gameState.addProbeExperience(probe.id, {
+      event: "structure_output_collected",
+      data: {
+        structureId: structure.id,
+        structureType: structure.type,
+        resources: taken,
+        refined: refinedStock,
+      },
+    });
+    ctx.logger.info(
+      `  📦 ${probe.name} collected ${takenTotal} resources and ${refinedTaken} refined goods from ${structure.name}`,
+    );
+
+    stock = gameState.subtractResources(stock, taken);
+    refinedStock = { components: 0, electronics: 0 };
+  });
+
+  return { stock, refinedStock };
+}
+
+// Every structure produces into its stock, drawing on its body where it
+// mines or fabricates, then probes within harvesting range of the body
+// collect the stock. Structures run in id order so replays match.
+export function applyStructures(ctx: EngineContext) {
+  const structures = gameState
+    .getAllStructures()
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  if (structures.length === 0) return;
+
+  ctx.logger.info(`🏗️  Running ${structures.length} structures...`);
+
+  structures.forEach((structure) => {
+    // Re-read the system: earlier structures may have mined the same body
+    const system = gameState.getSolarSystem(structure.systemId);
+    const body = system?.bodies.find((b) => b.id === structure.bodyId);
+    if (!system || !body) return;
+
+    const { resources, refined, mined } = produce(structure, system, body);
+    if (gameState.getTotalResourceAmount(mined) > 0) {
+      gameState.mineBody(system.id, body.id, mined, structure.id);
+    }
+
+    const { stock, refinedStock } = collect(
+      {
+        ...structure,
+        stock: gameState.addResources(structure.stock, resources),
+        refinedStock: {
+          components:
+            structure.refinedStock.components + (refined.components ?? 0),
+          electronics:
+            structure.refinedStock.electronics + (refined.electronics ?? 0),
+        },
+      },
+      body,
+      ctx,
+    );
+    gameState.updateStructure(structure.id, { stock, refinedStock });
+  });
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { gameState } from "@/game/core/game-state";
+import { Probe } from "@/game/core/types";
+import { createLocalContext } from "@/game/engine/context";
+import { createEngine } from "@/game/engine/engine";
+import { travelToPosition, travelToSystem } from "@/game/engine/probe-actions";
+import { getEnvironmentState } from "@/game/engine/probe-state";
+import { advanceTrajectories } from "./travel";
+
+const ctx = createLocalContext();
+
+// The clock and the trajectories only, without any agent acting
+const tick = () => {
+  gameState.advanceClock();
+  advanceTrajectories(ctx);
+};
+
+const probe = (id: string) => gameState.getProbe(id)!;
+
+describe("travel", () => {
+  let genesis: Probe;
+
+  beforeEach(() => {
+    gameState.resetGameState({ seed: 3 });
+    genesis = gameState.getAllProbes()[0];
+    // Enough fuel for any trip in the galaxy
+    gameState.updateProbe(
+      genesis.id,
+      { resources: { ...genesis.resources, energy: 1e6, hydrogen: 1e6 } },
+      "EnergyBalanced",
+    );
+  });
+
+  const systemNamed = (name: string) =>
+    gameState.getAllSystems().find((s) => s.name === name)!;
+
+  describe("between systems", () => {
+    it("spends fuel up front and flies for the planned ticks", async () => {
+      const target = systemNamed("Lesath");
+      const before = probe(genesis.id).resources;
+      const result = await travelToSystem.fn(
+        { probeId: genesis.id, targetSystemId: target.id },
+        ctx,
+      );
+      const trip = result.data!;
+
+      expect(trip.travelTicks).toBeGreaterThan(1);
+      expect(probe(genesis.id)).toMatchObject({
+        status: "traveling",
+        currentSystemId: genesis.currentSystemId,
+        resources: {
+          energy: before.energy - trip.energyUsed,
+          hydrogen: before.hydrogen - trip.hydrogenUsed,
+        },
+      });
+
+      for (let i = 1; i < trip.travelTicks; i++) tick();
+      expect(probe(genesis.id).currentSystemId).toBe(genesis.currentSystemId);
+
+      tick();
+      expect(gameState.now()).toBe(trip.arrivalTick);
+      expect(probe(genesis.id)).toMatchObject({
+        status: "active",
+        currentSystemId: target.id,
+      });
+      expect(probe(genesis.id).trajectory).toBeUndefined();
+      expect(probe(genesis.id).memory.visitedSystems).toContain(target.id);
+      expect(gameState.getSolarSystem(target.id)!.discoveredBy).toBe(
+        genesis.id,
+      );
+    });
+
+    it("refuses a second trip while in flight", async () => {
+      const [first, second] = gameState
+        .getAllSystems()
+        .filter((s) => s.id !== genesis.currentSystemId);
+      await travelToSystem.fn(
+        { probeId: genesis.id, targetSystemId: first.id },
+        ctx,
+      );
+      const result = await travelToSystem.fn(
+        { probeId: genesis.id, targetSystemId: second.id },
+        ctx,
+      );
+      expect(result.error?.code).toBe("already_traveling");
+    });
+
+    it("refuses a trip the probe can't fuel", async () => {
+      gameState.updateProbe(
+        genesis.id,
+        { resources: { ...genesis.resources, energy: 0, hydrogen: 0 } },
+        "EnergyBalanced",
+      );
+      const target = systemNamed("Lesath");
+      const result = await travelToSystem.fn(
+        { probeId: genesis.id, targetSystemId: target.id },
+        ctx,
+      );
+      expect(result.error?.code).toBe("insufficient_resources");
+      expect(probe(genesis.id).trajectory).toBeUndefined();
+    });
+
+    // Lesath formed no planets or belt in seed 3; it used to have no bodies
+    // at all, and a probe arriving there failed every tick after
+    it("lands in a sparse system with a body to orbit", async () => {
+      const target = systemNamed("Lesath");
+      const { data } = await travelToSystem.fn(
+        { probeId: genesis.id, targetSystemId: target.id },
+        ctx,
+      );
+      while (gameState.now() < data!.arrivalTick) tick();
+
+      const environment = await getEnvironmentState.fn(
+        { probeId: genesis.id },
+        ctx,
+      );
+      expect(environment.data?.currentSystem.id).toBe(target.id);
+      expect(environment.data?.closestBody).toBeDefined();
+      await expect(createEngine(ctx).run(3)).resolves.toHaveLength(3);
+    });
+  });
+
+  describe("within a system", () => {
+    it("moves the probe along its trajectory each tick", async () => {
+      const destination = {
+        x: genesis.position.x + 600,
+        y: genesis.position.y,
+        z: genesis.position.z,
+      };
+      const { data } = await travelToPosition.fn(
+        { probeId: genesis.id, targetPosition: destination },
+        ctx,
+      );
+      expect(data!.travelTime).toBeGreaterThan(1);
+
+      tick();
+      const { x } = probe(genesis.id).position;
+      expect(x).toBeGreaterThan(genesis.position.x);
+      expect(x).toBeLessThan(destination.x);
+
+      while (gameState.now() < data!.arrivalTick) tick();
+      expect(probe(genesis.id)).toMatchObject({
+        status: "active",
+        position: destination,
+      });
+      expect(probe(genesis.id).trajectory).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { gameState } from "@/game/core/game-state";
+import { EngineContext } from "@/game/engine/context";
+import { Position, Probe, SolarSystem, Trajectory } from "@/game/core/types";
+
+// Probes arrive at the edge of a system, just beyond its outermost body
+export function systemArrivalPoint(system: SolarSystem): Position {
+  const outermost = system.bodies.reduce(
+    (max, body) =>
+      Math.max(
+        max,
+        Math.hypot(body.position.x, body.position.y, body.position.z),
+      ),
+    0,
+  );
+  return { x: Math.round(outermost * 1.1 + 50), y: 0, z: 0 };
+}
+
+// Linear interpolation along an in-system trajectory at the given tick
+function positionAlong(trajectory: Trajectory, tick: number): Position {
+  const span = trajectory.arrivalTick - trajectory.departureTick;
+  const progress = Math.min(
+    1,
+    Math.max(0, (tick - trajectory.departureTick) / span),
+  );
+  const lerp = (from: number, to: number) =>
+    Number((from + (to - from) * progress).toFixed(2));
+  return {
+    x: lerp(trajectory.origin.x, trajectory.destination.x),
+    y: lerp(trajectory.origin.y, trajectory.destination.y),
+    z: lerp(trajectory.origin.z, trajectory.destination.z),
+  };
+}
+
+function completeInSystemTravel(
+  probe: Probe,
+  trajectory: Trajectory,
+  ctx: EngineContext,
+) {
+  gameState.updateProbe(
+    probe.id,
+    {
+      status: gameState.idleStatus(probe.hullIntegrity),
+      position: trajectory.destination,
+      trajectory: undefined,
+    },
+    "ProbeArrived",
+  );
+
+  gameState.addProbeExperience(probe.id, {
+    event: "travel_completed",
+    data: {
+      fromPosition: trajectory.origin,
+      toPosition: trajectory.destination,
+      distance: trajectory.distance,
+      departureTick: trajectory.departureTick,
+      arrivalTick: trajectory.arrivalTick,
+    },
+  });
+
+  ctx.logger.info(
+    `  📍 ${probe.name} arrived at (${trajectory.destination.x}, ${trajectory.destination.y}, ${trajectory.destination.z})`,
+  );
+}
+
+function completeInterstellarTravel(
+  probe: Probe,
+  trajectory: Trajectory,
+  ctx: EngineContext,
+) {
+  const destination = gameState.getSolarSystem(trajectory.destinationSystemId);
+
+  if (!destination) {
+    ctx.logger.error(
+      `❌ ${probe.name} lost in transit - system ${trajectory.destinationSystemId} not found`,
+    );
+    return;
+  }
+
+  // First probe to arrive gets credit for the discovery
+  const firstDiscovery = destination.discoveredBy === undefined;
+  if (firstDiscovery) {
+    gameState.discoverSystem(destination.id, probe.id);
+  }
+
+  const visitedSystems = probe.memory.visitedSystems.includes(destination.id)
+    ? probe.memory.visitedSystems
+    : [...probe.memory.visitedSystems, destination.id];
+
+  gameState.updateProbe(
+    probe.id,
+    {
+      status: gameState.idleStatus(probe.hullIntegrity),
+      currentSystemId: destination.id,
+      position: trajectory.destination,
+      trajectory: undefined,
+      memory: { ...probe.memory, visitedSystems },
+    },
+    "ProbeArrived",
+  );
+
+  gameState.addProbeExperience(probe.id, {
+    event: "system_arrived",
+    data: {
+      fromSystemId: trajectory.originSystemId,
+      systemId: destination.id,
+      systemName: destination.name,
+      starClass: destination.starClass,
+      distance: trajectory.distance,
+      departureTick: trajectory.departureTick,
+      arrivalTick: trajectory.arrivalTick,
+      firstDiscovery,
+      bodyCount: destination.bodies.length,
+    },
+  });
+
+  ctx.logger.info(
+    `  🪐 ${probe.name} arrived in ${destination.name}${firstDiscovery ? " - new system discovered!" : ""}`,
+  );
+}
+
+// Move every in-flight probe along its trajectory and land the ones whose
+// arrival tick has come
+export function advanceTrajectories(ctx: EngineContext) {
+  const tick = gameState.getCurrentTick();
+  const inFlight = gameState.getAllProbes().filter((p) => p.trajectory);
+
+  if (inFlight.length === 0) return;
+
+  ctx.logger.info(`🚀 Advancing ${inFlight.length} probes in flight...`);
+
+  inFlight.forEach((probe) => {
+    const trajectory = probe.trajectory!;
+
+    if (tick >= trajectory.arrivalTick) {
+      if (trajectory.kind === "interstellar") {
+        completeInterstellarTravel(probe, trajectory, ctx);
+      } else {
+        completeInSystemTravel(probe, trajectory, ctx);
+      }
+      return;
+    }
+
+    if (trajectory.kind === "in_system") {
+      gameState.updateProbe(
+        probe.id,
+        {
+          position: positionAlong(trajectory, tick),
+        },
+        "ProbeMoved",
+      );
+    }
+
+    ctx.logger.info(
+      `  🚀 ${probe.name}: ${trajectory.arrivalTick - tick} ticks to arrival`,
+    );
+  });
+}
@@ -0,0 +1,5 @@
+import * as rules from "@/game/agents/probe-agent";
+import { ruleTask } from "./hatchet-adapter";
+
+// Hatchet task over a probe's agent run
+export const runProbeAgent = ruleTask(rules.runProbeAgent, "300s");
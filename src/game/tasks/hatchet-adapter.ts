@@ -0,0 +1,48 @@
+import { hatchet } from "@/hatchet.client";
+import { gameState } from "@/game/core/game-state";
+import {
+  Context,
+  Duration,
+  InputType,
+  JsonObject,
+  TaskWorkflowDeclaration,
+} from "@hatchet-dev/typescript-sdk/v1";
+import { EngineContext, Rule } from "@/game/engine/context";
+
+// Hatchet task registered for each rule, by rule name, so a rule that
+// drives another runs it as a Hatchet child task
+const tasksByRule = new Map<
+  string,
+  TaskWorkflowDeclaration<InputType, JsonObject>
+>();
+
+function engineContext(ctx: Context<InputType>): EngineContext {
+  const engineCtx: EngineContext = {
+    logger: ctx.logger,
+    runChild: async <I, O>(rule: Rule<I, O>, input: I): Promise<O> => {
+      const task = tasksByRule.get(rule.name);
+      return task
+        ? ((await ctx.runChild(task, input as InputType)) as O)
+        : rule.fn(input, engineCtx);
+    },
+  };
+  return engineCtx;
+}
+
+// Wrap a game rule as a Hatchet task with the same name. Each task run
+// commits its changes to the state store when it finishes.
+export function ruleTask<I, O>(rule: Rule<I, O>, executionTimeout: Duration) {
+  const task = hatchet.task<I & InputType, O & JsonObject>({
+    name: rule.name,
+    executionTimeout,
+    fn: async (input, ctx) => {
+      try {
+        return (await rule.fn(input, engineContext(ctx))) as O & JsonObject;
+      } finally {
+        gameState.commit();
+      }
+    },
+  });
+  tasksByRule.set(rule.name, task);
+  return task;
+}
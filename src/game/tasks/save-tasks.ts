@@ -0,0 +1,9 @@
+import * as rules from "@/game/engine/save-actions";
+import { ruleTask } from "./hatchet-adapter";
+
+// Hatchet tasks over save slots, snapshots and rollback
+export const saveGame = ruleTask(rules.saveGame, "60s");
+export const listSaves = ruleTask(rules.listSaves, "10s");
+export const loadSave = ruleTask(rules.loadSave, "60s");
+export const forkSave = ruleTask(rules.forkSave, "60s");
+export const rollback = ruleTask(rules.rollback, "60s");
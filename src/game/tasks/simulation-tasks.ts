@@ -0,0 +1,6 @@
+import * as rules from "@/game/simulation/astral-echo-simulation";
+import { ruleTask } from "./hatchet-adapter";
+
+// Hatchet tasks over the simulation loop and its status report
+export const runSimulation = ruleTask(rules.runSimulation, "3600s");
+export const getSimulationStatus = ruleTask(rules.getSimulationStatus, "10s");
@@ -12,16 +12,34 @@ import {
 
 import {
   travelToPosition,
+  travelToSystem,
   harvestResources,
   manufactureProbe,
+  cancelManufacturing,
+  transferResources,
+  sendMessage,
+  upgradeCapability,
+  repairHull,
+  hibernateProbe,
+  refineResources,
+  buildStructure,
+  decommissionStructure,
 } from "@/game/tasks/probe-action-tasks";
 
-import { runProbeAgent } from "@/game/agents/probe-agent";
+import { runProbeAgent } from "@/game/tasks/agent-tasks";
 
 import {
   runSimulation,
   getSimulationStatus,
-} from "@/game/simulation/astral-echo-simulation";
+} from "@/game/tasks/simulation-tasks";
+
+import {
+  saveGame,
+  listSaves,
+  loadSave,
+  forkSave,
+  rollback,
+} from "@/game/tasks/save-tasks";
 
 const main = async () => {
   logger.info("🚀 Starting Astral Echo Worker...");
@@ -47,8 +65,18 @@ const main = async () => {
 
       // Probe action tasks
       travelToPosition,
+      travelToSystem,
       harvestResources,
       manufactureProbe,
+      cancelManufacturing,
+      transferResources,
+      sendMessage,
+      upgradeCapability,
+      repairHull,
+      hibernateProbe,
+      refineResources,
+      buildStructure,
+      decommissionStructure,
 
       // AI agent
       runProbeAgent,
@@ -56,6 +84,13 @@ const main = async () => {
       // Simulation orchestrator
       runSimulation,
       getSimulationStatus,
+
+      // Save slots and rollback
+      saveGame,
+      listSaves,
+      loadSave,
+      forkSave,
+      rollback,
     ],
   });
 
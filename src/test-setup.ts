@@ -0,0 +1,21 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+// Every test file plays its own game: state, event log and save slots live
+// in a fresh temporary directory, never in the working copy. Runs before the
+// file imports the game state.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "astral-echo-test-"));
+
+process.env.STATE_STORE = "json";
+process.env.STATE_FILE = path.join(dir, "game-state.json");
+process.env.EVENT_LOG = path.join(dir, "game-events.jsonl");
+process.env.SAVE_DIR = path.join(dir, "saves");
+process.env.SNAPSHOT_EVERY = "0";
+process.env.PROBE_POLICY = "heuristic";
+process.env.LOG_LEVEL = "silent";
+delete process.env.DECISION_LOG;
+delete process.env.DECISION_REPLAY;
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
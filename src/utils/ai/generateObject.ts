@@ -1,8 +1,6 @@
 import { hatchet } from "@/hatchet.client";
 import { generateText, Message, CoreMessage } from "ai";
-import { openai } from "@ai-sdk/openai";
-
-export const DEFAULT_MODEL = openai.responses("gpt-4.1-mini");
+import { getLanguageModel } from "./provider";
 
 /**
 Prompt part of the AI function options.
@@ -40,7 +38,7 @@ export const generateObject = hatchet.task({
   fn: async (input: PromptInput): Promise<PromptOutput> => {
     const result = await generateText({
       ...input,
-      model: input.modelId ? openai.responses(input.modelId) : DEFAULT_MODEL,
+      model: getLanguageModel(input.modelId, { responses: true }),
     });
 
     return {
@@ -1,8 +1,6 @@
 import { hatchet } from "@/hatchet.client";
 import { generateText as aiGenerateText, Message, CoreMessage } from "ai";
-import { openai } from "@ai-sdk/openai";
-
-export const DEFAULT_MODEL = openai("gpt-4.1-mini");
+import { getLanguageModel } from "./provider";
 
 /**
 Prompt part of the AI function options.
@@ -40,7 +38,7 @@ export const generateText = hatchet.task({
   fn: async (input: PromptInput): Promise<PromptOutput> => {
     const result = await aiGenerateText({
       ...input,
-      model: input.modelId ? openai(input.modelId) : DEFAULT_MODEL,
+      model: getLanguageModel(input.modelId),
     });
 
     return {
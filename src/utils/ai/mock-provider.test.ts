@@ -0,0 +1,52 @@
+import { generateObject, generateText } from "ai";
+import { z } from "zod";
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mock-provider";
+
+const Decision = z.object({
+  action: z.enum(["wait", "explore"]),
+  steps: z.array(z.number().min(2)),
+  note: z.string().optional(),
+});
+
+describe("mock provider", () => {
+  it("answers from the schema when nothing is scripted", async () => {
+    const model = createMockProvider()("test-model");
+    const { object } = await generateObject({
+      model,
+      schema: Decision,
+      prompt: "decide",
+    });
+    expect(object).toEqual({ action: "wait", steps: [2] });
+  });
+
+  it("serves scripted responses in order and wraps around", async () => {
+    const provider = createMockProvider({
+      responses: [
+        { object: { action: "explore", steps: [3] } },
+        { text: "plain answer" },
+      ],
+    });
+    const ask = () =>
+      generateObject({
+        model: provider("a"),
+        schema: Decision,
+        prompt: "decide",
+      });
+
+    expect((await ask()).object.action).toBe("explore");
+    // Models from the same provider share one script
+    const { text } = await generateText({ model: provider("b"), prompt: "?" });
+    expect(text).toBe("plain answer");
+    expect((await ask()).object.steps).toEqual([3]);
+  });
+
+  it("fails a call scripted as an error", async () => {
+    const model = createMockProvider({ responses: [{ error: "outage" }] })(
+      "test-model",
+    );
+    await expect(generateText({ model, prompt: "?" })).rejects.toThrow(
+      /outage/,
+    );
+  });
+});
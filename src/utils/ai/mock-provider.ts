@@ -0,0 +1,209 @@
+import fs from "fs";
+import {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+} from "ai";
+
+// One scripted model response. Fixtures are served in order and wrap around,
+// so a short script can drive an arbitrarily long run.
+export interface MockResponse {
+  // Plain text completion (generateText)
+  text?: string;
+  // Structured output (generateObject); must match the requested schema
+  object?: unknown;
+  // Tool calls (Taskbox pick)
+  toolCalls?: { toolName: string; args: unknown }[];
+  // Make the call throw, to exercise fallback paths
+  error?: string;
+}
+
+export interface MockProviderOptions {
+  // Responses to replay; when empty, responses are synthesized from the schema
+  responses?: MockResponse[];
+}
+
+type LanguageModelV1FunctionToolCall = Omit<
+  Extract<LanguageModelV1StreamPart, { type: "tool-call" }>,
+  "type"
+>;
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: unknown[];
+  oneOf?: unknown[];
+  properties?: Record<string, unknown>;
+  required?: string[];
+  items?: unknown;
+  minItems?: number;
+  minimum?: number;
+  minLength?: number;
+};
+
+// Smallest value that satisfies a JSON schema: first enum option, one array
+// element, required properties only. Good enough for the schemas we send.
+export function sampleFromSchema(definition: unknown): unknown {
+  if (!definition || typeof definition !== "object") return {};
+  const schema = definition as JsonSchema;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  const variant = schema.anyOf?.[0] ?? schema.oneOf?.[0];
+  if (variant) return sampleFromSchema(variant);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required ?? []).map((key) => [
+          key,
+          sampleFromSchema(schema.properties?.[key]),
+        ]),
+      );
+    case "array":
+      return Array.from({ length: Math.max(1, schema.minItems ?? 0) }, () =>
+        sampleFromSchema(schema.items),
+      );
+    case "string":
+      return "mock".padEnd(schema.minLength ?? 0, "-");
+    case "number":
+    case "integer":
+      return Math.max(1, schema.minimum ?? 0);
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return {};
+  }
+}
+
+export function loadMockFixtures(path: string): MockResponse[] {
+  const parsed = JSON.parse(fs.readFileSync(path, "utf-8"));
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1";
+  readonly provider = "mock";
+  readonly defaultObjectGenerationMode = "json";
+
+  constructor(
+    readonly modelId: string,
+    private next: () => MockResponse | undefined,
+  ) {}
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const scripted = this.next();
+    if (scripted?.error) {
+      throw new Error(`[mock:${this.modelId}] ${scripted.error}`);
+    }
+
+    const { mode } = options;
+    let text: string | undefined;
+    let toolCalls: LanguageModelV1FunctionToolCall[] = [];
+
+    if (mode.type === "object-json") {
+      text = JSON.stringify(scripted?.object ?? sampleFromSchema(mode.schema));
+    } else if (mode.type === "object-tool") {
+      toolCalls = [
+        toToolCall(
+          mode.tool.name,
+          scripted?.object ?? sampleFromSchema(mode.tool.parameters),
+          0,
+        ),
+      ];
+    } else if (scripted?.toolCalls) {
+      toolCalls = scripted.toolCalls.map(({ toolName, args }, index) =>
+        toToolCall(toolName, args, index),
+      );
+    } else if (
+      !scripted &&
+      mode.tools?.length &&
+      mode.toolChoice?.type !== "none" &&
+      // Only call a tool on the first step so multi-step loops terminate
+      !options.prompt.some((message) => message.role === "tool")
+    ) {
+      const tool = mode.tools.find(
+        (candidate) => candidate.type === "function",
+      );
+      if (tool && tool.type === "function") {
+        toolCalls = [
+          toToolCall(tool.name, sampleFromSchema(tool.parameters), 0),
+        ];
+      }
+    } else {
+      text =
+        scripted?.text ??
+        (scripted?.object !== undefined
+          ? JSON.stringify(scripted.object)
+          : "mock response");
+    }
+
+    return {
+      text,
+      toolCalls,
+      finishReason:
+        toolCalls.length > 0 && mode.type === "regular"
+          ? ("tool-calls" as const)
+          : ("stop" as const),
+      usage: { promptTokens: 0, completionTokens: 0 },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const result = await this.doGenerate(options);
+    const parts: LanguageModelV1StreamPart[] = [
+      ...(result.text
+        ? [{ type: "text-delta" as const, textDelta: result.text }]
+        : []),
+      ...result.toolCalls.map((call) => ({
+        type: "tool-call" as const,
+        ...call,
+      })),
+      {
+        type: "finish",
+        finishReason: result.finishReason,
+        usage: result.usage,
+      },
+    ];
+
+    return {
+      stream: new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          parts.forEach((part) => controller.enqueue(part));
+          controller.close();
+        },
+      }),
+      rawCall: result.rawCall,
+    };
+  }
+}
+
+function toToolCall(
+  toolName: string,
+  args: unknown,
+  index: number,
+): LanguageModelV1FunctionToolCall {
+  return {
+    toolCallType: "function",
+    toolCallId: `mock-call-${index}`,
+    toolName,
+    args: JSON.stringify(args),
+  };
+}
+
+// Offline stand-in for an AI SDK provider. All models created by one provider
+// share a single response cursor, so a fixture script reads top to bottom
+// regardless of which call site consumes it.
+export const createMockProvider = (options: MockProviderOptions = {}) => {
+  const responses = options.responses ?? [];
+  let cursor = 0;
+  const next = () =>
+    responses.length > 0 ? responses[cursor++ % responses.length] : undefined;
+
+  return (modelId: string): LanguageModelV1 =>
+    new MockLanguageModel(modelId, next);
+};
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { LanguageModelV1 } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { createMockProvider, loadMockFixtures } from "./mock-provider";
+
+// Which backend serves language-model calls. "mock" needs no network or API
+// key and answers from MOCK_AI_FIXTURES (or schema-derived defaults).
+export const AiProviderName = z.enum(["openai", "mock"]);
+
+export const DEFAULT_MODEL_ID = "gpt-4.1-mini";
+
+let mockProvider: ReturnType<typeof createMockProvider> | undefined;
+
+const getMockProvider = () => {
+  if (!mockProvider) {
+    const fixtures = process.env.MOCK_AI_FIXTURES;
+    mockProvider = createMockProvider({
+      responses: fixtures ? loadMockFixtures(fixtures) : [],
+    });
+  }
+  return mockProvider;
+};
+
+export const getAiProviderName = () =>
+  AiProviderName.catch("openai").parse(process.env.AI_PROVIDER);
+
+// Resolve a model for the configured provider. `responses` selects the OpenAI
+// Responses API and is ignored by the mock.
+export const getLanguageModel = (
+  modelId: string = DEFAULT_MODEL_ID,
+  options: { responses?: boolean } = {},
+): LanguageModelV1 => {
+  if (getAiProviderName() === "mock") {
+    return getMockProvider()(modelId);
+  }
+  return options.responses ? openai.responses(modelId) : openai(modelId);
+};
@@ -1,9 +1,9 @@
 import { BaseWorkflowDeclaration } from "@hatchet-dev/typescript-sdk/v1/declaration";
 import { z } from "zod";
 import { generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { hatchet } from "@/hatchet.client";
 import { zodSchema } from "ai";
+import { getLanguageModel } from "./provider";
 
 export interface TaskboxProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -75,7 +75,7 @@ const pick = hatchet.task({
   fn: async (input: PickInput, ctx) => {
     ctx.logger.info(JSON.stringify(input.toolset, null, 2));
     const { steps } = await generateText({
-      model: openai("gpt-4.1-mini"),
+      model: getLanguageModel(),
       tools: input.toolset,
       maxSteps: 5, // allow up to 5 steps
       prompt: input.prompt,
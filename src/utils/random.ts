@@ -0,0 +1,67 @@
+import { v5 as uuidv5 } from "uuid";
+
+// Namespace for ids derived from game seeds (see deterministicId)
+const ASTRAL_ECHO_NAMESPACE = "6f1c2a4e-9d3b-4c7a-8e5f-2b1d0c9a7e63";
+
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] (inclusive) */
+  int(min: number, max: number): number;
+  /** Float in [min, max) */
+  range(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  weighted<T extends string>(weights: Partial<Record<T, number>>): T;
+}
+
+// Hash an arbitrary seed (number or string) down to a 32-bit integer (FNV-1a)
+export const hashSeed = (seed: number | string): number => {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small, fast seeded PRNG (mulberry32). Same seed, same sequence - always.
+export const createRandom = (seed: number | string): Random => {
+  let state = hashSeed(seed);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const random: Random = {
+    next,
+    int: (min, max) => Math.floor(next() * (max - min + 1)) + min,
+    range: (min, max) => next() * (max - min) + min,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    weighted: (weights) => {
+      const entries = Object.entries(weights) as [
+        keyof typeof weights,
+        number,
+      ][];
+      const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+      let roll = next() * total;
+      for (const [key, weight] of entries) {
+        roll -= weight;
+        if (roll < 0) return key as never;
+      }
+      return entries[entries.length - 1][0] as never;
+    },
+  };
+
+  return random;
+};
+
+// Stable id from its parts, e.g. deterministicId(seed, "system", 3)
+export const deterministicId = (...parts: (string | number)[]): string =>
+  uuidv5(parts.join("/"), ASTRAL_ECHO_NAMESPACE);
@@ -0,0 +1,15 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    setupFiles: ["src/test-setup.ts"],
+    // Whole simulation runs take a few seconds each on a slow machine
+    testTimeout: 60_000,
+    hookTimeout: 60_000,
+  },
+});